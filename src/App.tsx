@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { Analytics } from '@vercel/analytics/react';
 import { ChordWheel } from './components/wheel/ChordWheel';
+import { ScaleOverlaySelector } from './components/wheel/ScaleOverlaySelector';
 import { MobileTimeline } from './components/timeline/MobileTimeline';
 import { ChordDetails } from './components/panel/ChordDetails';
 import { PlaybackControls } from './components/playback/PlaybackControls';
@@ -12,10 +13,13 @@ import * as Tone from 'tone';
 import jsPDF from 'jspdf';
 import { saveAs } from 'file-saver';
 import { saveSong, getSavedSongs, deleteSong } from './utils/storage';
-import { getGuitarChord, type GuitarChordShape } from './utils/guitarChordData';
-import { getSectionDisplayName, type Song } from './types';
+import type { GuitarChordShape } from './utils/guitarChordData';
+import { getFrettedChordShapes, getFrettedPreset, getTuningName, orientShape } from './utils/frettedInstruments';
+import { getSectionDisplayName, getSectionKey, type Song } from './types';
+import { buildSongTiming, formatDuration } from './utils/songTiming';
 import { setInstrument, setVolume, setMute, initAudio, startSilentAudioForIOS, unlockAudioForIOS, setAudioResumeNeededCallback, tryResumeAudioContext } from './utils/audioEngine';
-import { formatChordForDisplay } from './utils/musicTheory';
+import { formatChordForDisplay, getKeyDisplayName, spellChordSymbolInKey } from './utils/musicTheory';
+import { analyzeSong } from './utils/harmonicAnalysis';
 
 import { ConfirmDialog } from './components/ui/ConfirmDialog';
 import { HelpModal } from './components/HelpModal';
@@ -197,7 +201,7 @@ const MobilePortraitDrawers: React.FC<MobilePortraitDrawersProps> = ({
 
 
 function App() {
-  const { currentSong, selectedKey, timelineVisible, toggleTimeline, timelineZoom, setTimelineZoom, selectedSectionId, selectedSlotId, clearSlot, clearTimeline, setTitle, setArtist, setTags, setSongTimeSignature, loadSong: loadSongToStore, newSong, instrument, volume, isMuted, undo, redo, canUndo, canRedo, chordPanelVisible, isPlaying, songInfoModalVisible, toggleSongInfoModal, instrumentManagerModalVisible, toggleInstrumentManagerModal, cloudSongs, loadCloudSongs, saveToCloud, deleteFromCloud, isLoadingCloud } = useSongStore();
+  const { currentSong, selectedKey, selectedMode, analysisLaneVisible, timelineVisible, toggleTimeline, timelineZoom, setTimelineZoom, selectedSectionId, selectedSlotId, clearSlot, clearTimeline, setTitle, setArtist, setTags, setSongTimeSignature, loadSong: loadSongToStore, newSong, instrument, volume, isMuted, undo, redo, canUndo, canRedo, transpose, chordPanelVisible, isPlaying, songInfoModalVisible, toggleSongInfoModal, instrumentManagerModalVisible, toggleInstrumentManagerModal, cloudSongs, loadCloudSongs, saveToCloud, deleteFromCloud, isLoadingCloud } = useSongStore();
 
   // Audio Sync Logic
   useEffect(() => {
@@ -824,23 +828,10 @@ function App() {
   };
 
   // Calculate song duration (Task 33)
-  const songDuration = useMemo(() => {
-    const totalBeats = currentSong.sections.reduce((total, section) => {
-      const sectionBeats = section.measures.reduce((mTotal, measure) => {
-        return mTotal + measure.beats.reduce((bTotal, beat) => bTotal + beat.duration, 0);
-      }, 0);
-      return total + sectionBeats;
-    }, 0);
-
-    // Convert beats to seconds using BPM
-    const beatsPerSecond = currentSong.tempo / 60;
-    const totalSeconds = totalBeats / beatsPerSecond;
-
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = Math.floor(totalSeconds % 60);
-
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  }, [currentSong.sections, currentSong.tempo]);
+  const songDuration = useMemo(
+    () => formatDuration(buildSongTiming(currentSong).totalSeconds),
+    [currentSong]
+  );
 
   // Audio initialization state
   const [audioReady, setAudioReady] = useState(false);
@@ -928,6 +919,22 @@ function App() {
     return () => window.removeEventListener('keydown', handleUndoRedo);
   }, [undo, redo, canUndo, canRedo]);
 
+  // Transpose shortcuts: Alt+Up/Down moves the selected chords a semitone, Alt+Shift+Up/Down the whole song
+  useEffect(() => {
+    const handleTranspose = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const isFormElement = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable;
+      if (isFormElement || !e.altKey) return;
+      if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+
+      e.preventDefault();
+      transpose({ semitones: e.key === 'ArrowUp' ? 1 : -1 }, e.shiftKey ? 'song' : 'selection');
+    };
+
+    window.addEventListener('keydown', handleTranspose);
+    return () => window.removeEventListener('keydown', handleTranspose);
+  }, [transpose]);
+
   // Save/Load state (Task 30)
   const [showSaveMenu, setShowSaveMenu] = useState(false);
   const [savedSongs, setSavedSongs] = useState<Song[]>([]);
@@ -1066,18 +1073,13 @@ function App() {
     const measuresPerRow = 4; // Wrap after 4 measures
 
     // Calculate song stats (same as Song Map)
-    const totalBeats = currentSong.sections.reduce((acc, section) => {
-      const sectionTimeSignature = section.timeSignature || currentSong.timeSignature;
-      const beatsPerMeasure = sectionTimeSignature[0];
-      return acc + (section.measures.length * beatsPerMeasure);
-    }, 0);
-    const durationSeconds = (totalBeats / currentSong.tempo) * 60;
-    const durationMinutes = Math.floor(durationSeconds / 60);
-    const durationRemainingSeconds = Math.floor(durationSeconds % 60);
-    const formattedDuration = `${durationMinutes}:${durationRemainingSeconds.toString().padStart(2, '0')}`;
+    const formattedDuration = formatDuration(buildSongTiming(currentSong).totalSeconds);
     const totalMeasures = currentSong.sections.reduce((acc, s) => acc + s.measures.length, 0);
     const totalSections = currentSong.sections.length;
 
+    // Chord diagrams are drawn for the instrument, tuning and capo set in the chord panel
+    const { frettedInstrument, customChordShapes } = useSongStore.getState();
+
     // === HEADER ===
     // Title
     doc.setFontSize(22);
@@ -1105,12 +1107,16 @@ function App() {
     doc.setFontSize(10);
     doc.setFont("helvetica", "normal");
     const infoItems = [
-      `Key: ${formatChordForDisplay(selectedKey)}`,
+      `Key: ${formatChordForDisplay(getKeyDisplayName(selectedKey, selectedMode))}`,
       `${currentSong.timeSignature[0]}/${currentSong.timeSignature[1]}`,
       `Tempo: ${currentSong.tempo} BPM`,
       `Duration: ${formattedDuration}`,
       `${totalSections} sections`,
-      `${totalMeasures} bars`
+      `${totalMeasures} bars`,
+      ...(frettedInstrument.preset !== 'guitar'
+        ? [`${getFrettedPreset(frettedInstrument.preset).label} (${getTuningName(frettedInstrument.tuning)})`]
+        : []),
+      ...(frettedInstrument.capo > 0 ? [`Capo ${frettedInstrument.capo}`] : [])
     ];
     doc.text(infoItems.join('   •   '), leftMargin, 30);
 
@@ -1119,7 +1125,18 @@ function App() {
     // Collect unique chords for diagram section
     const uniqueChords: Set<string> = new Set();
 
+    // Roman numeral analysis is printed under the chords when the timeline lane is on
+    const analysis = analysisLaneVisible ? analyzeSong(currentSong) : null;
+
     currentSong.sections.forEach(section => {
+      // Chord roots are spelled to match the key they are played in (A# -> Bb in F),
+      // which is the section's own key when it overrides the song key
+      const { key: sectionKey, mode: sectionMode } = section.key
+        ? getSectionKey(section, currentSong)
+        : { key: selectedKey, mode: selectedMode };
+      const spelledSymbol = (symbol?: string) =>
+        symbol ? spellChordSymbolInKey(symbol, sectionKey, sectionMode) : '—';
+
       // Build rhythm notation for each measure first to calculate height
       const measureNotations = section.measures.map(measure => {
         const beatCount = measure.beats.length;
@@ -1146,12 +1163,12 @@ function App() {
         });
 
         if (beatCount === 1) {
-          const chord = measure.beats[0]?.chord?.symbol || '—';
+          const chord = spelledSymbol(measure.beats[0]?.chord?.symbol);
           return chord;
         } else if (beatCount === 2) {
-          return measure.beats.map(beat => beat.chord?.symbol || '—').join(' ');
+          return measure.beats.map(beat => spelledSymbol(beat.chord?.symbol)).join(' ');
         } else {
-          return measure.beats.map(beat => beat.chord?.symbol || '—').join(' ');
+          return measure.beats.map(beat => spelledSymbol(beat.chord?.symbol)).join(' ');
         }
       });
 
@@ -1161,7 +1178,8 @@ function App() {
       // - No chords message: 12
       // - Space after section: 6
       const numRows = measureNotations.length === 0 ? 1 : Math.ceil(measureNotations.length / measuresPerRow);
-      const rowHeight = measureNotations.length === 0 ? 12 : numRows * 10;
+      const rowSpacing = analysis ? 15 : 10;
+      const rowHeight = measureNotations.length === 0 ? 12 : numRows * rowSpacing;
       const sectionHeight = 10 + rowHeight + 6; // header + rows + spacing
 
       // Check if we need a new page - ensure entire section fits on one page
@@ -1175,7 +1193,22 @@ function App() {
       doc.setFontSize(14);
       doc.setFont("helvetica", "bold");
       doc.setTextColor(0, 0, 0);
-      doc.text(`[${getSectionDisplayName(section, currentSong.sections)}]`, leftMargin, y);
+      const sectionLabel = `[${getSectionDisplayName(section, currentSong.sections)}]`;
+      doc.text(sectionLabel, leftMargin, y);
+
+      // Key/tempo changes are noted after the section name
+      const sectionChanges = [
+        section.key && `Key: ${formatChordForDisplay(getKeyDisplayName(section.key, section.mode))}`,
+        section.tempo && `${section.tempo} BPM`
+      ].filter(Boolean);
+      if (sectionChanges.length > 0) {
+        const labelWidth = doc.getTextWidth(sectionLabel);
+        doc.setFontSize(10);
+        doc.setFont("helvetica", "italic");
+        doc.setTextColor(100, 100, 100);
+        doc.text(sectionChanges.join('   •   '), leftMargin + labelWidth + 4, y);
+        doc.setTextColor(0, 0, 0);
+      }
       y += 10;
 
       // Wrap measures into rows of 4
@@ -1185,6 +1218,45 @@ function App() {
       if (measureNotations.length === 0) {
         doc.text('(No chords)', leftMargin, y);
         y += 12;
+      } else if (analysis) {
+        // Lay out beat by beat so each numeral sits under its chord
+        for (let i = 0; i < section.measures.length; i += measuresPerRow) {
+          let x = leftMargin;
+          section.measures.slice(i, i + measuresPerRow).forEach((measure, measureIdx) => {
+            if (measureIdx > 0) {
+              doc.setFontSize(14);
+              doc.setFont("helvetica", "normal");
+              doc.setTextColor(0, 0, 0);
+              doc.text('|', x, y);
+              x += doc.getTextWidth('|  ');
+            }
+
+            measure.beats.forEach(beat => {
+              const symbol = spelledSymbol(beat.chord?.symbol);
+              const numeral = analysis[beat.id]?.numeral ?? '';
+
+              doc.setFontSize(14);
+              doc.setFont("helvetica", "normal");
+              doc.setTextColor(0, 0, 0);
+              doc.text(symbol, x, y);
+              const symbolWidth = doc.getTextWidth(`${symbol} `);
+
+              doc.setFontSize(9);
+              doc.setFont("helvetica", "italic");
+              doc.setTextColor(100, 100, 100);
+              doc.text(numeral, x, y + 5);
+              const numeralWidth = doc.getTextWidth(`${numeral}  `);
+
+              x += Math.max(symbolWidth, numeralWidth);
+            });
+
+            doc.setFontSize(14);
+            x += doc.getTextWidth(' ');
+          });
+
+          doc.setTextColor(0, 0, 0);
+          y += rowSpacing;
+        }
       } else {
         for (let i = 0; i < measureNotations.length; i += measuresPerRow) {
           const rowMeasures = measureNotations.slice(i, i + measuresPerRow);
@@ -1225,9 +1297,10 @@ function App() {
 
       chordArray.forEach((chordKey, index) => {
         const [root, quality] = chordKey.split('|');
-        const chord = getGuitarChord(root, quality);
+        const shape = getFrettedChordShapes(root, quality, frettedInstrument, { limit: 1, customShapes: customChordShapes }).shapes[0];
 
-        if (!chord) return;
+        if (!shape) return;
+        const chord = orientShape(shape, frettedInstrument.leftHanded);
 
         if (needsTwoColumns && index === chordsPerColumn) {
           currentColumn = 1;
@@ -1236,7 +1309,7 @@ function App() {
 
         const xOffset = currentColumn * columnWidth;
 
-        const chordName = `${root}${quality === 'maj' ? '' : quality}`;
+        const chordName = spellChordSymbolInKey(`${root}${quality === 'maj' ? '' : quality}`, selectedKey, selectedMode);
         doc.setFontSize(needsTwoColumns ? 6 : 7);
         doc.setFont("helvetica", "bold");
         doc.setTextColor(0, 0, 0);
@@ -1365,11 +1438,12 @@ function App() {
   const drawChordDiagram = (doc: jsPDF, chord: GuitarChordShape, startX: number, startY: number, compact: boolean = false) => {
     const { frets, barres, baseFret } = chord;
 
-    // Layout constants (adjust for compact two-column mode)
-    const stringSpacing = compact ? 2.5 : 3;
+    // Layout constants (adjust for compact two-column mode); the neck keeps its width
+    // whatever the string count
+    const numStrings = frets.length;
+    const stringSpacing = (compact ? 12.5 : 15) / (numStrings - 1);
     const fretSpacing = compact ? 3 : 4;
-    const numFrets = 4;
-    const numStrings = 6;
+    const numFrets = Math.max(4, ...frets);
     const dotRadius = compact ? 1 : 1.2;
 
     // String positions
@@ -1544,7 +1618,7 @@ function App() {
             className={`flex items-center gap-2 p-[10px] ${isMobile ? 'text-xs' : 'text-[10px]'} text-text-muted hover:bg-bg-tertiary rounded-lg transition-colors touch-feedback`}
           >
             <span className="uppercase font-bold">Key</span>
-            <span className={`font-bold text-accent-primary ${isMobile ? 'text-base' : 'text-sm'} min-w-[1.5rem] text-center inline-block`}>{formatChordForDisplay(selectedKey)}</span>
+            <span className={`font-bold text-accent-primary ${isMobile ? 'text-base' : 'text-sm'} min-w-[1.5rem] text-center inline-block`}>{formatChordForDisplay(getKeyDisplayName(selectedKey, selectedMode))}</span>
           </button>
 
           {/* Save/Load Menu (Task 30) - fixed styling */}
@@ -1698,6 +1772,8 @@ function App() {
             {/* Zoom toolbar - show on desktop only, ultra-compact sleek design */}
             {!isMobile ? (
               <div className="flex justify-end gap-3 px-4 shrink-0 w-full mb-2">
+                {/* Scale overlay */}
+                <ScaleOverlaySelector />
                 {/* Zoom controls */}
                 <div className="flex items-center bg-bg-secondary/60 backdrop-blur-sm rounded-full px-1 border border-border-subtle/40 scale-100 origin-right h-8">
                   <button
@@ -18,11 +18,13 @@ import {
     Volume2,
     VolumeX,
     Sparkles,
+    Timer,
 } from 'lucide-react';
 import { useSongStore } from '../store/useSongStore';
 import type { InstrumentType } from '../types';
 import { exportSongAsAudio, getInstrumentDisplayName } from '../utils/exportAudio';
 import { exportSongAsMidi, sanitizeFilename } from '../utils/exportMidi';
+import { getMixerTrack, getSongMixer } from '../utils/mixer';
 
 interface ExportModalProps {
     isOpen: boolean;
@@ -56,7 +58,15 @@ interface ExportProgress {
 
 export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPdfBlob }) => {
     const currentSong = useSongStore((state) => state.currentSong);
-    const currentInstrument = useSongStore((state) => state.instrument);
+    const globalInstrument = useSongStore((state) => state.instrument);
+    const arpeggiator = useSongStore((state) => state.arpeggiator);
+    const bassStyle = useSongStore((state) => state.bassStyle);
+    const drumGroove = useSongStore((state) => state.drumGroove);
+    const feel = useSongStore((state) => state.feel);
+    const voiceLeading = useSongStore((state) => state.voiceLeading);
+
+    // The instrument chords play with now: the mixer's chord instrument when set
+    const currentInstrument = (currentSong ? getMixerTrack(getSongMixer(currentSong), 'chords').instrument : undefined) ?? globalInstrument;
 
     // Selected instruments (default to current instrument)
     const [selectedInstruments, setSelectedInstruments] = useState<InstrumentType[]>([currentInstrument]);
@@ -67,6 +77,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
     const [includePdf, setIncludePdf] = useState(true);
     const [includeDry, setIncludeDry] = useState(true);
     const [includeWet, setIncludeWet] = useState(true);
+    const [includeMetronome, setIncludeMetronome] = useState(false);
 
     // Export state
     const [isExporting, setIsExporting] = useState(false);
@@ -137,7 +148,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
                     currentItem: 'Creating MIDI file...',
                 });
 
-                const midiBlob = exportSongAsMidi(currentSong);
+                const midiBlob = exportSongAsMidi(currentSong, { arpeggiator, bassStyle, drumGroove, feel, voiceLeading });
                 zip.file(`${baseFilename}.mid`, midiBlob);
                 currentProgress++;
             }
@@ -155,7 +166,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
                             currentItem: `Rendering ${getInstrumentDisplayName(instrument)} (dry)...`,
                         });
 
-                        const dryBlob = await exportSongAsAudio(currentSong, instrument, { wet: false });
+                        const dryBlob = await exportSongAsAudio(currentSong, instrument, { wet: false, includeMetronome });
                         zip.file(`${baseFilename}-${instrumentName}-dry.wav`, dryBlob);
                         currentProgress++;
                     }
@@ -168,7 +179,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
                             currentItem: `Rendering ${getInstrumentDisplayName(instrument)} (with effects)...`,
                         });
 
-                        const wetBlob = await exportSongAsAudio(currentSong, instrument, { wet: true });
+                        const wetBlob = await exportSongAsAudio(currentSong, instrument, { wet: true, includeMetronome });
                         zip.file(`${baseFilename}-${instrumentName}-wet.wav`, wetBlob);
                         currentProgress++;
                     }
@@ -219,7 +230,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
             setIsExporting(false);
             setProgress(null);
         }
-    }, [currentSong, exportAudio, exportMidi, includePdf, getPdfBlob, includeDry, includeWet, selectedInstruments, totalExportItems, onClose]);
+    }, [currentSong, exportAudio, exportMidi, includePdf, getPdfBlob, includeDry, includeWet, includeMetronome, arpeggiator, bassStyle, drumGroove, feel, voiceLeading, selectedInstruments, totalExportItems, onClose]);
 
     if (!isOpen) return null;
 
@@ -342,6 +353,18 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, getPd
                                     {includeWet && <Check className="w-3 h-3 text-emerald-400" />}
                                 </button>
                             </div>
+                            <button
+                                onClick={() => setIncludeMetronome(!includeMetronome)}
+                                disabled={isExporting}
+                                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all ${includeMetronome
+                                    ? 'bg-gray-700/50 text-white'
+                                    : 'text-gray-500 hover:text-gray-300'
+                                    }`}
+                            >
+                                <Timer className="w-4 h-4" />
+                                <span>Include metronome click</span>
+                                {includeMetronome && <Check className="w-3 h-3 text-emerald-400" />}
+                            </button>
                         </div>
                     )}
 
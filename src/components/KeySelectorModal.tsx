@@ -1,8 +1,21 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { X } from 'lucide-react';
-import { CIRCLE_OF_FIFTHS, getWheelColors, formatChordForDisplay, getKeySignature, getChordNotes } from '../utils/musicTheory';
+import {
+    CIRCLE_OF_FIFTHS,
+    getWheelColors,
+    formatChordForDisplay,
+    getKeySignature,
+    getDiatonicChords,
+    getParentMajorKey,
+    getTonicForParentKey,
+    getKeyDisplayName,
+    type KeyMode
+} from '../utils/musicTheory';
 import { useSongStore } from '../store/useSongStore';
+import { detectSectionKeys, detectSongKey } from '../utils/keyDetection';
+import { getCapoSuggestions } from '../utils/transpose';
+import { getSectionDisplayName } from '../types';
 
 interface KeySelectorModalProps {
     isOpen: boolean;
@@ -11,22 +24,55 @@ interface KeySelectorModalProps {
 
 /**
  * KeySelectorModal - A modal for selecting the current key
- * Displays all 12 keys in a circular layout matching the wheel
+ * Displays all 12 keys in a circular layout matching the wheel, for the chosen mode
  * When a key is selected:
- * 1. Updates the selected key in the store
- * 2. Rotates the wheel to show that key at the top
- * 3. Selects the tonic (I) chord
+ * 1. Updates the selected key and mode in the store
+ * 2. Rotates the wheel to show that key's parent major position at the top
+ * 3. Selects the tonic (I / i) chord
+ * Keys detected from the song's chords are offered above the grid. With "Transpose chords"
+ * on, picking a key rewrites every chord in the song into it instead of only relabeling.
  */
+
+const MODE_OPTIONS: { mode: KeyMode; label: string }[] = [
+    { mode: 'ionian', label: 'Major' },
+    { mode: 'aeolian', label: 'Minor' },
+    { mode: 'dorian', label: 'Dorian' },
+    { mode: 'phrygian', label: 'Phrygian' },
+    { mode: 'lydian', label: 'Lydian' },
+    { mode: 'mixolydian', label: 'Mixolydian' },
+    { mode: 'locrian', label: 'Locrian' },
+    { mode: 'harmonicMinor', label: 'Harm. Minor' },
+    { mode: 'melodicMinor', label: 'Mel. Minor' },
+];
 export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
     isOpen,
     onClose,
 }) => {
     const modalRef = useRef<HTMLDivElement>(null);
-    const { selectedKey, setKey, setSelectedChord } = useSongStore();
+    const { currentSong, selectedKey, selectedMode, setKey, setSelectedChord, transpose } = useSongStore();
+    const [mode, setMode] = useState<KeyMode>(selectedMode);
+    const [transposeChords, setTransposeChords] = useState(false);
+    const [wasOpen, setWasOpen] = useState(isOpen);
+
+    // Re-sync the mode tabs with the store each time the modal opens
+    if (isOpen !== wasOpen) {
+        setWasOpen(isOpen);
+        if (isOpen) setMode(selectedMode);
+    }
 
     // Get wheel colors for display
     const colors = getWheelColors();
 
+    // Best-guess keys from the chords in the song, and sections that move away from the song key
+    const detectedKeys = useMemo(
+        () => isOpen ? detectSongKey(currentSong, { includeModes: true }).slice(0, 3) : [],
+        [isOpen, currentSong]
+    );
+    const modulatingSections = useMemo(
+        () => isOpen ? detectSectionKeys(currentSong).filter(estimate => estimate.modulates) : [],
+        [isOpen, currentSong]
+    );
+
     // Close on Escape key
     useEffect(() => {
         if (!isOpen) return;
@@ -43,28 +89,25 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
 
     if (!isOpen) return null;
 
-    const handleKeySelect = (key: string) => {
+    const capoSuggestions = getCapoSuggestions(selectedKey, selectedMode);
+
+    const handleKeySelect = (key: string, keyMode: KeyMode = mode) => {
+        // Move the chords along with the key when transposing
+        if (transposeChords) transpose({ key }, 'song');
+
         // Update the selected key in the store (which also handles wheel rotation)
-        setKey(key);
-
-        // Create and select the tonic (I) chord for this key
-        const tonicNotes = getChordNotes(key, 'major');
-        const tonicChord = {
-            root: key,
-            quality: 'major' as const,
-            numeral: 'I',
-            notes: tonicNotes,
-            symbol: key,
-        };
-        setSelectedChord(tonicChord);
+        setKey(key, { mode: keyMode });
+
+        // Select the tonic chord for this key center
+        setSelectedChord(getDiatonicChords(key, keyMode)[0]);
 
         // Close the modal
         onClose();
     };
 
     // Get key signature info
-    const getKeySigDisplay = (key: string) => {
-        const keySig = getKeySignature(key);
+    const getKeySigDisplay = (key: string, keyMode: KeyMode) => {
+        const keySig = getKeySignature(getParentMajorKey(key, keyMode));
         if (keySig.sharps > 0) return `${keySig.sharps}♯`;
         if (keySig.flats > 0) return `${keySig.flats}♭`;
         return '';
@@ -119,26 +162,84 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
                         <div className="flex items-center justify-center gap-2 mt-1">
                             <span
                                 className="text-2xl font-bold"
-                                style={{ color: colors[selectedKey as keyof typeof colors] || '#6366f1' }}
+                                style={{ color: colors[getParentMajorKey(selectedKey, selectedMode) as keyof typeof colors] || '#6366f1' }}
                             >
-                                {formatChordForDisplay(selectedKey)}
+                                {formatChordForDisplay(getKeyDisplayName(selectedKey, selectedMode))}
                             </span>
                             <span className="text-sm text-text-muted">
-                                {getKeySigDisplay(selectedKey) || 'No ♯/♭'}
+                                {getKeySigDisplay(selectedKey, selectedMode) || 'No ♯/♭'}
                             </span>
                         </div>
                     </div>
 
+                    {/* Detected keys */}
+                    {detectedKeys.length > 0 && (
+                        <div className="mb-4">
+                            <span className="block text-[10px] text-text-muted uppercase tracking-wider text-center mb-1.5">
+                                Detected from chords
+                            </span>
+                            <div className="flex justify-center gap-1.5">
+                                {detectedKeys.map(candidate => (
+                                    <button
+                                        key={`${candidate.tonic}-${candidate.mode}`}
+                                        onClick={() => handleKeySelect(candidate.tonic, candidate.mode)}
+                                        className="flex flex-col items-center px-2 py-1 rounded-lg border border-border-subtle hover:bg-bg-tertiary transition-colors"
+                                        title={`Set key to ${getKeyDisplayName(candidate.tonic, candidate.mode)}`}
+                                    >
+                                        <span
+                                            className="text-xs font-bold"
+                                            style={{ color: colors[getParentMajorKey(candidate.tonic, candidate.mode) as keyof typeof colors] || '#6366f1' }}
+                                        >
+                                            {formatChordForDisplay(getKeyDisplayName(candidate.tonic, candidate.mode))}
+                                        </span>
+                                        <span className="text-[9px] text-text-muted">
+                                            {Math.round(candidate.confidence * 100)}%
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                            {modulatingSections.map(estimate => {
+                                const section = currentSong.sections.find(s => s.id === estimate.sectionId);
+                                const best = estimate.candidates[0];
+                                if (!section || !best) return null;
+                                return (
+                                    <p key={estimate.sectionId} className="text-[10px] text-amber-400 text-center mt-1">
+                                        {getSectionDisplayName(section, currentSong.sections)} sounds like {formatChordForDisplay(getKeyDisplayName(best.tonic, best.mode))}
+                                    </p>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {/* Mode Tabs */}
+                    <div className="flex flex-wrap justify-center gap-1 mb-3">
+                        {MODE_OPTIONS.map(option => (
+                            <button
+                                key={option.mode}
+                                onClick={() => setMode(option.mode)}
+                                className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${mode === option.mode
+                                    ? 'bg-accent-primary text-white'
+                                    : 'bg-bg-tertiary text-text-muted hover:text-text-primary'
+                                    }`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
                     {/* Key Grid - 4x3 layout following Circle of Fifths */}
                     <div className="grid grid-cols-4 gap-2">
-                        {CIRCLE_OF_FIFTHS.map((key) => {
-                            const isSelected = key === selectedKey;
-                            const keyColor = colors[key as keyof typeof colors] || '#6366f1';
-                            const keySigDisplay = getKeySigDisplay(key);
+                        {CIRCLE_OF_FIFTHS.map((parentKey) => {
+                            // Keep the grid aligned with the wheel: each cell is the tonic of
+                            // the chosen mode on that parent major position
+                            const key = getTonicForParentKey(parentKey, mode);
+                            const isSelected = key === selectedKey && mode === selectedMode;
+                            const keyColor = colors[parentKey as keyof typeof colors] || '#6366f1';
+                            const keySigDisplay = getKeySigDisplay(key, mode);
 
                             return (
                                 <button
-                                    key={key}
+                                    key={parentKey}
                                     onClick={() => handleKeySelect(key)}
                                     className={`
                                         relative flex flex-col items-center justify-center
@@ -161,7 +262,7 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
                                         className={`text-lg font-bold ${isSelected ? 'text-black' : ''}`}
                                         style={{ color: isSelected ? undefined : keyColor }}
                                     >
-                                        {formatChordForDisplay(key)}
+                                        {formatChordForDisplay(mode === 'aeolian' ? `${key}m` : key)}
                                     </span>
 
                                     {/* Key Signature */}
@@ -175,9 +276,40 @@ export const KeySelectorModal: React.FC<KeySelectorModalProps> = ({
                         })}
                     </div>
 
+                    {/* Transpose options */}
+                    <div className="mt-4 pt-3 border-t border-border-subtle space-y-2">
+                        <label className="flex items-center justify-center gap-2 text-[11px] text-text-secondary cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={transposeChords}
+                                onChange={(e) => setTransposeChords(e.target.checked)}
+                                className="accent-accent-primary"
+                            />
+                            Transpose chords to the new key
+                        </label>
+                        {capoSuggestions.length > 0 && (
+                            <div className="flex flex-wrap items-center justify-center gap-1">
+                                <span className="text-[10px] text-text-muted">Capo-friendly:</span>
+                                {capoSuggestions.map(suggestion => (
+                                    <button
+                                        key={suggestion.key}
+                                        onClick={() => {
+                                            transpose({ key: suggestion.key }, 'song');
+                                            onClose();
+                                        }}
+                                        className="px-1.5 py-0.5 rounded bg-bg-tertiary text-[10px] text-text-muted hover:text-text-primary transition-colors"
+                                        title={`Transpose to ${getKeyDisplayName(suggestion.key, selectedMode)}, or keep the pitch with capo ${suggestion.capo} and ${suggestion.key} shapes`}
+                                    >
+                                        {formatChordForDisplay(getKeyDisplayName(suggestion.key, selectedMode))} · capo {suggestion.capo}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
                     {/* Hint */}
                     <p className="text-[10px] text-text-muted text-center mt-4">
-                        Tap a key to change. The wheel will rotate and the I chord will be selected.
+                        Tap a key to change. The wheel will rotate and the tonic chord will be selected.
                     </p>
                 </div>
             </div>
@@ -1,11 +1,17 @@
 import { useSongStore } from '../../store/useSongStore';
 import { PianoKeyboard } from './PianoKeyboard';
+import { VoicingLibrary } from './VoicingLibrary';
+import { ScaleVisualizer } from './ScaleVisualizer';
 import { GuitarChord } from './GuitarChord';
+import { FrettedInstrumentSelector } from './FrettedInstrumentSelector';
+import { GuitarShapeEditor } from './GuitarShapeEditor';
 import { MusicStaff } from './MusicStaff';
 import { VoiceSelector } from '../playback/VoiceSelector';
-import { getWheelColors, getChordNotes, getIntervalFromKey, invertChord, getMaxInversion, getInversionName, getChordSymbolWithInversion, formatChordForDisplay, getQualitySymbol, getMajorScale } from '../../utils/musicTheory';
-import { PanelRightClose, PanelRight, GripVertical, ChevronDown, ChevronLeft, ChevronRight, Plus, MoveRight } from 'lucide-react';
+import { getWheelColors, getChordNotes, getIntervalFromKey, invertChord, getMaxInversion, getInversionName, getChordSymbolWithInversion, formatChordForDisplay, getQualitySymbol, getMajorScale, getParentMajorKey, getKeyDisplayName, getScaleNotes, getPitchClass, spellChordTones, normalizeNote, type ScaleId } from '../../utils/musicTheory';
+import { PanelRightClose, PanelRight, GripVertical, ChevronDown, ChevronLeft, ChevronRight, Plus, MoveRight, Pencil, RotateCcw, Layers } from 'lucide-react';
 import { playChord, playNote } from '../../utils/audioEngine';
+import type { Chord } from '../../utils/musicTheory';
+import { getChordVoicing, toggleVoicingNote } from '../../utils/chordVoicing';
 import { useState, useCallback, useEffect, useRef } from 'react';
 
 import { useMobileLayout } from '../../hooks/useIsMobile';
@@ -21,6 +27,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     const {
         selectedChord,
         selectedKey,
+        selectedMode,
         chordPanelVisible,
         toggleChordPanel,
         selectedSectionId,
@@ -39,7 +46,11 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         setChordPanelScrollTarget,
         autoAdvance,
         toggleAutoAdvance,
-        selectNextSlotAfter
+        selectNextSlotAfter,
+        currentSong,
+        setChordVoicing,
+        scaleOverlay,
+        setScaleOverlay
     } = useSongStore();
     const colors = getWheelColors();
     const [previewVariant, setPreviewVariant] = useState<string | null>(null);
@@ -63,8 +74,13 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     const [showVariations, setShowVariationsLocal] = useState(false); // Collapsed by default
     const [showScales, setShowScales] = useState(false); // Collapsed by default
     const [showTheory, setShowTheory] = useState(false); // Collapsed by default
+    const [showVoicingLibrary, setShowVoicingLibrary] = useState(false); // Collapsed by default
+    const [showScaleVisualizer, setShowScaleVisualizer] = useState(false); // Collapsed by default
+    const [showShapeEditor, setShowShapeEditor] = useState(false);
     const [showGuitar, setShowGuitarLocal] = useState(!isMobile || isLandscapeVariant); // Collapsed on mobile (except landscape), expanded on desktop
     const pianoOctave = 4; // Fixed octave for piano keyboard
+    const voicingOctave = 3; // Voicings start in octave 3, so the editor shows C3-B4
+    const [isEditingVoicing, setIsEditingVoicing] = useState(false);
 
     // Sync local state to global store for voicing picker logic
     const setShowVariations = (value: boolean) => {
@@ -92,7 +108,9 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     // Refs for auto-scrolling sections into view
     const guitarSectionRef = useRef<HTMLDivElement>(null);
     const voicingsSectionRef = useRef<HTMLDivElement>(null);
+    const voicingLibrarySectionRef = useRef<HTMLDivElement>(null);
     const scalesSectionRef = useRef<HTMLDivElement>(null);
+    const scaleVisualizerSectionRef = useRef<HTMLDivElement>(null);
     const theorySectionRef = useRef<HTMLDivElement>(null);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -159,9 +177,27 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     };
 
     const handleNotePlay = useCallback((note: string, octave: number) => {
-        playNote(note, octave);
+        // Staff notes arrive spelled (Bbb, E#); playback wants the plain NOTES name
+        playNote(normalizeNote(note), octave);
     }, []);
 
+    // The timeline chord on show; its voicing (the exact notes playback and exports use)
+    // can be edited on the keyboard
+    const slotChord = selectedSectionId && selectedSlotId
+        ? currentSong.sections
+            .find(section => section.id === selectedSectionId)
+            ?.measures.flatMap(measure => measure.beats)
+            .find(beat => beat.id === selectedSlotId)?.chord ?? null
+        : null;
+    const canEditVoicing = !!slotChord && !previewVariant;
+    const showVoicing = canEditVoicing && isEditingVoicing;
+    const chordVoicing = slotChord ? getChordVoicing(slotChord) : [];
+
+    const handleVoicingToggle = (note: string, octave: number) => {
+        if (!selectedSectionId || !selectedSlotId) return;
+        setChordVoicing(selectedSectionId, selectedSlotId, toggleVoicingNote(chordVoicing, `${note}${octave}`));
+    };
+
     const voicingTooltips: Record<string, string> = {
         // Major voicings
         'maj': 'The classic major triad: bright, stable, and universally resolved. The foundation of Western harmony and the sound of "home."',
@@ -218,52 +254,9 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
     const getAbsoluteDegree = (note: string): string => {
         if (!chord?.root) return '-';
 
-        const normalize = (n: string) => n.replace(/[\d]/g, '').replace(/♭/, 'b').replace(/♯/, '#');
-        const semitoneMap: Record<string, number> = {
-            'C': 0,
-            'B#': 0,
-            'C#': 1,
-            'Db': 1,
-            'D': 2,
-            'D#': 3,
-            'Eb': 3,
-            'E': 4,
-            'Fb': 4,
-            'E#': 5,
-            'F': 5,
-            'F#': 6,
-            'Gb': 6,
-            'G': 7,
-            'G#': 8,
-            'Ab': 8,
-            'A': 9,
-            'A#': 10,
-            'Bb': 10,
-            'B': 11,
-            'Cb': 11,
-        };
-
-        const rootPc = semitoneMap[normalize(chord.root)];
-        const notePc = semitoneMap[normalize(note)];
-        if (rootPc === undefined || notePc === undefined) return '-';
-
-        const interval = (notePc - rootPc + 12) % 12;
-        const degreeMap: Record<number, string> = {
-            0: 'R',
-            1: '♭2',
-            2: '2',
-            3: '♭3',
-            4: '3',
-            5: '4',
-            6: '♭5',
-            7: '5',
-            8: '♭6',
-            9: '6',
-            10: '♭7',
-            11: '7',
-        };
-
-        return degreeMap[interval] ?? '-';
+        const degree = getIntervalFromKey(chord.root, note);
+        if (degree === '?') return '-';
+        return degree === '1' ? 'R' : degree;
     };
 
     // Handle resize drag (sidebar only) - supports both mouse and touch
@@ -400,6 +393,15 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         ? previewNotes
         : (chord?.notes || []);
     const displayNotes = invertChord(baseNotes, chordInversion);
+    // Letter-correct spelling of the same notes for display (Bbm -> Db, not C#)
+    const spelledNotes = chord
+        ? spellChordTones({
+            root: chord.root,
+            quality: previewVariant || chord.quality,
+            notes: displayNotes,
+            bassNote: chord.bassNote
+        })
+        : displayNotes;
     const maxInversion = getMaxInversion(baseNotes);
 
     // Play chord variation and show notes until another is clicked
@@ -447,7 +449,8 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
             quality: variant as any,
             symbol: chordSymbol,
             notes: variantNotes,
-            inversion: chordInversion // Save the current inversion with this chord
+            inversion: chordInversion, // Save the current inversion with this chord
+            voicing: undefined // A new quality or inversion starts from the default layout
         };
 
         addChordToSlot(newChord, selectedSectionId, selectedSlotId);
@@ -496,7 +499,8 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
             quality: currentVariant as any,
             symbol: chordSymbol,
             notes: variantNotes,
-            inversion: chordInversion
+            inversion: chordInversion,
+            voicing: undefined
         };
 
         addChordToSlot(newChord, selectedSectionId, selectedSlotId);
@@ -511,6 +515,25 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
         }
     }, [chord, previewVariant, chordInversion, selectedSectionId, selectedSlotId, addChordToSlot, setSelectedSlot, setSelectedChord, timelineVisible, openTimeline, autoAdvance, selectNextSlotAfter]);
 
+    // Put the chord on show into the selected slot with a voicing from the library
+    const handleVoicingAssign = useCallback((voicing: string[]) => {
+        if (!chord || !selectedSectionId || !selectedSlotId) return;
+
+        const currentVariant = previewVariant || chord.quality;
+        const variantNotes = getChordNotes(chord.root, currentVariant);
+        const newChord = {
+            ...chord,
+            quality: currentVariant as Chord['quality'],
+            symbol: getChordSymbolWithInversion(chord.root, currentVariant, variantNotes, chordInversion),
+            notes: variantNotes,
+            inversion: chordInversion,
+            voicing
+        };
+
+        addChordToSlot(newChord, selectedSectionId, selectedSlotId);
+        setSelectedChord(newChord);
+    }, [chord, previewVariant, chordInversion, selectedSectionId, selectedSlotId, addChordToSlot, setSelectedChord]);
+
     // Touch event handling for chord title (for proper double-tap and bounce effect)
     const titleLastTouchTime = useRef(0);
     const titleTouchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -593,11 +616,40 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                 extensions: ['maj', '7', 'sus4'],
                 description: 'A secondary dominant (V of vi) — creates an unexpected dramatic pull toward vi. Perfect for adding tension before a minor chord moment.'
             },
+            // Minor and modal key centers
+            'i': {
+                extensions: ['m', 'm7', 'm9', 'm6', 'm11'],
+                description: 'The minor tonic — home base in a minor key. Darker and more introspective than a major I, but just as stable as a place to begin and resolve.'
+            },
+            'iv': {
+                extensions: ['m', 'm7', 'm9', 'm6'],
+                description: 'The minor subdominant — heavy, yearning motion away from home. In a major key it becomes the classic borrowed "sad IV."'
+            },
+            'v': {
+                extensions: ['m', 'm7', 'm9'],
+                description: 'The natural minor dominant — a softer, modal pull back to i. Swap it for a major V (or V7) when you want a stronger cadence.'
+            },
+            'ii°': {
+                extensions: ['dim', 'm7♭5'],
+                description: 'The minor-key supertonic — a tense, shadowy setup chord. As m7♭5 it drives the minor ii–V–i.'
+            },
+            'bIII': {
+                extensions: ['maj', 'maj7', 'maj9', '6'],
+                description: 'The relative major — a bright lift inside a minor key. Great for choruses that open up without leaving home.'
+            },
+            'bVI': {
+                extensions: ['maj', 'maj7', 'maj9'],
+                description: 'The flat six — warm and cinematic. A staple of epic minor progressions (i–bVI–bIII–bVII).'
+            },
+            'bVII': {
+                extensions: ['maj', '7', 'sus4', 'add9'],
+                description: 'The flat seven — the rock and modal "dominant." It leads home to i with a gentler, more open sound than V.'
+            },
         };
 
         return suggestions[numeral || ''] || {
             extensions: [],
-            description: `This chord doesn't fit in the key of ${selectedKey}, but it may add color and interest to your progression.`
+            description: `This chord doesn't fit in the key of ${getKeyDisplayName(selectedKey, selectedMode)}, but it may add color and interest to your progression.`
         };
     };
 
@@ -912,9 +964,40 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                     rootNote={chord.root}
                                     bassNote={displayNotes[0]}
                                     color={chordColor}
-                                    octave={pianoOctave}
+                                    octave={showVoicing ? voicingOctave : pianoOctave}
                                     onNotePlay={handleNotePlay}
+                                    voicing={showVoicing ? chordVoicing : undefined}
+                                    onNoteToggle={showVoicing ? handleVoicingToggle : undefined}
                                 />
+                                {/* Voicing editor for the timeline chord: tap keys to add or remove notes */}
+                                {canEditVoicing && slotChord && (
+                                    <div className="mt-2 flex items-center gap-2">
+                                        <span className="text-[10px] font-semibold uppercase tracking-wide text-text-muted">Voicing</span>
+                                        <span className="flex-1 min-w-0 truncate text-[10px] text-text-secondary tabular-nums">
+                                            {slotChord.voicing ? chordVoicing.join(' ') : 'Default'}
+                                        </span>
+                                        {slotChord.voicing && (
+                                            <button
+                                                onClick={() => setChordVoicing(selectedSectionId!, selectedSlotId!, null)}
+                                                className="flex items-center gap-1 px-2 h-6 rounded bg-bg-tertiary text-[10px] font-bold text-text-secondary hover:text-text-primary transition-colors"
+                                                title="Back to the default voicing"
+                                            >
+                                                <RotateCcw size={10} />
+                                                Reset
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => setIsEditingVoicing(!isEditingVoicing)}
+                                            className={`flex items-center gap-1 px-2 h-6 rounded text-[10px] font-bold transition-colors ${isEditingVoicing
+                                                ? 'bg-accent-primary text-white'
+                                                : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'}`}
+                                            title={isEditingVoicing ? 'Done editing the voicing' : 'Edit the voicing: tap keys to add or remove notes'}
+                                        >
+                                            <Pencil size={10} />
+                                            {isEditingVoicing ? 'Done' : 'Edit'}
+                                        </button>
+                                    </div>
+                                )}
                                 {/* Notes display - ONLY show if not in compact landscape */}
                                 {!isCompactLandscape && (
                                     <div className={`${isMobile ? 'mt-4' : 'mt-5'} w-full`}>
@@ -926,7 +1009,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                         >
                                             {/* Notes row - fixed height to prevent layout shift */}
                                             <div className="text-[10px] font-semibold uppercase tracking-wide text-text-muted flex items-center" style={{ height: '16px' }}>Notes</div>
-                                            {displayNotes.map((note, i) => (
+                                            {spelledNotes.map((note, i) => (
                                                 <div
                                                     key={`note-${i}`}
                                                     className={`text-center ${isMobile ? 'text-xs' : 'text-sm'} font-bold text-text-primary flex items-center justify-center`}
@@ -938,7 +1021,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
 
                                             {/* Absolute row - fixed height to prevent layout shift */}
                                             <div className="text-[10px] font-semibold uppercase tracking-wide text-text-muted flex items-center" style={{ height: '16px' }}>Absolute</div>
-                                            {displayNotes.map((note, i) => (
+                                            {spelledNotes.map((note, i) => (
                                                 <div
                                                     key={`abs-${i}`}
                                                     className={`text-center ${isMobile ? 'text-[11px]' : 'text-xs'} text-text-primary font-semibold flex items-center justify-center`}
@@ -950,7 +1033,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
 
                                             {/* Relative to Key row - fixed height to prevent layout shift */}
                                             <div className="text-[10px] font-semibold uppercase tracking-wide text-text-muted flex items-center" style={{ height: '16px' }}>Relative</div>
-                                            {displayNotes.map((note, i) => (
+                                            {spelledNotes.map((note, i) => (
                                                 <div
                                                     key={`rel-${i}`}
                                                     className={`text-center ${isMobile ? 'text-[11px]' : 'text-xs'} text-text-secondary flex items-center justify-center`}
@@ -1004,7 +1087,17 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                     color={chordColor}
                                                     onClick={handleDiagramClick}
                                                     onDoubleClick={handleDiagramDoubleClick}
+                                                    showShapes={true}
                                                 />
+                                                <FrettedInstrumentSelector />
+                                                <button
+                                                    onClick={() => setShowShapeEditor(!showShapeEditor)}
+                                                    className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-semibold transition-colors ${showShapeEditor ? 'text-text-primary bg-bg-tertiary' : 'text-text-muted hover:text-text-primary'}`}
+                                                    title="Build and save your own shape"
+                                                >
+                                                    <Pencil size={10} />
+                                                    My Shapes
+                                                </button>
                                                 {/* Voicing description below guitar chord - hide in landscape mode */}
                                                 {!isCompactLandscape && (
                                                     <p className={`${isMobile ? 'text-[10px]' : 'text-[9px]'} text-text-muted leading-relaxed text-center ${isMobile ? 'mb-1 px-1' : 'mb-1 px-0.5'}`} style={{ maxWidth: isCompactLandscape ? '70px' : '100px' }}>
@@ -1057,10 +1150,10 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                         {!isNarrowPanel && !isCompactLandscape && (
                                                             <div className="mt-auto" style={{ paddingTop: isCompactLandscape ? '2px' : '6px' }}>
                                                                 <MusicStaff
-                                                                    notes={displayNotes}
+                                                                    notes={spelledNotes}
                                                                     rootNote={chord.root}
                                                                     color={chordColor}
-                                                                    numerals={displayNotes.map(note => getAbsoluteDegree(note))}
+                                                                    numerals={spelledNotes.map(note => getAbsoluteDegree(note))}
                                                                     onNotePlay={handleNotePlay}
                                                                     compact={true}
                                                                 />
@@ -1071,10 +1164,10 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                     /* Out-of-key: show message inline with a larger, centered music staff */
                                                     <div className="flex flex-col items-center justify-center flex-1">
                                                         <MusicStaff
-                                                            notes={displayNotes}
+                                                            notes={spelledNotes}
                                                             rootNote={chord.root}
                                                             color={chordColor}
-                                                            numerals={displayNotes.map(note => getAbsoluteDegree(note))}
+                                                            numerals={spelledNotes.map(note => getAbsoluteDegree(note))}
                                                             onNotePlay={handleNotePlay}
                                                             compact={false}
                                                         />
@@ -1085,6 +1178,15 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                 )}
                                             </div>
                                         </div>
+                                        {showShapeEditor && (
+                                            <div className="px-3 mt-2">
+                                                <GuitarShapeEditor
+                                                    root={chord.root}
+                                                    quality={previewVariant || chord.quality}
+                                                    color={chordColor}
+                                                />
+                                            </div>
+                                        )}
                                     </>
                                 )}
                             </div>
@@ -1196,6 +1298,81 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                 </div>
                             )}
 
+                            {/* Voicing library - generated piano voicings for the chord on show */}
+                            <div
+                                ref={voicingLibrarySectionRef}
+                                className={`${isLandscapeExpanded ? 'px-3 py-1' : isMobile ? 'px-5 py-1 mt-2' : 'px-5 py-1'} rounded-none`}
+                                style={{ backgroundColor: '#1e1e28', borderBottom: '1px solid #3a3a4a', scrollMarginTop: '60px' }}
+                            >
+                                <button
+                                    onClick={() => {
+                                        const newState = !showVoicingLibrary;
+                                        setShowVoicingLibrary(newState);
+                                        if (newState) {
+                                            setTimeout(() => scrollSectionIntoView(voicingLibrarySectionRef), 50);
+                                        }
+                                    }}
+                                    className={`w-full flex items-center justify-between ${showVoicingLibrary ? 'mb-2' : 'mb-0'} cursor-pointer rounded-none`}
+                                    style={{ backgroundColor: 'transparent' }}
+                                >
+                                    <h3 className={`${isCompactLandscape ? 'text-[9px]' : isMobile ? 'text-[11px]' : 'text-[10px]'} font-semibold text-text-secondary uppercase tracking-wide`}>
+                                        Piano Voicings
+                                    </h3>
+                                    <ChevronDown
+                                        size={isCompactLandscape ? 8 : isMobile ? 14 : 12}
+                                        className={`text-text-secondary transition-transform ${showVoicingLibrary ? 'rotate-180' : ''}`}
+                                    />
+                                </button>
+                                {showVoicingLibrary && (
+                                    <div className="pb-2">
+                                        <VoicingLibrary
+                                            chord={{ root: chord.root, notes: baseNotes, inversion: chordInversion, bassNote: chord.bassNote }}
+                                            color={chordColor}
+                                            compact={isCompactLandscape || isVeryNarrowPanel}
+                                            onNotePlay={handleNotePlay}
+                                            onAssign={selectedSectionId && selectedSlotId ? handleVoicingAssign : undefined}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Scale visualizer - what to play over the chord, on the neck or keyboard */}
+                            <div
+                                ref={scaleVisualizerSectionRef}
+                                className={`${isLandscapeExpanded ? 'px-3 py-1' : isMobile ? 'px-5 py-1 mt-2' : 'px-5 py-1'} rounded-none`}
+                                style={{ backgroundColor: '#1e1e28', borderBottom: '1px solid #3a3a4a', scrollMarginTop: '60px' }}
+                            >
+                                <button
+                                    onClick={() => {
+                                        const newState = !showScaleVisualizer;
+                                        setShowScaleVisualizer(newState);
+                                        if (newState) {
+                                            setTimeout(() => scrollSectionIntoView(scaleVisualizerSectionRef), 50);
+                                        }
+                                    }}
+                                    className={`w-full flex items-center justify-between ${showScaleVisualizer ? 'mb-2' : 'mb-0'} cursor-pointer rounded-none`}
+                                    style={{ backgroundColor: 'transparent' }}
+                                >
+                                    <h3 className={`${isCompactLandscape ? 'text-[9px]' : isMobile ? 'text-[11px]' : 'text-[10px]'} font-semibold text-text-secondary uppercase tracking-wide`}>
+                                        Fretboard & Keys
+                                    </h3>
+                                    <ChevronDown
+                                        size={isCompactLandscape ? 8 : isMobile ? 14 : 12}
+                                        className={`text-text-secondary transition-transform ${showScaleVisualizer ? 'rotate-180' : ''}`}
+                                    />
+                                </button>
+                                {showScaleVisualizer && (
+                                    <div className="pb-2">
+                                        <ScaleVisualizer
+                                            root={chord.root}
+                                            quality={chord.quality}
+                                            color={chordColor}
+                                            onNotePlay={handleNotePlay}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+
                             {/* Scales - All modes in the current key - Hide in compact landscape */}
                             {!isCompactLandscape && (
                                 <div
@@ -1215,7 +1392,7 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                         style={{ backgroundColor: 'transparent' }}
                                     >
                                         <h3 className={`${isCompactLandscape ? 'text-[9px]' : isMobile ? 'text-[11px]' : 'text-[10px]'} font-semibold text-text-secondary uppercase tracking-wide`}>
-                                            Scales in {formatChordForDisplay(selectedKey)}
+                                            Scales in {formatChordForDisplay(getKeyDisplayName(selectedKey, selectedMode))}
                                         </h3>
                                         <ChevronDown
                                             size={isCompactLandscape ? 8 : isMobile ? 14 : 12}
@@ -1223,20 +1400,21 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                         />
                                     </button>
                                     {showScales && (() => {
-                                        const scale = getMajorScale(selectedKey);
-                                        const getModeScale = (startDegree: number) => {
-                                            const rotated = [...scale.slice(startDegree), ...scale.slice(0, startDegree)];
-                                            return rotated.map(n => formatChordForDisplay(n)).join(' – ');
-                                        };
-                                        const modes = [
-                                            { name: 'Ionian (I)', degree: 0, quality: 'MAJ', color: '#EAB308', desc: 'Bright, happy' },
-                                            { name: 'Dorian (ii)', degree: 1, quality: 'min', color: '#8B5CF6', desc: 'Hopeful minor, jazzy' },
-                                            { name: 'Phrygian (iii)', degree: 2, quality: 'min', color: '#F97316', desc: 'Spanish, exotic' },
-                                            { name: 'Lydian (IV)', degree: 3, quality: 'MAJ', color: '#06B6D4', desc: 'Dreamy, floating' },
-                                            { name: 'Mixolydian (V)', degree: 4, quality: 'MAJ', color: '#10B981', desc: 'Bluesy, rock' },
-                                            { name: 'Aeolian (vi)', degree: 5, quality: 'min', color: '#3B82F6', desc: 'Sad, melancholic' },
-                                            { name: 'Locrian (vii°)', degree: 6, quality: 'dim', color: '#EF4444', desc: 'Dark, unstable' },
+                                        // Modes sharing the key signature, i.e. the modes of the parent major
+                                        const scale = getMajorScale(getParentMajorKey(selectedKey, selectedMode));
+                                        const getModeScale = (startDegree: number, id: ScaleId) =>
+                                            getScaleNotes(scale[startDegree], id).map(n => formatChordForDisplay(n)).join(' – ');
+                                        const modes: { id: ScaleId; name: string; degree: number; quality: string; color: string; desc: string }[] = [
+                                            { id: 'ionian', name: 'Ionian (I)', degree: 0, quality: 'MAJ', color: '#EAB308', desc: 'Bright, happy' },
+                                            { id: 'dorian', name: 'Dorian (ii)', degree: 1, quality: 'min', color: '#8B5CF6', desc: 'Hopeful minor, jazzy' },
+                                            { id: 'phrygian', name: 'Phrygian (iii)', degree: 2, quality: 'min', color: '#F97316', desc: 'Spanish, exotic' },
+                                            { id: 'lydian', name: 'Lydian (IV)', degree: 3, quality: 'MAJ', color: '#06B6D4', desc: 'Dreamy, floating' },
+                                            { id: 'mixolydian', name: 'Mixolydian (V)', degree: 4, quality: 'MAJ', color: '#10B981', desc: 'Bluesy, rock' },
+                                            { id: 'aeolian', name: 'Aeolian (vi)', degree: 5, quality: 'min', color: '#3B82F6', desc: 'Sad, melancholic' },
+                                            { id: 'locrian', name: 'Locrian (vii°)', degree: 6, quality: 'dim', color: '#EF4444', desc: 'Dark, unstable' },
                                         ];
+                                        const isOnWheel = (tonic: string, id: ScaleId) =>
+                                            scaleOverlay?.scale === id && getPitchClass(scaleOverlay.tonic) === getPitchClass(tonic);
                                         return (
                                             <div className="space-y-1.5 pb-2">
                                                 {modes.map((mode) => (
@@ -1249,18 +1427,27 @@ export const ChordDetails: React.FC<ChordDetailsProps> = ({ variant = 'sidebar',
                                                             <span className={`${isMobile ? 'text-[11px]' : 'text-[10px]'} font-medium text-white`}>
                                                                 {formatChordForDisplay(scale[mode.degree])} {mode.name.split(' ')[0]}
                                                             </span>
-                                                            <span
-                                                                className="text-[8px] px-1 py-0.5 rounded"
-                                                                style={{ color: mode.color, backgroundColor: `${mode.color}15` }}
-                                                            >
-                                                                {mode.quality}
-                                                            </span>
+                                                            <div className="flex items-center gap-1">
+                                                                <span
+                                                                    className="text-[8px] px-1 py-0.5 rounded"
+                                                                    style={{ color: mode.color, backgroundColor: `${mode.color}15` }}
+                                                                >
+                                                                    {mode.quality}
+                                                                </span>
+                                                                <button
+                                                                    onClick={() => setScaleOverlay(isOnWheel(scale[mode.degree], mode.id) ? null : { tonic: scale[mode.degree], scale: mode.id })}
+                                                                    className={`p-0.5 rounded transition-colors ${isOnWheel(scale[mode.degree], mode.id) ? 'text-accent-primary' : 'text-text-muted hover:text-text-primary'}`}
+                                                                    title={isOnWheel(scale[mode.degree], mode.id) ? 'Hide from the wheel' : 'Show its chords on the wheel'}
+                                                                >
+                                                                    <Layers size={isMobile ? 12 : 10} />
+                                                                </button>
+                                                            </div>
                                                         </div>
                                                         <p className={`${isMobile ? 'text-[9px]' : 'text-[8px]'} text-gray-400 mb-1`}>
                                                             {mode.desc}
                                                         </p>
                                                         <p className={`${isMobile ? 'text-[10px]' : 'text-[9px]'} text-gray-500 font-mono tracking-wide`}>
-                                                            {getModeScale(mode.degree)}
+                                                            {getModeScale(mode.degree, mode.id)}
                                                         </p>
                                                     </div>
                                                 ))}
@@ -0,0 +1,125 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { SlidersHorizontal, Minus, Plus } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { FRETTED_INSTRUMENT_PRESETS, MAX_CAPO, getFrettedPreset, getTuningName } from '../../utils/frettedInstruments';
+
+/**
+ * Instrument, tuning, capo and hand for chord diagrams, as a small popover under the
+ * diagram. Applies everywhere diagrams are drawn, PDF export included.
+ */
+export const FrettedInstrumentSelector: React.FC = () => {
+    const { frettedInstrument, setFrettedInstrument } = useSongStore();
+    const { preset, capo, leftHanded } = frettedInstrument;
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const summary = [getFrettedPreset(preset).label, capo > 0 && `Capo ${capo}`, leftHanded && 'LH']
+        .filter(Boolean)
+        .join(' · ');
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    'flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-semibold transition-colors',
+                    isOpen ? 'text-text-primary bg-bg-tertiary' : 'text-text-muted hover:text-text-primary'
+                )}
+                title="Instrument, tuning and capo for chord diagrams"
+            >
+                <SlidersHorizontal size={10} />
+                <span className="truncate max-w-[90px]">{summary}</span>
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-1 w-52 p-3 space-y-3 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    {/* Instrument and tuning */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Instrument</div>
+                        <div className="grid grid-cols-2 gap-1">
+                            {FRETTED_INSTRUMENT_PRESETS.map(option => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => setFrettedInstrument({ preset: option.id, tuning: option.tuning })}
+                                    className={clsx(
+                                        'h-6 rounded text-[9px] font-bold transition-colors',
+                                        preset === option.id
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                    )}
+                                    title={getTuningName(option.tuning)}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="text-[9px] text-text-muted tabular-nums">{getTuningName(frettedInstrument.tuning)}</div>
+                    </div>
+
+                    {/* Capo */}
+                    <div className="flex items-center justify-between">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Capo</div>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={() => setFrettedInstrument({ capo: capo - 1 })}
+                                disabled={capo === 0}
+                                className="p-1 rounded bg-bg-tertiary text-text-secondary hover:text-text-primary transition-colors disabled:opacity-40"
+                                title="Capo down a fret"
+                            >
+                                <Minus size={10} />
+                            </button>
+                            <span className="w-8 text-center text-[10px] font-bold text-text-primary tabular-nums">
+                                {capo === 0 ? 'None' : capo}
+                            </span>
+                            <button
+                                onClick={() => setFrettedInstrument({ capo: capo + 1 })}
+                                disabled={capo === MAX_CAPO}
+                                className="p-1 rounded bg-bg-tertiary text-text-secondary hover:text-text-primary transition-colors disabled:opacity-40"
+                                title="Capo up a fret"
+                            >
+                                <Plus size={10} />
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Hand */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Hand</div>
+                        <div className="grid grid-cols-2 gap-1">
+                            {[false, true].map(left => (
+                                <button
+                                    key={String(left)}
+                                    onClick={() => setFrettedInstrument({ leftHanded: left })}
+                                    className={clsx(
+                                        'h-6 rounded text-[9px] font-bold transition-colors',
+                                        leftHanded === left
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                    )}
+                                >
+                                    {left ? 'Left' : 'Right'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,10 @@
-import React, { useRef } from 'react';
-import { getGuitarChord, type GuitarChordShape } from '../../utils/guitarChordData';
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { GuitarChordShape } from '../../utils/guitarChordData';
+import { getFrettedChordShapes, getFrettedPreset, orientShape } from '../../utils/frettedInstruments';
+import { hasShapeErrors, validateChordShape } from '../../utils/chordShapeValidator';
 import { formatChordForDisplay, getQualitySymbol } from '../../utils/musicTheory';
+import { useSongStore } from '../../store/useSongStore';
 import { useIsMobile } from '../../hooks/useIsMobile';
 
 interface GuitarChordProps {
@@ -9,6 +13,7 @@ interface GuitarChordProps {
     color?: string;
     onClick?: () => void;
     onDoubleClick?: () => void;
+    showShapes?: boolean; // Step through every ranked shape, not just the best
 }
 
 export const GuitarChord: React.FC<GuitarChordProps> = ({
@@ -16,15 +21,39 @@ export const GuitarChord: React.FC<GuitarChordProps> = ({
     quality,
     color = '#6366f1',
     onClick,
-    onDoubleClick
+    onDoubleClick,
+    showShapes = false
 }) => {
     const isMobile = useIsMobile();
-    const chord = getGuitarChord(root, quality);
+    const instrument = useSongStore(state => state.frettedInstrument);
+    const customShapes = useSongStore(state => state.customChordShapes);
+    // Shapes for the active instrument, fingered above the capo; the user's own first
+    const { shapes, shapeRoot } = useMemo(
+        () => getFrettedChordShapes(root, quality, instrument, { customShapes }),
+        [root, quality, instrument, customShapes]
+    );
+    // The stepped-to shape, remembered per chord so a new chord starts from its best
+    const chordKey = `${root}|${quality}|${instrument.tuning.join(',')}|${instrument.capo}|${customShapes.length}`;
+    const [picked, setPicked] = useState({ chordKey, index: 0 });
+    const shapeIndex = showShapes && picked.chordKey === chordKey ? picked.index : 0;
+    const chord = shapes[shapeIndex] ?? null;
+    // Checked against the chord it's fingered as (the shape chord under a capo)
+    const issues = useMemo(
+        () => chord ? validateChordShape(chord, shapeRoot, quality, instrument.tuning) : [],
+        [chord, shapeRoot, quality, instrument.tuning]
+    );
     const lastClickTime = useRef(0);
     const clickTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-    // Format chord name with proper flat symbols and quality symbol
+    const stepShape = (e: React.MouseEvent, step: number) => {
+        e.stopPropagation();
+        setPicked({ chordKey, index: (shapeIndex + step + shapes.length) % shapes.length });
+    };
+
+    // Format chord name with proper flat symbols and quality symbol; with a capo the
+    // name is the sounding chord and the shape is named underneath
     const chordName = formatChordForDisplay(`${root}${getQualitySymbol(quality)}`);
+    const shapeName = formatChordForDisplay(`${shapeRoot}${getQualitySymbol(quality)}`);
 
     // Handle click with double-click detection
     const handleClick = () => {
@@ -89,7 +118,7 @@ export const GuitarChord: React.FC<GuitarChordProps> = ({
     if (!chord) {
         return (
             <div className="flex items-center justify-center text-text-muted text-xs py-4">
-                No guitar diagram available for {root}{quality}
+                No {getFrettedPreset(instrument.preset).label.toLowerCase()} diagram available for {root}{quality}
             </div>
         );
     }
@@ -103,47 +132,91 @@ export const GuitarChord: React.FC<GuitarChordProps> = ({
             onTouchEnd={isClickable ? handleTouchEnd : undefined}
             onTouchStart={isClickable ? (e) => e.stopPropagation() : undefined}
         >
-            <span
-                className={`${isMobile ? 'text-xs' : 'text-[11px]'} font-bold mb-1 text-center`}
-                style={{
-                    backgroundColor: 'transparent',
-                    color: color,
-                    padding: '4px 12px',
-                    borderRadius: '10px',
-                    border: `2px solid ${color}`
-                }}
-            >
-                {chordName}
-            </span>
+            <div className="flex items-center gap-1 mb-1">
+                <span
+                    className={`${isMobile ? 'text-xs' : 'text-[11px]'} font-bold text-center`}
+                    style={{
+                        backgroundColor: 'transparent',
+                        color: color,
+                        padding: '4px 12px',
+                        borderRadius: '10px',
+                        border: `2px solid ${color}`
+                    }}
+                >
+                    {chordName}
+                </span>
+                {issues.length > 0 && (
+                    <span title={issues.map(issue => issue.message).join('\n')}>
+                        <AlertTriangle
+                            size={12}
+                            className={hasShapeErrors(issues) ? 'text-red-400' : 'text-amber-400'}
+                        />
+                    </span>
+                )}
+            </div>
             <svg
                 viewBox="0 0 100 120"
                 className={`w-full ${isMobile ? 'max-w-[110px]' : 'max-w-[120px]'}`}
                 style={{ minHeight: isMobile ? 110 : 120, pointerEvents: 'none' }}
             >
-                <ChordDiagram chord={chord} color={color} />
+                <ChordDiagram
+                    chord={orientShape(chord, instrument.leftHanded)}
+                    tuning={instrument.leftHanded ? [...instrument.tuning].reverse() : instrument.tuning}
+                    hasCapo={instrument.capo > 0}
+                    color={color}
+                />
             </svg>
+            {instrument.capo > 0 && (
+                <span className="text-[9px] text-text-muted whitespace-nowrap">
+                    Capo {instrument.capo} · {shapeName} shape
+                </span>
+            )}
+            {showShapes && shapes.length > 1 && (
+                <div className="flex items-center gap-1 text-[9px] text-text-muted tabular-nums">
+                    <button
+                        onClick={(e) => stepShape(e, -1)}
+                        onTouchEnd={(e) => e.stopPropagation()}
+                        className="p-0.5 hover:text-text-primary transition-colors"
+                        title="Previous shape"
+                    >
+                        <ChevronLeft size={10} />
+                    </button>
+                    {shapeIndex + 1}/{shapes.length}
+                    <button
+                        onClick={(e) => stepShape(e, 1)}
+                        onTouchEnd={(e) => e.stopPropagation()}
+                        className="p-0.5 hover:text-text-primary transition-colors"
+                        title="Next shape"
+                    >
+                        <ChevronRight size={10} />
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
 
 interface ChordDiagramProps {
     chord: GuitarChordShape;
+    tuning: number[]; // Open strings in drawing order, for string thickness
+    hasCapo: boolean;
     color: string;
 }
 
-const ChordDiagram: React.FC<ChordDiagramProps> = ({ chord, color }) => {
+const ChordDiagram: React.FC<ChordDiagramProps> = ({ chord, tuning, hasCapo, color }) => {
     const { frets, fingers, barres, baseFret } = chord;
 
     // Layout constants
     const startX = 20;
     const startY = 25;
-    const stringSpacing = 12;
+    const numStrings = frets.length;
+    const stringSpacing = 60 / (numStrings - 1);
     const fretSpacing = 18;
-    const numFrets = 4;
-    const numStrings = 6;
+    // Four frets, or five for solved shapes that stretch further
+    const numFrets = Math.max(4, ...frets);
     const dotRadius = 4.5;
 
-    // String positions (low E to high E, left to right)
+    // String positions (bass side on the left, unless mirrored for left hands)
     const stringPositions = Array.from({ length: numStrings }, (_, i) => startX + i * stringSpacing);
     const fretPositions = Array.from({ length: numFrets + 1 }, (_, i) => startY + i * fretSpacing);
 
@@ -164,15 +237,15 @@ const ChordDiagram: React.FC<ChordDiagramProps> = ({ chord, color }) => {
                 rx={3}
             />
 
-            {/* Nut or fret indicator */}
+            {/* Nut (or capo) or fret indicator */}
             {isAtNut ? (
                 <rect
-                    x={startX - 2}
+                    x={startX - (hasCapo ? 5 : 2)}
                     y={startY - 3}
-                    width={stringSpacing * (numStrings - 1) + 4}
-                    height={4}
-                    fill="#f5f5f5"
-                    rx={1}
+                    width={stringSpacing * (numStrings - 1) + (hasCapo ? 10 : 4)}
+                    height={hasCapo ? 5 : 4}
+                    fill={hasCapo ? color : '#f5f5f5'}
+                    rx={hasCapo ? 2 : 1}
                 />
             ) : (
                 <text
@@ -209,7 +282,7 @@ const ChordDiagram: React.FC<ChordDiagramProps> = ({ chord, color }) => {
                     x2={x}
                     y2={startY + fretSpacing * numFrets}
                     stroke="#d4d4d4"
-                    strokeWidth={1.2 + (5 - i) * 0.25}
+                    strokeWidth={1.2 + tuning.filter(pitch => pitch > tuning[i]).length * 0.25}
                 />
             ))}
 
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Play, Save, X } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { isCustomShapeFor, normalizeQuality } from '../../utils/guitarChordData';
+import { assignFingers, toDiagramShape } from '../../utils/guitarVoicings';
+import { nameChord } from '../../utils/chordNaming';
+import { midiToNoteName } from '../../utils/chordVoicing';
+import { playChord, playNote } from '../../utils/audioEngine';
+import { NOTES, formatChordForDisplay, getQualitySymbol, toPitchClass } from '../../utils/musicTheory';
+
+interface GuitarShapeEditorProps {
+    root: string;
+    quality: string;
+    color: string;
+}
+
+const VISIBLE_FRETS = 5;
+const MAX_POSITION = 12;
+
+const formatFrets = (frets: number[]) =>
+    frets.map(fret => fret < 0 ? 'x' : String(fret)).join(frets.some(fret => fret > 9) ? ' ' : '');
+
+/**
+ * Tap-to-build fretboard for the user's own shapes. Names what's fingered (or confirms
+ * it's the chord on show), saves it to the personal shape library, and lists the saved
+ * shapes for this chord. Works on the active instrument's tuning; frets are counted
+ * from the capo.
+ */
+export const GuitarShapeEditor: React.FC<GuitarShapeEditorProps> = ({ root, quality, color }) => {
+    const { frettedInstrument, customChordShapes, addCustomChordShape, removeCustomChordShape } = useSongStore();
+    const { tuning, capo, leftHanded } = frettedInstrument;
+
+    // Frets are absolute above the capo (-1 muted, 0 open); a new tuning starts over
+    const tuningKey = tuning.join(',');
+    const [edit, setEdit] = useState({ tuningKey, frets: tuning.map(() => -1) });
+    const frets = edit.tuningKey === tuningKey ? edit.frets : tuning.map(() => -1);
+    const [position, setPosition] = useState(1);
+
+    const setFrets = (next: number[]) => setEdit({ tuningKey, frets: next });
+
+    // Sounding notes, named as heard (capo included)
+    const pitches = frets.flatMap((fret, string) => fret < 0 ? [] : [tuning[string] + capo + fret]);
+    const names = pitches.length > 0 ? nameChord(pitches, Math.min(...pitches)) : [];
+
+    // Shapes are stored as fingered, so they're named a capo's worth lower
+    const rootPc = toPitchClass(root);
+    const matches = names.some(name =>
+        toPitchClass(name.root) === rootPc && normalizeQuality(name.quality) === normalizeQuality(quality)
+    );
+    const target = matches ? { root, quality } : names[0];
+    const fingering = assignFingers(frets);
+
+    const chordLabel = (chordRoot: string, chordQuality: string) =>
+        formatChordForDisplay(`${chordRoot}${getQualitySymbol(chordQuality)}`);
+
+    const shapeRootFor = (soundingRoot: string) => {
+        const soundingPc = toPitchClass(soundingRoot);
+        return soundingPc === -1 ? soundingRoot : NOTES[toPitchClass(soundingPc - capo)];
+    };
+    const saved = customChordShapes.filter(shape => isCustomShapeFor(shape, shapeRootFor(root), quality, tuning));
+
+    const handleTap = (string: number, fret: number) => {
+        const next = [...frets];
+        next[string] = frets[string] === fret ? -1 : fret;
+        setFrets(next);
+        if (next[string] >= 0) {
+            const midi = tuning[string] + capo + next[string];
+            playNote(NOTES[toPitchClass(midi)], Math.floor(midi / 12) - 1);
+        }
+    };
+
+    // Bring a saved shape back into the editor, scrolled to where it sits
+    const handleLoad = (absolute: number[]) => {
+        setFrets(absolute);
+        const fretted = absolute.filter(fret => fret > 0);
+        if (fretted.length === 0) return;
+        setPosition(Math.max(...fretted) <= VISIBLE_FRETS ? 1 : Math.min(MAX_POSITION, Math.min(...fretted)));
+    };
+
+    const handleSave = () => {
+        if (!target || !fingering) return;
+        addCustomChordShape({
+            root: shapeRootFor(target.root),
+            quality: target.quality,
+            tuning,
+            shape: toDiagramShape(frets, fingering.fingers, fingering.barre, VISIBLE_FRETS)
+        });
+        setFrets(tuning.map(() => -1));
+    };
+
+    // Strings left to right as the diagrams draw them
+    const strings = tuning.map((_, string) => string);
+    if (leftHanded) strings.reverse();
+    const fretRows = Array.from({ length: VISIBLE_FRETS }, (_, i) => position + i);
+    const gridStyle = { gridTemplateColumns: `1.25rem repeat(${strings.length}, minmax(0, 1fr))` };
+
+    return (
+        <div className="space-y-2">
+            {/* Fretboard */}
+            <div className="grid gap-px" style={gridStyle}>
+                <div />
+                {strings.map(string => (
+                    <button
+                        key={`open-${string}`}
+                        onClick={() => handleTap(string, 0)}
+                        className="h-5 text-[9px] font-bold text-text-muted hover:text-text-primary transition-colors"
+                        title={frets[string] === 0 ? 'Mute string' : 'Open string'}
+                    >
+                        {frets[string] === 0 ? 'o' : frets[string] < 0 ? '×' : ''}
+                    </button>
+                ))}
+                {fretRows.map(fret => (
+                    <React.Fragment key={`fret-${fret}`}>
+                        <div className="flex items-center justify-end pr-1 text-[8px] text-text-muted tabular-nums">{fret}</div>
+                        {strings.map(string => (
+                            <button
+                                key={`${fret}-${string}`}
+                                onClick={() => handleTap(string, fret)}
+                                className="h-5 flex items-center justify-center bg-bg-tertiary hover:bg-bg-elevated transition-colors"
+                            >
+                                {frets[string] === fret && (
+                                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                                )}
+                            </button>
+                        ))}
+                    </React.Fragment>
+                ))}
+            </div>
+
+            {/* Position, play, name */}
+            <div className="flex items-center gap-1">
+                <button
+                    onClick={() => setPosition(Math.max(1, position - 1))}
+                    disabled={position === 1}
+                    className="p-0.5 text-text-muted hover:text-text-primary transition-colors disabled:opacity-40"
+                    title="Down the neck"
+                >
+                    <ChevronLeft size={12} />
+                </button>
+                <button
+                    onClick={() => setPosition(Math.min(MAX_POSITION, position + 1))}
+                    disabled={position === MAX_POSITION}
+                    className="p-0.5 text-text-muted hover:text-text-primary transition-colors disabled:opacity-40"
+                    title="Up the neck"
+                >
+                    <ChevronRight size={12} />
+                </button>
+                <button
+                    onClick={() => playChord([...pitches].sort((a, b) => a - b).map(midiToNoteName))}
+                    disabled={pitches.length === 0}
+                    className="p-0.5 text-text-muted hover:text-text-primary transition-colors disabled:opacity-40"
+                    title="Play shape"
+                >
+                    <Play size={12} />
+                </button>
+                <span className="flex-1 min-w-0 text-[10px] truncate">
+                    {names.length === 0 ? (
+                        <span className="text-text-muted">Tap frets to build a shape</span>
+                    ) : matches ? (
+                        <span className="inline-flex items-center gap-1 text-text-primary">
+                            <Check size={10} /> {chordLabel(root, quality)}
+                        </span>
+                    ) : (
+                        <span className="text-text-secondary">
+                            Sounds like {names.slice(0, 2).map(name => chordLabel(name.root, name.quality)).join(' or ')}
+                        </span>
+                    )}
+                </span>
+                <button
+                    onClick={handleSave}
+                    disabled={!target || !fingering}
+                    className="shrink-0 flex items-center gap-1 px-2 h-6 rounded text-[10px] font-bold bg-bg-tertiary text-text-secondary hover:text-text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={!fingering && names.length > 0 ? 'Too many fretted notes to finger' : target ? `Save as ${chordLabel(target.root, target.quality)}` : 'Build a chord to save it'}
+                >
+                    <Save size={10} /> Save
+                </button>
+            </div>
+
+            {/* Saved shapes for this chord */}
+            {saved.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {saved.map(shape => {
+                        const absolute = shape.shape.frets.map(fret => fret > 0 ? fret + shape.shape.baseFret - 1 : fret);
+                        return (
+                            <span
+                                key={shape.id}
+                                className="inline-flex items-center gap-0.5 pl-1.5 pr-0.5 h-5 rounded text-[9px] font-bold tabular-nums bg-bg-tertiary text-text-secondary"
+                            >
+                                <button
+                                    onClick={() => handleLoad(absolute)}
+                                    className="hover:text-text-primary transition-colors"
+                                    title="Edit this shape"
+                                >
+                                    {formatFrets(absolute)}
+                                </button>
+                                <button
+                                    onClick={() => removeCustomChordShape(shape.id)}
+                                    className="p-0.5 text-text-muted hover:text-text-primary transition-colors"
+                                    title="Delete shape"
+                                >
+                                    <X size={9} />
+                                </button>
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
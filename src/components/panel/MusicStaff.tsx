@@ -2,7 +2,7 @@ import React from 'react';
 import { useIsMobile } from '../../hooks/useIsMobile';
 
 interface MusicStaffProps {
-    notes: string[];
+    notes: string[]; // Pitch classes, or notes with octaves (a voicing) placed exactly
     rootNote: string;
     color?: string;
     width?: number;
@@ -33,9 +33,14 @@ export const MusicStaff: React.FC<MusicStaffProps> = ({
         let baseNote = normalizedNote[0];
         let accidental = '';
 
-        if (normalizedNote.includes('♯') || normalizedNote.includes('#')) {
+        // Spelled notes may carry double accidentals (F## / Fx, Bbb)
+        if (/##|x|𝄪/.test(normalizedNote.slice(1))) {
+            accidental = '𝄪';
+        } else if (/bb|𝄫/.test(normalizedNote.slice(1))) {
+            accidental = '𝄫';
+        } else if (normalizedNote.includes('♯') || normalizedNote.includes('#')) {
             accidental = '♯';
-        } else if (normalizedNote.includes('♭') || normalizedNote.includes('b')) {
+        } else if (normalizedNote.includes('♭') || normalizedNote.slice(1).includes('b')) {
             accidental = '♭';
         }
 
@@ -54,6 +59,12 @@ export const MusicStaff: React.FC<MusicStaffProps> = ({
         // Get base position
         let position = notePositions[baseNote] ?? 0;
 
+        // Notes with an octave sit exactly where they are
+        const octave = note.match(/\d+$/)?.[0];
+        if (octave !== undefined) {
+            return { line: position + (parseInt(octave, 10) - 4) * 7, accidental };
+        }
+
         // Adjust for octave - assume notes are in a reasonable range (C4-C6)
         // If the note is far from root, adjust octave
         const noteIndex = 'CDEFGAB'.indexOf(baseNote);
@@ -71,11 +82,18 @@ export const MusicStaff: React.FC<MusicStaffProps> = ({
     // Handle note tap
     const handleNoteTap = (note: string) => {
         if (onNotePlay) {
-            // Default octave 4, but adjust based on position
-            onNotePlay(note, 4);
+            // Voicing notes play in their own octave, others in octave 4
+            const octave = note.match(/\d+$/)?.[0];
+            onNotePlay(note.replace(/\d+$/, ''), octave !== undefined ? parseInt(octave, 10) : 4);
         }
     };
 
+    // Low voicings are written up an octave or two (8vb / 15mb) so they stay clear of the labels
+    const lowestLine = Math.min(...notes.map(note => getNotePosition(note).line));
+    const octaveShift = notes.some(note => /\d$/.test(note))
+        ? Math.min(2, Math.max(0, Math.ceil((-8 - lowestLine) / 7)))
+        : 0;
+
     // SVG dimensions - compact mode uses smaller dimensions
     const defaultWidth = compact ? 180 : (isMobile ? 280 : 340);
     // Use propWidth if provided and it's a number, otherwise use default for viewBox calculation
@@ -98,7 +116,8 @@ export const MusicStaff: React.FC<MusicStaffProps> = ({
 
     // Calculate note positions
     const noteData = notes.map((note, index) => {
-        const { line, accidental } = getNotePosition(note);
+        const { line: soundingLine, accidental } = getNotePosition(note);
+        const line = soundingLine + octaveShift * 7;
         // Distribute notes evenly across the staff width
         const clefOffset = compact ? 40 : 60;
         const availableNoteWidth = staffWidth - clefOffset - 15;
@@ -200,6 +219,18 @@ export const MusicStaff: React.FC<MusicStaffProps> = ({
                 >
                     𝄞
                 </text>
+                {octaveShift > 0 && (
+                    <text
+                        x={staffX + (compact ? 6 : 10)}
+                        y={staffY + (compact ? 24 : 34)}
+                        fontSize={compact ? "7" : "10"}
+                        fill={color}
+                        fontStyle="italic"
+                        fontWeight="bold"
+                    >
+                        {octaveShift === 1 ? '8vb' : '15mb'}
+                    </text>
+                )}
 
                 {/* Ledger lines */}
                 {noteData.map((noteInfo) => getLedgerLines(noteInfo))}
@@ -1,4 +1,6 @@
 import React, { useRef, useCallback, useState } from 'react';
+import { getPitchClass } from '../../utils/musicTheory';
+import { noteToMidi } from '../../utils/chordVoicing';
 
 interface PianoKeyboardProps {
     highlightedNotes: string[]; // e.g., ['C', 'E', 'G']
@@ -7,6 +9,8 @@ interface PianoKeyboardProps {
     color?: string;
     octave?: number;
     onNotePlay?: (note: string, octave: number) => void;
+    voicing?: string[]; // Exact notes with octaves to mark instead of every octave of highlightedNotes
+    onNoteToggle?: (note: string, octave: number) => void; // Tapping a key edits the voicing (no glissando)
 }
 
 export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
@@ -15,7 +19,9 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
     bassNote,
     color = '#6366f1',
     octave = 4,
-    onNotePlay
+    onNotePlay,
+    voicing,
+    onNoteToggle
 }) => {
     const whiteKeys = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
 
@@ -26,30 +32,17 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
     const [activeNotesState, setActiveNotesState] = useState<Set<string>>(new Set()); // Visual feedback for all active keys
 
     // Convert note name to pitch class (0-11) for accurate comparison
-    const noteToPitchClass = (note: string): number => {
-        const noteMap: Record<string, number> = {
-            'C': 0, 'B#': 0,
-            'C#': 1, 'Db': 1,
-            'D': 2,
-            'D#': 3, 'Eb': 3,
-            'E': 4, 'Fb': 4,
-            'E#': 5, 'F': 5,
-            'F#': 6, 'Gb': 6,
-            'G': 7,
-            'G#': 8, 'Ab': 8,
-            'A': 9,
-            'A#': 10, 'Bb': 10,
-            'B': 11, 'Cb': 11,
-        };
-        const cleanNote = note.replace(/\d+/g, '');
-        return noteMap[cleanNote] ?? -1;
-    };
+    const noteToPitchClass = (note: string): number => getPitchClass(note.replace(/\d+/g, ''));
 
     const highlightedPitchClasses = highlightedNotes.map(n => noteToPitchClass(n));
     const rootPitchClass = rootNote ? noteToPitchClass(rootNote) : -1;
     const bassPitchClass = bassNote ? noteToPitchClass(bassNote) : -1;
 
-    const getIsHighlighted = (note: string) => {
+    const voicingMidi = voicing?.map(noteToMidi) ?? [];
+    const voicingBassMidi = voicingMidi.length > 0 ? Math.min(...voicingMidi) : -1;
+
+    const getIsHighlighted = (note: string, keyOctave: number) => {
+        if (voicing) return voicingMidi.includes(noteToMidi(`${note}${keyOctave}`));
         const pc = noteToPitchClass(note);
         return pc !== -1 && highlightedPitchClasses.includes(pc);
     };
@@ -59,7 +52,8 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
         return noteToPitchClass(note) === rootPitchClass;
     };
 
-    const getIsBass = (note: string) => {
+    const getIsBass = (note: string, keyOctave: number) => {
+        if (voicing) return noteToMidi(`${note}${keyOctave}`) === voicingBassMidi;
         if (bassPitchClass === -1) return false;
         return noteToPitchClass(note) === bassPitchClass;
     };
@@ -170,21 +164,22 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
         const noteInfo = getNoteFromPoint(e.clientX, e.clientY);
         if (noteInfo) {
             playNoteForPointer(e.pointerId, noteInfo.note, noteInfo.octave);
+            onNoteToggle?.(noteInfo.note, noteInfo.octave);
         }
 
         // DO NOT capture pointer - this blocks multi-touch on other elements
         // The pointer will naturally stay associated with this element while in bounds
-    }, [getNoteFromPoint, playNoteForPointer]);
+    }, [getNoteFromPoint, playNoteForPointer, onNoteToggle]);
 
     const handlePointerMove = useCallback((e: React.PointerEvent) => {
-        // Only process if this pointer is one we're tracking
-        if (!activePointers.current.has(e.pointerId)) return;
+        // Only process if this pointer is one we're tracking; editing a voicing is tap-only
+        if (!activePointers.current.has(e.pointerId) || onNoteToggle) return;
 
         const noteInfo = getNoteFromPoint(e.clientX, e.clientY);
         if (noteInfo) {
             playNoteForPointer(e.pointerId, noteInfo.note, noteInfo.octave);
         }
-    }, [getNoteFromPoint, playNoteForPointer]);
+    }, [getNoteFromPoint, playNoteForPointer, onNoteToggle]);
 
     const handlePointerUp = useCallback((e: React.PointerEvent) => {
         cleanupPointer(e.pointerId);
@@ -204,9 +199,9 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
         for (let oct = 0; oct < 2; oct++) {
             const keyOctave = octave + oct;
             whiteKeys.forEach((note) => {
-                const isHighlighted = getIsHighlighted(note);
+                const isHighlighted = getIsHighlighted(note, keyOctave);
                 const isRoot = getIsRoot(note);
-                const isBass = getIsBass(note);
+                const isBass = getIsBass(note, keyOctave);
                 const noteKey = `${note}-${keyOctave}`;
                 const isActive = activeNotesState.has(noteKey);
 
@@ -285,9 +280,9 @@ export const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
             const keyOctave = octave + oct;
 
             blackKeyPositions.forEach(({ note, offset }) => {
-                const isHighlighted = getIsHighlighted(note);
+                const isHighlighted = getIsHighlighted(note, keyOctave);
                 const isRoot = getIsRoot(note);
-                const isBass = getIsBass(note);
+                const isBass = getIsBass(note, keyOctave);
                 const leftPos = octaveOffset + offset;
                 const noteKey = `${note}-${keyOctave}`;
                 const isActive = activeNotesState.has(noteKey);
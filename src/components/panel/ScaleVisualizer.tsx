@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { clsx } from 'clsx';
+import { useSongStore } from '../../store/useSongStore';
+import {
+    NOTES,
+    formatChordForDisplay,
+    getChordScale,
+    getContrastingTextColor,
+    getIntervalFromKey,
+    getPitchClass,
+    getQualitySymbol,
+    getScaleDisplayName,
+    getScaleNotes,
+    spellChordNotes,
+    type ScaleOverlay
+} from '../../utils/musicTheory';
+import { NECK_FRETS, getCagedPositions, getNeckNotes, type CagedShape } from '../../utils/fretboard';
+
+interface ScaleVisualizerProps {
+    root: string;
+    quality: string;
+    color: string;
+    onNotePlay?: (note: string, octave: number) => void;
+}
+
+type ScaleSource = 'key' | 'chord' | 'tones';
+type ScaleView = 'neck' | 'keys';
+
+const SOURCES: { id: ScaleSource; label: string; title: string }[] = [
+    { id: 'key', label: 'Key Scale', title: 'The key\'s scale, or the scale shown on the wheel' },
+    { id: 'chord', label: 'Chord Scale', title: 'A scale built on the chord\'s root that fits its quality' },
+    { id: 'tones', label: 'Chord Tones', title: 'Only the chord\'s own notes' },
+];
+
+// Neck layout (SVG units)
+const FRET_WIDTH = 26;
+const OPEN_WIDTH = 20;
+const STRING_GAP = 14;
+const PAD = 8;
+const INLAY_FRETS = [3, 5, 7, 9, 15];
+
+// Keyboard layout: three octaves from C3
+const KEYBOARD_START_MIDI = 48;
+const KEYBOARD_OCTAVES = 3;
+const WHITE_WIDTH = 14;
+const WHITE_HEIGHT = 64;
+const BLACK_WIDTH = 9;
+const BLACK_HEIGHT = 40;
+const WHITE_STEPS = [0, 2, 4, 5, 7, 9, 11];
+const BLACK_STEPS = [1, 3, 6, 8, 10];
+
+const segmentClass = (active: boolean) => clsx(
+    'px-1.5 py-1 rounded text-[10px] font-semibold transition-colors truncate',
+    active ? 'bg-accent-primary text-white' : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+);
+
+/**
+ * The notes to play over a chord, across the whole neck of the active instrument or
+ * three octaves of keyboard: the key's scale (or the one on the wheel), a scale built on
+ * the chord, or just the chord tones. Chord tones are filled in the chord's color inside
+ * the scale; labels read as intervals from the scale's tonic or as note names. On a
+ * standard-tuned guitar the neck can be narrowed to one CAGED position.
+ */
+export const ScaleVisualizer: React.FC<ScaleVisualizerProps> = ({ root, quality, color, onNotePlay }) => {
+    const { selectedKey, selectedMode, scaleOverlay, frettedInstrument } = useSongStore();
+    const { tuning, capo, leftHanded } = frettedInstrument;
+
+    const [source, setSource] = useState<ScaleSource>('key');
+    const [view, setView] = useState<ScaleView>('neck');
+    const [showIntervals, setShowIntervals] = useState(true);
+    const [cagedShape, setCagedShape] = useState<CagedShape | null>(null);
+
+    const chordNotes = spellChordNotes(root, quality);
+    const chordPcs = chordNotes.map(getPitchClass);
+
+    const scale: ScaleOverlay | null = source === 'key'
+        ? scaleOverlay ?? { tonic: selectedKey, scale: selectedMode }
+        : source === 'chord'
+            ? { tonic: root, scale: getChordScale(quality) }
+            : null;
+    const scaleNotes = scale ? getScaleNotes(scale.tonic, scale.scale) : [];
+    const tonic = scale?.tonic ?? root;
+
+    // Scale spellings first, then any chord tones the scale leaves out
+    const spellings = new Map<number, string>();
+    [...scaleNotes, ...chordNotes].forEach(note => {
+        if (!spellings.has(getPitchClass(note))) spellings.set(getPitchClass(note), note);
+    });
+    const shownPcs = [...spellings.keys()];
+    const tonicPc = getPitchClass(tonic);
+    const rootPc = getPitchClass(root);
+
+    const getLabel = (pitchClass: number) => {
+        const note = spellings.get(pitchClass) ?? NOTES[pitchClass];
+        return showIntervals ? getIntervalFromKey(tonic, note) : formatChordForDisplay(note);
+    };
+
+    const getMark = (pitchClass: number) => {
+        const isChordTone = chordPcs.includes(pitchClass);
+        return {
+            fill: isChordTone ? color : '#3a3a4a',
+            text: isChordTone ? getContrastingTextColor(color) : '#c8c8d4',
+            stroke: pitchClass === rootPc ? '#ffffff' : pitchClass === tonicPc ? color : 'none'
+        };
+    };
+
+    const playMidi = (midi: number) => onNotePlay?.(NOTES[midi % 12], Math.floor(midi / 12) - 1);
+
+    const cagedPositions = getCagedPositions(tonic, tuning, capo);
+    const box = cagedPositions.find(position => position.shape === cagedShape) ?? null;
+
+    const chordName = formatChordForDisplay(`${root}${getQualitySymbol(quality)}`);
+    const caption = scale
+        ? `${formatChordForDisplay(getScaleDisplayName(scale.tonic, scale.scale))} over ${chordName}`
+        : `${chordName} chord tones`;
+
+    const renderNeck = () => {
+        const numStrings = tuning.length;
+        const width = PAD * 2 + OPEN_WIDTH + NECK_FRETS * FRET_WIDTH;
+        const boardTop = PAD;
+        const boardBottom = PAD + (numStrings - 1) * STRING_GAP;
+        const height = boardBottom + 22;
+
+        // Fret 0 sits left of the nut; left hands see the neck mirrored
+        const wireX = (fret: number) => PAD + OPEN_WIDTH + fret * FRET_WIDTH;
+        const flip = (x: number) => leftHanded ? width - x : x;
+        const noteX = (fret: number) => flip(fret === 0 ? PAD + OPEN_WIDTH / 2 : wireX(fret) - FRET_WIDTH / 2);
+        const stringY = (string: number) => boardBottom - string * STRING_GAP;
+        const cellRect = (first: number, last: number) => {
+            const left = first === 0 ? PAD : wireX(first - 1);
+            const right = wireX(last);
+            return { x: Math.min(flip(left), flip(right)), width: right - left };
+        };
+
+        const notes = getNeckNotes(shownPcs, tuning, capo, NECK_FRETS);
+        const midY = (boardTop + boardBottom) / 2;
+        const capoRect = capo > 0 ? cellRect(capo, capo) : null;
+        const belowCapo = capo > 0 ? cellRect(0, capo - 1) : null;
+        const boxRect = box ? cellRect(box.firstFret, Math.min(NECK_FRETS, box.lastFret)) : null;
+
+        return (
+            <div className="overflow-x-auto rounded-lg" style={{ background: '#1a1a22' }}>
+                <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block select-none">
+                    {/* Board */}
+                    <rect x={cellRect(1, NECK_FRETS).x} y={boardTop - 5} width={NECK_FRETS * FRET_WIDTH} height={boardBottom - boardTop + 10} fill="#3d2817" rx={2} />
+
+                    {/* Inlays */}
+                    {INLAY_FRETS.map(fret => (
+                        <circle key={`inlay-${fret}`} cx={noteX(fret)} cy={midY} r={3} fill="rgba(255,255,255,0.15)" />
+                    ))}
+                    <circle cx={noteX(12)} cy={midY - STRING_GAP} r={3} fill="rgba(255,255,255,0.15)" />
+                    <circle cx={noteX(12)} cy={midY + STRING_GAP} r={3} fill="rgba(255,255,255,0.15)" />
+
+                    {/* CAGED box */}
+                    {boxRect && (
+                        <rect x={boxRect.x} y={boardTop - 6} width={boxRect.width} height={boardBottom - boardTop + 12} fill="none" stroke={color} strokeWidth={1.5} rx={3} />
+                    )}
+
+                    {/* Frets behind the capo can't be played */}
+                    {belowCapo && (
+                        <rect x={belowCapo.x} y={boardTop - 5} width={belowCapo.width} height={boardBottom - boardTop + 10} fill="#1a1a22" opacity={0.6} />
+                    )}
+
+                    {/* Nut and frets */}
+                    {Array.from({ length: NECK_FRETS + 1 }, (_, fret) => (
+                        <line
+                            key={`wire-${fret}`}
+                            x1={flip(wireX(fret))}
+                            y1={boardTop - 5}
+                            x2={flip(wireX(fret))}
+                            y2={boardBottom + 5}
+                            stroke={fret === 0 ? '#f5f5f5' : '#8a8a8a'}
+                            strokeWidth={fret === 0 ? 3 : 1}
+                        />
+                    ))}
+
+                    {/* Strings, thicker for lower notes */}
+                    {tuning.map((open, string) => (
+                        <line
+                            key={`string-${string}`}
+                            x1={flip(PAD)}
+                            y1={stringY(string)}
+                            x2={flip(width - PAD)}
+                            y2={stringY(string)}
+                            stroke="#c9c9c9"
+                            strokeWidth={0.6 + tuning.filter(midi => midi > open).length * 0.25}
+                        />
+                    ))}
+
+                    {/* Capo */}
+                    {capoRect && (
+                        <rect x={capoRect.x + FRET_WIDTH / 2 - 3} y={boardTop - 6} width={6} height={boardBottom - boardTop + 12} fill={color} opacity={0.5} rx={2} />
+                    )}
+
+                    {/* Fret numbers */}
+                    {[...INLAY_FRETS, 12].map(fret => (
+                        <text key={`number-${fret}`} x={noteX(fret)} y={boardBottom + 17} fontSize="8" fill="#8a8a9a" textAnchor="middle">
+                            {fret}
+                        </text>
+                    ))}
+
+                    {/* Notes */}
+                    {notes.map(note => {
+                        const mark = getMark(note.pitchClass);
+                        const inBox = !box || (note.fret >= box.firstFret && note.fret <= box.lastFret);
+                        return (
+                            <g
+                                key={`${note.string}-${note.fret}`}
+                                onClick={() => playMidi(note.midi)}
+                                className="cursor-pointer"
+                                opacity={inBox ? 1 : 0.2}
+                            >
+                                <circle cx={noteX(note.fret)} cy={stringY(note.string)} r={6} fill={mark.fill} stroke={mark.stroke} strokeWidth={1.25} />
+                                <text
+                                    x={noteX(note.fret)}
+                                    y={stringY(note.string) + 2.25}
+                                    fontSize="6.5"
+                                    fontWeight="700"
+                                    fill={mark.text}
+                                    textAnchor="middle"
+                                    style={{ pointerEvents: 'none' }}
+                                >
+                                    {getLabel(note.pitchClass)}
+                                </text>
+                            </g>
+                        );
+                    })}
+                </svg>
+            </div>
+        );
+    };
+
+    const renderKeys = () => {
+        const whiteCount = KEYBOARD_OCTAVES * 7;
+        const width = whiteCount * WHITE_WIDTH;
+
+        const whiteKeys = Array.from({ length: whiteCount }, (_, i) => ({
+            midi: KEYBOARD_START_MIDI + Math.floor(i / 7) * 12 + WHITE_STEPS[i % 7],
+            x: i * WHITE_WIDTH
+        }));
+        const blackKeys = Array.from({ length: KEYBOARD_OCTAVES }, (_, octave) =>
+            BLACK_STEPS.map(step => ({
+                midi: KEYBOARD_START_MIDI + octave * 12 + step,
+                // Centered on the line after the white key below it
+                x: (octave * 7 + WHITE_STEPS.indexOf(step - 1) + 1) * WHITE_WIDTH - BLACK_WIDTH / 2
+            }))
+        ).flat();
+
+        const renderMark = (midi: number, cx: number, cy: number) => {
+            const pitchClass = midi % 12;
+            if (!shownPcs.includes(pitchClass)) return null;
+            const mark = getMark(pitchClass);
+            return (
+                <g style={{ pointerEvents: 'none' }}>
+                    <circle cx={cx} cy={cy} r={5} fill={mark.fill} stroke={mark.stroke === 'none' ? '#000000' : mark.stroke} strokeWidth={1} />
+                    <text x={cx} y={cy + 2} fontSize="5.5" fontWeight="700" fill={mark.text} textAnchor="middle">
+                        {getLabel(pitchClass)}
+                    </text>
+                </g>
+            );
+        };
+
+        return (
+            <div className="rounded-lg p-0.5" style={{ background: '#1a1a22' }}>
+                <svg width="100%" viewBox={`0 0 ${width} ${WHITE_HEIGHT}`} className="block select-none">
+                    {whiteKeys.map(({ midi, x }) => (
+                        <g key={`white-${midi}`} onClick={() => playMidi(midi)} className="cursor-pointer">
+                            <rect x={x} y={0} width={WHITE_WIDTH} height={WHITE_HEIGHT} fill="#f0f0f0" stroke="#1a1a22" strokeWidth={1} rx={1.5} />
+                            {renderMark(midi, x + WHITE_WIDTH / 2, WHITE_HEIGHT - 9)}
+                        </g>
+                    ))}
+                    {blackKeys.map(({ midi, x }) => (
+                        <g key={`black-${midi}`} onClick={() => playMidi(midi)} className="cursor-pointer">
+                            <rect x={x} y={0} width={BLACK_WIDTH} height={BLACK_HEIGHT} fill="#1f1f26" rx={1.5} />
+                            {renderMark(midi, x + BLACK_WIDTH / 2, BLACK_HEIGHT - 7)}
+                        </g>
+                    ))}
+                </svg>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-2">
+            {/* What to show */}
+            <div className="grid grid-cols-3 gap-1.5">
+                {SOURCES.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => setSource(option.id)}
+                        className={segmentClass(source === option.id)}
+                        title={option.title}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {/* Caption, labels and view */}
+            <div className="flex items-center gap-1.5">
+                <span className="flex-1 min-w-0 text-[10px] text-text-secondary truncate" title={scaleNotes.map(formatChordForDisplay).join(' ')}>
+                    {caption}
+                </span>
+                <button onClick={() => setShowIntervals(!showIntervals)} className={segmentClass(false)} title="Label notes by interval or by name">
+                    {showIntervals ? '1 3 5' : 'C E G'}
+                </button>
+                <div className="flex gap-0.5">
+                    <button onClick={() => setView('neck')} className={segmentClass(view === 'neck')}>Neck</button>
+                    <button onClick={() => setView('keys')} className={segmentClass(view === 'keys')}>Keys</button>
+                </div>
+            </div>
+
+            {view === 'neck' ? renderNeck() : renderKeys()}
+
+            {/* CAGED positions (standard guitar tuning only) */}
+            {view === 'neck' && cagedPositions.length > 0 && (
+                <div className="flex items-center gap-1">
+                    <span className="text-[9px] font-bold text-text-muted uppercase tracking-wider mr-1">CAGED</span>
+                    <button onClick={() => setCagedShape(null)} className={segmentClass(!box)}>All</button>
+                    {cagedPositions.map(position => (
+                        <button
+                            key={position.shape}
+                            onClick={() => setCagedShape(position.shape)}
+                            className={clsx(segmentClass(box?.shape === position.shape), 'w-6')}
+                            title={`${position.shape} shape, frets ${position.firstFret}-${position.lastFret}`}
+                        >
+                            {position.shape}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { clsx } from 'clsx';
+import { PianoKeyboard } from './PianoKeyboard';
+import { MusicStaff } from './MusicStaff';
+import { playChord } from '../../utils/audioEngine';
+import { noteToMidi } from '../../utils/chordVoicing';
+import { getVoicingLibrary, type VoicingStyle } from '../../utils/voicingLibrary';
+import type { Chord } from '../../utils/musicTheory';
+
+interface VoicingLibraryProps {
+    chord: Pick<Chord, 'root' | 'notes' | 'inversion' | 'bassNote'>;
+    color: string;
+    compact?: boolean;
+    onNotePlay?: (note: string, octave: number) => void;
+    onAssign?: (voicing: string[]) => void; // Undefined when there is no slot to assign to
+}
+
+/**
+ * Generated piano voicings (close, open, drop 2/3, spread, shell, rootless) for the chord
+ * on show. Tapping a style plays it and previews it on the keyboard and staff; the
+ * previewed voicing can be written into the selected slot.
+ */
+export const VoicingLibrary: React.FC<VoicingLibraryProps> = ({ chord, color, compact = false, onNotePlay, onAssign }) => {
+    const [selectedStyle, setSelectedStyle] = useState<VoicingStyle | null>(null);
+
+    const options = getVoicingLibrary(chord);
+    const selected = options.find(option => option.style === selectedStyle) ?? null;
+
+    // Keyboard shows two octaves; start at the voicing's lowest octave
+    const keyboardOctave = selected
+        ? Math.max(2, Math.min(4, Math.floor(noteToMidi(selected.notes[0]) / 12) - 1))
+        : 3;
+
+    const handleSelect = (style: VoicingStyle, notes: string[]) => {
+        setSelectedStyle(style);
+        playChord(notes);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className={clsx('grid gap-1.5', compact ? 'grid-cols-2' : 'grid-cols-4')}>
+                {options.map(({ style, label, description, notes }) => (
+                    <button
+                        key={style}
+                        onClick={() => handleSelect(style, notes)}
+                        className={clsx(
+                            'px-1.5 py-1 rounded text-[10px] font-semibold transition-colors touch-feedback truncate',
+                            selectedStyle === style
+                                ? 'bg-accent-primary text-white'
+                                : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                        )}
+                        title={description}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {selected && (
+                <>
+                    <PianoKeyboard
+                        highlightedNotes={selected.notes}
+                        rootNote={chord.root}
+                        color={color}
+                        octave={keyboardOctave}
+                        onNotePlay={onNotePlay}
+                        voicing={selected.notes}
+                    />
+                    {!compact && (
+                        <MusicStaff
+                            notes={selected.notes}
+                            rootNote={chord.root}
+                            color={color}
+                            onNotePlay={onNotePlay}
+                            compact={true}
+                        />
+                    )}
+                    <div className="flex items-center gap-2">
+                        <span className="flex-1 min-w-0 text-[10px] text-text-muted truncate">
+                            {selected.description}: <span className="text-text-secondary tabular-nums">{selected.notes.join(' ')}</span>
+                        </span>
+                        <button
+                            onClick={() => onAssign?.(selected.notes)}
+                            disabled={!onAssign}
+                            className="shrink-0 px-2 h-6 rounded text-[10px] font-bold bg-bg-tertiary text-text-secondary hover:text-text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                            title={onAssign ? 'Put this chord with this voicing in the selected slot' : 'Select a timeline slot to use this voicing'}
+                        >
+                            Use in Slot
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { useSongStore } from '../../store/useSongStore';
+import {
+    ARP_DIRECTIONS,
+    ARP_GRID_ROWS,
+    ARP_RATES,
+    ARP_STEP_COUNT,
+    MAX_ARP_OCTAVES
+} from '../../utils/arpeggiator';
+
+interface ArpeggiatorPanelProps {
+    compact?: boolean;
+}
+
+/**
+ * Arpeggiator section of the instrument controls: on/off, direction, rate, octave
+ * range and a step grid for the custom order. Rows are chord tones from the lowest
+ * up; editing a step switches the direction to Custom.
+ */
+export const ArpeggiatorPanel: React.FC<ArpeggiatorPanelProps> = ({ compact = false }) => {
+    const { arpeggiator, setArpeggiator } = useSongStore();
+    const { enabled, direction, rate, octaves, steps } = arpeggiator;
+
+    const segmentClass = (active: boolean) => clsx(
+        'rounded font-bold transition-colors',
+        compact ? 'px-1.5 py-0.5 text-[8px]' : 'px-2 py-1 text-[10px]',
+        active ? 'bg-accent-primary text-white' : 'bg-white/5 text-text-secondary hover:text-text-primary'
+    );
+
+    const handleStepClick = (stepIndex: number, row: number) => {
+        const nextSteps = Array.from({ length: ARP_STEP_COUNT }, (_, i) => steps[i] ?? null);
+        nextSteps[stepIndex] = nextSteps[stepIndex] === row ? null : row;
+        setArpeggiator({ steps: nextSteps, direction: 'custom' });
+    };
+
+    return (
+        <div
+            className={clsx(
+                'relative w-full border border-white/10 bg-white/5 flex flex-col',
+                compact ? 'p-1.5 gap-1 rounded-lg' : 'p-2.5 gap-2 rounded-xl'
+            )}
+        >
+            <div className="flex items-center justify-between gap-2">
+                <button
+                    onClick={(e) => { e.stopPropagation(); setArpeggiator({ enabled: !enabled }); }}
+                    className={clsx(
+                        'font-bold uppercase tracking-wider transition-colors',
+                        compact ? 'text-[8px]' : 'text-[10px]',
+                        enabled ? 'text-accent-primary' : 'text-text-tertiary hover:text-text-primary'
+                    )}
+                    title={enabled ? 'Turn arpeggiator off' : 'Turn arpeggiator on (replaces the rhythm pattern)'}
+                >
+                    Arpeggiator {enabled ? 'On' : 'Off'}
+                </button>
+
+                {/* Octave range */}
+                <div className="flex items-center gap-0.5">
+                    {Array.from({ length: MAX_ARP_OCTAVES }, (_, i) => i + 1).map(range => (
+                        <button
+                            key={range}
+                            onClick={(e) => { e.stopPropagation(); setArpeggiator({ octaves: range }); }}
+                            className={segmentClass(octaves === range)}
+                            title={`${range} octave${range > 1 ? 's' : ''}`}
+                        >
+                            {range}oct
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className={clsx('flex flex-col gap-1', !enabled && 'opacity-50')}>
+                {/* Direction */}
+                <div className="flex items-center gap-0.5 flex-wrap">
+                    {ARP_DIRECTIONS.map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={(e) => { e.stopPropagation(); setArpeggiator({ direction: value }); }}
+                            className={segmentClass(direction === value)}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Rate */}
+                <div className="flex items-center gap-0.5">
+                    {ARP_RATES.map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={(e) => { e.stopPropagation(); setArpeggiator({ rate: value }); }}
+                            className={segmentClass(rate === value)}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Step grid: highest chord tone on top */}
+                <div
+                    className={clsx('grid gap-0.5 mt-0.5', direction !== 'custom' && 'opacity-60')}
+                    style={{ gridTemplateColumns: `repeat(${ARP_STEP_COUNT}, minmax(0, 1fr))` }}
+                >
+                    {Array.from({ length: ARP_GRID_ROWS }, (_, i) => ARP_GRID_ROWS - 1 - i).flatMap(row =>
+                        Array.from({ length: ARP_STEP_COUNT }, (_, stepIndex) => (
+                            <button
+                                key={`${row}-${stepIndex}`}
+                                onClick={(e) => { e.stopPropagation(); handleStepClick(stepIndex, row); }}
+                                className={clsx(
+                                    'rounded-sm transition-colors',
+                                    compact ? 'h-2.5' : 'h-3.5',
+                                    steps[stepIndex] === row
+                                        ? 'bg-accent-primary'
+                                        : stepIndex % 4 === 0 ? 'bg-white/15 hover:bg-white/25' : 'bg-white/5 hover:bg-white/20'
+                                )}
+                                title={`Step ${stepIndex + 1}: chord tone ${row + 1}`}
+                            />
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
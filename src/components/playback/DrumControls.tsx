@@ -0,0 +1,97 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Drum, ChevronUp } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { getMixerTrack, getSongMixer } from '../../utils/mixer';
+import { DRUM_GROOVES } from '../../utils/drumMachine';
+
+interface DrumControlsProps {
+    compact?: boolean;
+}
+
+/**
+ * Drum machine picker: groove and level in a small popover above the playback bar.
+ * Sections can mute the drums from their options popup.
+ */
+export const DrumControls: React.FC<DrumControlsProps> = ({ compact = false }) => {
+    const { drumGroove, setDrumGroove, currentSong, updateMixerTrack } = useSongStore();
+    const level = getMixerTrack(getSongMixer(currentSong), 'drums').gain;
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const isOn = drumGroove !== 'off';
+
+    return (
+        <div ref={containerRef} className="relative flex items-center">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    'flex items-center gap-0.5 transition-colors touch-feedback',
+                    compact ? 'p-1' : 'p-1.5',
+                    isOn ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                )}
+                title={isOn ? `Drums: ${DRUM_GROOVES.find(s => s.value === drumGroove)?.label}` : 'Drums off'}
+            >
+                <Drum size={compact ? 12 : 14} />
+                <ChevronUp size={compact ? 10 : 12} className={clsx('transition-transform', !isOpen && 'rotate-180')} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-2 w-52 p-3 space-y-3 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    {/* Style */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Drum Groove</div>
+                        <div className="grid grid-cols-3 gap-1">
+                            {DRUM_GROOVES.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setDrumGroove(value)}
+                                    className={clsx(
+                                        'h-6 rounded text-[9px] font-bold transition-colors',
+                                        drumGroove === value
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Level */}
+                    <div className={clsx('space-y-1', !isOn && 'opacity-50')}>
+                        <div className="flex items-center justify-between text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                            <span>Drum Level</span>
+                            <span className="tabular-nums">{Math.round(level * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            value={level}
+                            onChange={(e) => updateMixerTrack('drums', { gain: parseFloat(e.target.value) })}
+                            className="w-full accent-accent-primary"
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
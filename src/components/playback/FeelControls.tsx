@@ -0,0 +1,151 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Waves, ChevronUp, Dices } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import {
+    MAX_STRUM_SPREAD_MS,
+    MAX_SWING,
+    MAX_TIMING_JITTER_MS,
+    MAX_VELOCITY_VARIANCE,
+    MIN_SWING,
+    SWING_UNITS,
+    isFeelActive
+} from '../../utils/humanize';
+
+interface FeelControlsProps {
+    compact?: boolean;
+}
+
+/**
+ * Swing and humanize settings in a small popover above the playback bar. The seed makes
+ * the humanized take repeatable: exports play the same take as live playback until it is re-rolled.
+ */
+export const FeelControls: React.FC<FeelControlsProps> = ({ compact = false }) => {
+    const { feel, setFeel } = useSongStore();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const isOn = isFeelActive(feel);
+
+    const renderSlider = (
+        label: string,
+        display: string,
+        value: number,
+        range: { min: number; max: number; step: number },
+        onChange: (value: number) => void
+    ) => (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                <span>{label}</span>
+                <span className="tabular-nums">{display}</span>
+            </div>
+            <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={value}
+                onChange={(e) => onChange(parseFloat(e.target.value))}
+                className="w-full accent-accent-primary"
+            />
+        </div>
+    );
+
+    return (
+        <div ref={containerRef} className="relative flex items-center">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    'flex items-center gap-0.5 transition-colors touch-feedback',
+                    compact ? 'p-1' : 'p-1.5',
+                    isOn ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                )}
+                title={feel.swing > MIN_SWING ? `Swing ${feel.swing}%` : 'Swing & humanize'}
+            >
+                <Waves size={compact ? 12 : 14} />
+                <ChevronUp size={compact ? 10 : 12} className={clsx('transition-transform', !isOpen && 'rotate-180')} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-2 w-56 p-3 space-y-3 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    {/* Swing */}
+                    {renderSlider(
+                        'Swing',
+                        feel.swing > MIN_SWING ? `${feel.swing}%` : 'Straight',
+                        feel.swing,
+                        { min: MIN_SWING, max: MAX_SWING, step: 1 },
+                        swing => setFeel({ swing })
+                    )}
+                    <div className="grid grid-cols-2 gap-1">
+                        {SWING_UNITS.map(({ value, label }) => (
+                            <button
+                                key={value}
+                                onClick={() => setFeel({ swingUnit: value })}
+                                className={clsx(
+                                    'h-6 rounded text-[10px] font-bold transition-colors',
+                                    feel.swingUnit === value
+                                        ? 'bg-accent-primary text-white'
+                                        : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                )}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Humanize */}
+                    <div className="pt-2 space-y-3 border-t border-border-subtle">
+                        {renderSlider(
+                            'Timing',
+                            `±${feel.timingJitterMs} ms`,
+                            feel.timingJitterMs,
+                            { min: 0, max: MAX_TIMING_JITTER_MS, step: 1 },
+                            timingJitterMs => setFeel({ timingJitterMs })
+                        )}
+                        {renderSlider(
+                            'Velocity',
+                            `±${Math.round(feel.velocityVariance * 100)}%`,
+                            feel.velocityVariance,
+                            { min: 0, max: MAX_VELOCITY_VARIANCE, step: 0.01 },
+                            velocityVariance => setFeel({ velocityVariance })
+                        )}
+                        {renderSlider(
+                            'Strum Spread',
+                            `${feel.strumSpreadMs} ms`,
+                            feel.strumSpreadMs,
+                            { min: 0, max: MAX_STRUM_SPREAD_MS, step: 1 },
+                            strumSpreadMs => setFeel({ strumSpreadMs })
+                        )}
+
+                        <div className="flex items-center justify-between text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                            <span>Seed <span className="tabular-nums">{feel.seed}</span></span>
+                            <button
+                                onClick={() => setFeel({ seed: Math.floor(Math.random() * 100000) + 1 })}
+                                className="flex items-center gap-1 px-2 h-6 rounded bg-bg-tertiary text-text-secondary hover:text-text-primary transition-colors"
+                                title="Roll a new humanize take"
+                            >
+                                <Dices size={12} />
+                                New take
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
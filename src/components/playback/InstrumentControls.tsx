@@ -6,6 +6,7 @@ import { clsx } from 'clsx';
 import { playChord, setInstrument as setAudioInstrument } from '../../utils/audioEngine';
 import { VoiceSelector } from './VoiceSelector';
 import { PatchManager } from './PatchManager';
+import { ArpeggiatorPanel } from './ArpeggiatorPanel';
 import type { InstrumentType } from '../../types';
 import { useMobileLayout } from '../../hooks/useIsMobile';
 import {
@@ -497,6 +498,8 @@ export const InstrumentControls: React.FC = () => {
                 <Knob label="Chorus" value={chorusMix} defaultValue={0} min={0} max={1} onChange={setChorusMix} formatValue={(v) => `${Math.round(v * 100)}%`} icon={<Disc3 />} compact />
                 <Knob label="Vibrato" value={vibratoDepth} defaultValue={0} min={0} max={1} onChange={setVibratoDepth} formatValue={(v) => `${Math.round(v * 100)}%`} icon={<Waves />} compact />
             </div>
+
+            <ArpeggiatorPanel compact />
         </>
     ) : (
         // --- Standard Layout ---
@@ -550,6 +553,11 @@ export const InstrumentControls: React.FC = () => {
                 <Knob label="Chorus" value={chorusMix} defaultValue={0} min={0} max={1} onChange={setChorusMix} formatValue={(v) => `${Math.round(v * 100)}%`} icon={<Disc3 />} compact={isMobile} />
                 <Knob label="Vibrato" value={vibratoDepth} defaultValue={0} min={0} max={1} onChange={setVibratoDepth} formatValue={(v) => `${Math.round(v * 100)}%`} icon={<Waves />} compact={isMobile} />
             </div>
+
+            {/* Arpeggiator */}
+            <div className="w-full mt-2 relative z-10">
+                <ArpeggiatorPanel compact={isMobile} />
+            </div>
         </>
     );
 
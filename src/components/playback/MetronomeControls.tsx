@@ -0,0 +1,133 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Timer, ChevronUp } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { METRONOME_SUBDIVISIONS } from '../../utils/metronome';
+
+const COUNT_IN_OPTIONS = [0, 1, 2];
+
+interface MetronomeControlsProps {
+    compact?: boolean;
+}
+
+/**
+ * Metronome toggle with a small settings popover (level, subdivision, count-in).
+ * The popover opens upward since it lives in the bottom playback bar.
+ */
+export const MetronomeControls: React.FC<MetronomeControlsProps> = ({ compact = false }) => {
+    const {
+        metronomeEnabled,
+        toggleMetronome,
+        metronomeVolume,
+        setMetronomeVolume,
+        metronomeSubdivision,
+        setMetronomeSubdivision,
+        countInBars,
+        setCountInBars,
+    } = useSongStore();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const iconSize = compact ? 12 : 14;
+
+    return (
+        <div ref={containerRef} className="relative flex items-center">
+            <button
+                onClick={toggleMetronome}
+                className={clsx(
+                    compact ? 'p-1' : 'p-1.5',
+                    'transition-colors touch-feedback',
+                    metronomeEnabled ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                )}
+                title={metronomeEnabled ? 'Metronome on' : 'Metronome off'}
+            >
+                <Timer size={iconSize} />
+            </button>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="p-0.5 text-text-muted hover:text-text-primary transition-colors"
+                title="Metronome settings"
+            >
+                <ChevronUp size={compact ? 10 : 12} className={clsx('transition-transform', !isOpen && 'rotate-180')} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-2 w-52 p-3 space-y-3 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    {/* Level */}
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                            <span>Click Level</span>
+                            <span className="tabular-nums">{Math.round(metronomeVolume * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            value={metronomeVolume}
+                            onChange={(e) => setMetronomeVolume(parseFloat(e.target.value))}
+                            className="w-full accent-accent-primary"
+                        />
+                    </div>
+
+                    {/* Subdivision */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Subdivision</div>
+                        <div className="grid grid-cols-4 gap-1">
+                            {METRONOME_SUBDIVISIONS.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setMetronomeSubdivision(value)}
+                                    className={clsx(
+                                        'h-6 rounded text-[9px] font-bold transition-colors',
+                                        metronomeSubdivision === value
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                    )}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Count-in */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Count-in</div>
+                        <div className="grid grid-cols-3 gap-1">
+                            {COUNT_IN_OPTIONS.map(bars => (
+                                <button
+                                    key={bars}
+                                    onClick={() => setCountInBars(bars)}
+                                    className={clsx(
+                                        'h-6 rounded text-[9px] font-bold transition-colors',
+                                        countInBars === bars
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                    )}
+                                >
+                                    {bars === 0 ? 'Off' : `${bars} bar${bars > 1 ? 's' : ''}`}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,177 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { SlidersVertical, ChevronUp } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { getInstrumentDisplayName } from '../../utils/exportAudio';
+import {
+    BASS_TRACK_INSTRUMENTS,
+    MIXER_TRACKS,
+    getMixerTrack,
+    getSongMixer,
+    type MixerTrack
+} from '../../utils/mixer';
+import type { InstrumentType } from '../../types';
+
+interface MixerPanelProps {
+    compact?: boolean;
+}
+
+// Same built-in voices as the voice selector
+const CHORD_TRACK_INSTRUMENTS: InstrumentType[] = [
+    'piano', 'guitar-jazzmaster', 'acoustic-archtop', 'nylon-string', 'ocarina',
+    'harmonica', 'melodica', 'wine-glass', 'organ', 'epiano', 'pad'
+];
+
+const formatPan = (pan: number) => {
+    if (Math.abs(pan) < 0.01) return 'C';
+    return `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`;
+};
+
+/**
+ * Song mixer: a channel strip per track (instrument, level, pan, mute/solo, reverb and
+ * delay sends) and the master level, in a popover above the playback bar. The mix is
+ * saved with the song.
+ */
+export const MixerPanel: React.FC<MixerPanelProps> = ({ compact = false }) => {
+    const { currentSong, instrument, customInstruments, updateMixerTrack, setMixerMasterGain } = useSongStore();
+    const mixer = getSongMixer(currentSong);
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const isAdjusted = JSON.stringify(mixer) !== JSON.stringify(getSongMixer({}));
+
+    const getCustomName = (id: string) => customInstruments.find(inst => inst.id === id)?.name;
+    const instrumentLabel = (value: InstrumentType) => getCustomName(value) ?? getInstrumentDisplayName(value);
+
+    const renderInstrumentSelect = (track: MixerTrack) => {
+        if (track.id === 'drums') {
+            return <span className="flex-1 text-[9px] text-text-muted">Drum kit</span>;
+        }
+
+        const options = track.id === 'chords'
+            ? [...CHORD_TRACK_INSTRUMENTS, ...customInstruments.map(inst => inst.id)]
+            : BASS_TRACK_INSTRUMENTS;
+        const defaultLabel = track.id === 'chords' ? `Selected (${instrumentLabel(instrument)})` : 'Synth Bass';
+
+        return (
+            <select
+                value={track.instrument ?? ''}
+                onChange={(e) => updateMixerTrack(track.id, { instrument: (e.target.value || undefined) as InstrumentType | undefined })}
+                className="min-w-0 flex-1 bg-bg-tertiary border border-border-subtle rounded px-1 py-0.5 text-[9px] text-text-primary"
+            >
+                <option value="">{defaultLabel}</option>
+                {options
+                    .filter(value => track.id !== 'bass' || value !== 'bass')
+                    .map(value => (
+                        <option key={value} value={value}>{instrumentLabel(value)}</option>
+                    ))}
+            </select>
+        );
+    };
+
+    const renderSlider = (
+        label: string,
+        display: string,
+        value: number,
+        onChange: (value: number) => void,
+        range: { min: number; max: number } = { min: 0, max: 1 }
+    ) => (
+        <label className="flex flex-col gap-0.5 min-w-0">
+            <span className="flex items-center justify-between text-[8px] font-bold text-text-muted uppercase tracking-wider">
+                <span>{label}</span>
+                <span className="tabular-nums">{display}</span>
+            </span>
+            <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={0.01}
+                value={value}
+                onChange={(e) => onChange(parseFloat(e.target.value))}
+                className="w-full accent-accent-primary"
+            />
+        </label>
+    );
+
+    const toggleClass = (active: boolean, activeClass: string) => clsx(
+        'w-5 h-5 rounded text-[9px] font-bold transition-colors',
+        active ? activeClass : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+    );
+
+    return (
+        <div ref={containerRef} className="relative flex items-center">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    'flex items-center gap-0.5 transition-colors touch-feedback',
+                    compact ? 'p-1' : 'p-1.5',
+                    isAdjusted ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                )}
+                title="Mixer"
+            >
+                <SlidersVertical size={compact ? 12 : 14} />
+                <ChevronUp size={compact ? 10 : 12} className={clsx('transition-transform', !isOpen && 'rotate-180')} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-2 w-80 p-3 space-y-2 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Mixer</div>
+
+                    {MIXER_TRACKS.map(({ id, label }) => {
+                        const track = getMixerTrack(mixer, id);
+                        const update = (updates: Partial<Omit<MixerTrack, 'id'>>) => updateMixerTrack(id, updates);
+
+                        return (
+                            <div key={id} className="p-2 space-y-1.5 rounded-lg bg-bg-tertiary/50 border border-border-subtle">
+                                <div className="flex items-center gap-1.5">
+                                    <span className="w-12 text-[10px] font-bold text-text-primary">{label}</span>
+                                    {renderInstrumentSelect(track)}
+                                    <button
+                                        onClick={() => update({ muted: !track.muted })}
+                                        className={toggleClass(track.muted, 'bg-red-500 text-white')}
+                                        title={track.muted ? `Unmute ${label}` : `Mute ${label}`}
+                                    >
+                                        M
+                                    </button>
+                                    <button
+                                        onClick={() => update({ solo: !track.solo })}
+                                        className={toggleClass(track.solo, 'bg-yellow-500 text-black')}
+                                        title={track.solo ? `Unsolo ${label}` : `Solo ${label}`}
+                                    >
+                                        S
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-4 gap-2">
+                                    {renderSlider('Level', `${Math.round(track.gain * 100)}`, track.gain, gain => update({ gain }))}
+                                    {renderSlider('Pan', formatPan(track.pan), track.pan, pan => update({ pan }), { min: -1, max: 1 })}
+                                    {renderSlider('Rev', `${Math.round(track.reverbSend * 100)}`, track.reverbSend, reverbSend => update({ reverbSend }))}
+                                    {renderSlider('Dly', `${Math.round(track.delaySend * 100)}`, track.delaySend, delaySend => update({ delaySend }))}
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {/* Master bus */}
+                    <div className="px-2">
+                        {renderSlider('Master', `${Math.round(mixer.master.gain * 100)}%`, mixer.master.gain, setMixerMasterGain)}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,9 +1,16 @@
 import React, { useState, useRef } from 'react';
 import { clsx } from 'clsx';
 import { useSongStore } from '../../store/useSongStore';
-import { Play, Pause, SkipBack, SkipForward, Repeat, Volume2, VolumeX, Loader2, Music } from 'lucide-react';
-import { playSong, pauseSong, skipToSection, unlockAudioForIOS } from '../../utils/audioEngine';
+import { Play, Pause, SkipBack, SkipForward, Repeat, Volume2, VolumeX, Loader2, Music, ListStart } from 'lucide-react';
+import { playSong, pauseSong, playFromSlot, skipToSection, unlockAudioForIOS } from '../../utils/audioEngine';
 import { VoiceSelector } from './VoiceSelector';
+import { MetronomeControls } from './MetronomeControls';
+import { RhythmSelector } from './RhythmSelector';
+import { BassControls } from './BassControls';
+import { DrumControls } from './DrumControls';
+import { MixerPanel } from './MixerPanel';
+import { FeelControls } from './FeelControls';
+import { VoiceLeadingControls } from './VoiceLeadingControls';
 
 import { useMobileLayout } from '../../hooks/useIsMobile';
 
@@ -23,6 +30,12 @@ export const PlaybackControls: React.FC = () => {
         toggleMute,
         toggleLoop,
         isLooping,
+        loopRange,
+        setLoopRange,
+        setLoopRangeFromSelection,
+        preRoll,
+        togglePreRoll,
+        selectedSlotId,
     } = useSongStore();
 
     const { isMobile, isLandscape } = useMobileLayout();
@@ -66,6 +79,30 @@ export const PlaybackControls: React.FC = () => {
         toggleLoop();
     };
 
+    const handlePlayFromSelection = async () => {
+        if (!selectedSlotId) return;
+        try {
+            await unlockAudioForIOS();
+            setIsLoading(true);
+            await playFromSlot(selectedSlotId);
+        } catch (err) {
+            console.error("Playback error:", err);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // A–B loop: set from the selected slots, or clear back to section looping
+    const handleLoopRangeToggle = () => {
+        if (loopRange) {
+            setLoopRange(null);
+        } else {
+            setLoopRangeFromSelection();
+        }
+    };
+
+    const loopTitle = loopRange ? 'Loop A–B' : 'Loop Section';
+
 
 
 
@@ -177,12 +214,20 @@ export const PlaybackControls: React.FC = () => {
                     >
                         <SkipForward size={isMobile && isLandscape ? 12 : 16} />
                     </button>
+                    <button
+                        onClick={handlePlayFromSelection}
+                        disabled={!selectedSlotId || isLoading}
+                        className={`${isMobile && isLandscape ? 'p-1' : 'p-1.5'} text-text-secondary hover:text-text-primary disabled:opacity-30 transition-colors touch-feedback flex items-center justify-center`}
+                        title={preRoll ? "Play from selected slot (1 bar pre-roll)" : "Play from selected slot"}
+                    >
+                        <ListStart size={isMobile && isLandscape ? 12 : 16} />
+                    </button>
                     {/* Loop toggle - visible on mobile and desktop */}
                     {isMobile ? (
                         <button
                             onClick={handleLoopToggle}
                             className={`${isLandscape ? 'p-1' : 'p-1.5'} transition-colors touch-feedback ${isLooping ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'}`}
-                            title="Loop Section"
+                            title={loopTitle}
                         >
                             <Repeat size={isLandscape ? 12 : 14} />
                         </button>
@@ -190,11 +235,40 @@ export const PlaybackControls: React.FC = () => {
                         <button
                             onClick={handleLoopToggle}
                             className={`p-1.5 transition-colors ml-1 ${isLooping ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'}`}
-                            title="Loop Section"
+                            title={loopTitle}
                         >
                             <Repeat size={14} />
                         </button>
                     )}
+                    <button
+                        onClick={handleLoopRangeToggle}
+                        disabled={!loopRange && !selectedSlotId}
+                        className={clsx(
+                            isMobile && isLandscape ? 'px-1 text-[8px]' : 'px-1.5 text-[10px]',
+                            'font-bold rounded transition-colors disabled:opacity-30',
+                            loopRange ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                        )}
+                        title={loopRange ? "Clear A–B loop" : "Loop the selected slots (A–B)"}
+                    >
+                        A–B
+                    </button>
+                    <button
+                        onClick={togglePreRoll}
+                        className={clsx(
+                            isMobile && isLandscape ? 'px-1 text-[8px]' : 'px-1.5 text-[10px]',
+                            'font-bold rounded transition-colors',
+                            preRoll ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                        )}
+                        title="Start 'play from selected slot' one bar early"
+                    >
+                        {isMobile ? 'Pre' : 'Pre-roll'}
+                    </button>
+                    <MetronomeControls compact={isMobile && isLandscape} />
+                    <BassControls compact={isMobile && isLandscape} />
+                    <DrumControls compact={isMobile && isLandscape} />
+                    <FeelControls compact={isMobile && isLandscape} />
+                    <VoiceLeadingControls compact={isMobile && isLandscape} />
+                    <MixerPanel compact={isMobile && isLandscape} />
                 </div>
 
                 {/* Tempo & Info - Show on all views */}
@@ -252,6 +326,7 @@ export const PlaybackControls: React.FC = () => {
                             isMobile && isLandscape ? "min-w-[60px]" : "min-w-[70px] sm:min-w-[130px]"
                         )}
                     />
+                    <RhythmSelector compact={isMobile} />
 
                     {/* Volume/Mute Toggle */}
                     <div className={`flex items-center ${isMobile ? '' : 'gap-2 w-28'}`}>
@@ -0,0 +1,79 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Check, ChevronUp, Activity } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { RHYTHM_PATTERNS, getRhythmPatternLabel } from '../../utils/rhythmPatterns';
+
+interface RhythmSelectorProps {
+    compact?: boolean;
+}
+
+/**
+ * Song-wide rhythm pattern picker. Sections can override the pattern from their options popup.
+ */
+export const RhythmSelector: React.FC<RhythmSelectorProps> = ({ compact = false }) => {
+    const { currentSong, setSongRhythmPattern } = useSongStore();
+    const pattern = currentSong.rhythmPattern ?? 'block';
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    return (
+        <div ref={containerRef} className="relative flex items-center">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    'flex items-center gap-1 rounded transition-colors touch-feedback',
+                    compact ? 'p-1 text-[9px]' : 'px-1.5 py-1 text-[11px]',
+                    pattern !== 'block' ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                )}
+                title={`Rhythm: ${getRhythmPatternLabel(pattern)}`}
+            >
+                <Activity size={compact ? 12 : 14} />
+                {!compact && <span className="font-medium whitespace-nowrap">{getRhythmPatternLabel(pattern)}</span>}
+                <ChevronUp size={compact ? 10 : 12} className={clsx('transition-transform', !isOpen && 'rotate-180')} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full right-0 mb-2 w-56 py-1 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    <div className="px-3 py-1.5 text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                        Song Rhythm
+                    </div>
+                    {RHYTHM_PATTERNS.map(({ value, label, description }) => (
+                        <button
+                            key={value}
+                            onClick={() => {
+                                setSongRhythmPattern(value);
+                                setIsOpen(false);
+                            }}
+                            className={clsx(
+                                'w-full flex items-center gap-2 px-3 py-1.5 text-left transition-colors hover:bg-bg-tertiary',
+                                pattern === value ? 'text-accent-primary' : 'text-text-primary'
+                            )}
+                        >
+                            <div className="flex-1 min-w-0">
+                                <div className="text-xs font-bold">{label}</div>
+                                <div className="text-[10px] text-text-muted truncate">{description}</div>
+                            </div>
+                            {pattern === value && <Check size={12} />}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
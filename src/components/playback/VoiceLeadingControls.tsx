@@ -0,0 +1,113 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Spline, ChevronUp } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import { VOICE_LEADING_HIGH_NOTES, VOICE_LEADING_LOW_NOTES } from '../../utils/voiceLeading';
+import { midiToNoteName } from '../../utils/chordVoicing';
+
+interface VoiceLeadingControlsProps {
+    compact?: boolean;
+}
+
+/**
+ * Voice-leading toggle with a small settings popover (melody constraint and range).
+ * When on, song playback and exports voice each chord from the one before it.
+ */
+export const VoiceLeadingControls: React.FC<VoiceLeadingControlsProps> = ({ compact = false }) => {
+    const { voiceLeading, setVoiceLeading } = useSongStore();
+    const { enabled, keepTopNote, lowestNote, highestNote } = voiceLeading;
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const renderNoteOptions = (notes: number[], selected: number, onSelect: (note: number) => void) => (
+        <div className={clsx('grid gap-1', notes.length > 4 ? 'grid-cols-5' : 'grid-cols-4')}>
+            {notes.map(note => (
+                <button
+                    key={note}
+                    onClick={() => onSelect(note)}
+                    className={clsx(
+                        'h-6 rounded text-[9px] font-bold transition-colors',
+                        selected === note
+                            ? 'bg-accent-primary text-white'
+                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                    )}
+                >
+                    {midiToNoteName(note)}
+                </button>
+            ))}
+        </div>
+    );
+
+    return (
+        <div ref={containerRef} className="relative flex items-center">
+            <button
+                onClick={() => setVoiceLeading({ enabled: !enabled })}
+                className={clsx(
+                    compact ? 'p-1' : 'p-1.5',
+                    'transition-colors touch-feedback',
+                    enabled ? 'text-accent-primary' : 'text-text-secondary hover:text-text-primary'
+                )}
+                title={enabled ? 'Voice leading on' : 'Voice leading off'}
+            >
+                <Spline size={compact ? 12 : 14} />
+            </button>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="p-0.5 text-text-muted hover:text-text-primary transition-colors"
+                title="Voice leading settings"
+            >
+                <ChevronUp size={compact ? 10 : 12} className={clsx('transition-transform', !isOpen && 'rotate-180')} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-2 w-52 p-3 space-y-3 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    {/* Melody */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Top Note</div>
+                        <div className="grid grid-cols-2 gap-1">
+                            {[false, true].map(keep => (
+                                <button
+                                    key={String(keep)}
+                                    onClick={() => setVoiceLeading({ keepTopNote: keep })}
+                                    className={clsx(
+                                        'h-6 rounded text-[9px] font-bold transition-colors',
+                                        keepTopNote === keep
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                    )}
+                                >
+                                    {keep ? 'Keep' : 'Free'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Range */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Lowest Note</div>
+                        {renderNoteOptions(VOICE_LEADING_LOW_NOTES, lowestNote, note => setVoiceLeading({ lowestNote: note }))}
+                    </div>
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Highest Note</div>
+                        {renderNoteOptions(VOICE_LEADING_HIGH_NOTES, highestNote, note => setVoiceLeading({ highestNote: note }))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
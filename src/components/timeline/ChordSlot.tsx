@@ -3,8 +3,9 @@ import { useDraggable, useDroppable } from '@dnd-kit/core';
 import type { ChordSlot as IChordSlot } from '../../types';
 import clsx from 'clsx';
 import { useSongStore } from '../../store/useSongStore';
-import { getWheelColors, normalizeNote, formatChordForDisplay, getVoicingSuggestion, MAJOR_POSITIONS, CIRCLE_OF_FIFTHS } from '../../utils/musicTheory';
+import { getWheelColors, normalizeNote, formatChordForDisplay, getVoicingSuggestion, MAJOR_POSITIONS, CIRCLE_OF_FIFTHS, getParentMajorKey } from '../../utils/musicTheory';
 import { playChord } from '../../utils/audioEngine';
+import { getChordVoicing } from '../../utils/chordVoicing';
 
 interface ChordSlotProps {
     slot: IChordSlot;
@@ -136,7 +137,7 @@ export const ChordSlot: React.FC<ChordSlotProps> = ({ slot, sectionId, measureId
 
         // Play the chord
         if (slot.chord.notes && slot.chord.notes.length > 0) {
-            playChord(slot.chord.notes);
+            playChord(getChordVoicing(slot.chord));
         }
 
         // Open voicing picker
@@ -144,8 +145,7 @@ export const ChordSlot: React.FC<ChordSlotProps> = ({ slot, sectionId, measureId
         // Atomic open: avoids state dsync by setting everything in one go
         const inv = slot.chord.inversion ?? 0;
         const currentState = useSongStore.getState();
-        const selectedKey = currentState.selectedKey;
-        const keyIndex = CIRCLE_OF_FIFTHS.indexOf(selectedKey);
+        const keyIndex = CIRCLE_OF_FIFTHS.indexOf(getParentMajorKey(currentState.selectedKey, currentState.selectedMode));
 
         // Calculate voicing suggestions based on chord's relation to key
         let voicingSuggestion = '';
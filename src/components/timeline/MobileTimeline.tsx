@@ -1,4 +1,4 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { useSongStore } from '../../store/useSongStore';
 import { playChord } from '../../utils/audioEngine';
 import { Plus, Minus, ChevronLeft, ChevronRight, Map as MapIcon, Settings2, RotateCcw, RotateCw } from 'lucide-react';
@@ -7,6 +7,8 @@ import { useMobileLayout } from '../../hooks/useIsMobile';
 import { NoteValueSelector } from './NoteValueSelector';
 import { getSectionDisplayName, type Section } from '../../types';
 import { ChordSlot } from './ChordSlot';
+import { analyzeSong, type HarmonicFunction } from '../../utils/harmonicAnalysis';
+import { formatChordForDisplay, getKeyDisplayName } from '../../utils/musicTheory';
 import clsx from 'clsx';
 import {
     DndContext,
@@ -32,6 +34,16 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import { type Modifier } from '@dnd-kit/core';
 
+// Text colors for the analysis lane, by harmonic function
+const ANALYSIS_COLORS: Record<HarmonicFunction, string> = {
+    diatonic: 'text-text-secondary',
+    secondary: 'text-amber-400',
+    borrowed: 'text-violet-400',
+    neapolitan: 'text-pink-400',
+    augmentedSixth: 'text-pink-400',
+    chromatic: 'text-text-muted',
+};
+
 const restrictToHorizontalAxis: Modifier = ({ transform }) => ({
     ...transform,
     y: 0,
@@ -226,8 +238,16 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
         reorderSections,
         timelineZoom,
         setTimelineZoom,
+        analysisLaneVisible,
+        toggleAnalysisLane,
     } = useSongStore();
 
+    // Roman numeral analysis for every filled slot, only computed while the lane is shown
+    const analysis = useMemo(
+        () => analysisLaneVisible ? analyzeSong(currentSong) : {},
+        [analysisLaneVisible, currentSong]
+    );
+
     const songTimeSignature = currentSong.timeSignature;
 
     const scrollRef = useRef<HTMLDivElement>(null);
@@ -847,6 +867,16 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                             >
                                 <MapIcon size={14} />
                             </button>
+                            <button
+                                onClick={toggleAnalysisLane}
+                                className={clsx(
+                                    "no-touch-enlarge rounded touch-feedback flex items-center justify-center w-6 h-6 font-serif italic text-[10px]",
+                                    analysisLaneVisible ? "text-accent-primary" : "text-text-muted hover:text-accent-primary"
+                                )}
+                                title={analysisLaneVisible ? "Hide roman numeral analysis" : "Show roman numeral analysis"}
+                            >
+                                iv
+                            </button>
 
                             {/* Timeline Zoom Controls - Combined with Map in green area */}
                             <div className="flex items-center gap-1 border-l border-white/10 pl-1.5 h-4">
@@ -947,6 +977,17 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                             >
                                 <MapIcon size={isDesktop ? 18 : 16} />
                             </button>
+                            <button
+                                onClick={toggleAnalysisLane}
+                                className={clsx(
+                                    "no-touch-enlarge rounded touch-feedback shrink-0 font-serif italic leading-none",
+                                    isDesktop ? "p-2 text-sm" : "p-1.5 text-xs",
+                                    analysisLaneVisible ? "text-accent-primary" : "text-text-muted hover:text-accent-primary"
+                                )}
+                                title={analysisLaneVisible ? "Hide roman numeral analysis" : "Show roman numeral analysis"}
+                            >
+                                iv
+                            </button>
                             {/* Undo/Redo buttons */}
                             <div className="flex items-center gap-0.5 ml-1">
                                 <button
@@ -1131,6 +1172,14 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                                         <span className="text-[10px] font-bold text-text-primary uppercase tracking-wider opacity-90">
                                             {getSectionDisplayName(section, currentSong.sections)}
                                         </span>
+                                        {(section.key || section.tempo) && (
+                                            <span className="text-[9px] font-mono text-text-muted">
+                                                {[
+                                                    section.key && formatChordForDisplay(getKeyDisplayName(section.key, section.mode)),
+                                                    section.tempo && `♩=${section.tempo}`
+                                                ].filter(Boolean).join(' · ')}
+                                            </span>
+                                        )}
                                     </div>
                                 )}
 
@@ -1206,7 +1255,7 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                                                             : 1 + (1 - timelineZoom) * 0.7;
                                                         const zoomedHeight = Math.round(slotHeight * heightFactor);
 
-                                                        return (
+                                                        const slot = (
                                                             <ChordSlot
                                                                 key={beat.id}
                                                                 slot={beat}
@@ -1215,6 +1264,27 @@ export const MobileTimeline: React.FC<MobileTimelineProps> = ({ isOpen, onToggle
                                                                 width={zoomedWidth}
                                                             />
                                                         );
+
+                                                        if (!analysisLaneVisible) return slot;
+
+                                                        // Analysis lane: numeral under each slot
+                                                        const slotAnalysis = analysis[beat.id];
+                                                        return (
+                                                            <div key={beat.id} className="flex flex-col items-center gap-0.5 shrink-0">
+                                                                {slot}
+                                                                <span
+                                                                    className={clsx(
+                                                                        "font-serif italic leading-none truncate text-center h-3",
+                                                                        isDesktop ? "text-[10px]" : "text-[9px]",
+                                                                        slotAnalysis ? ANALYSIS_COLORS[slotAnalysis.function] : "text-transparent"
+                                                                    )}
+                                                                    style={{ width: zoomedWidth }}
+                                                                    title={slotAnalysis?.function}
+                                                                >
+                                                                    {slotAnalysis ? formatChordForDisplay(slotAnalysis.numeral) : '-'}
+                                                                </span>
+                                                            </div>
+                                                        );
                                                     })}
                                                 </div>
                                             </div>
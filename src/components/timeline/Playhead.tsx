@@ -1,6 +1,7 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import * as Tone from 'tone';
 import { useSongStore } from '../../store/useSongStore';
+import { buildSongTiming, secondsToBeats } from '../../utils/songTiming';
 
 interface PlayheadProps {
     scale: number;
@@ -8,7 +9,8 @@ interface PlayheadProps {
 }
 
 export const Playhead: React.FC<PlayheadProps> = ({ scale, chordSize }) => {
-    const { isPlaying, currentSong } = useSongStore();
+    const { isPlaying, currentSong, tempo } = useSongStore();
+    const timing = useMemo(() => buildSongTiming(currentSong, tempo), [currentSong, tempo]);
     const playheadRef = useRef<HTMLDivElement>(null);
     const frameRef = useRef<number>(0);
 
@@ -114,14 +116,9 @@ export const Playhead: React.FC<PlayheadProps> = ({ scale, chordSize }) => {
 
         const animate = () => {
             if (playheadRef.current) {
-                // Parse position: "0:0:0"
-                const position = Tone.Transport.position.toString().split(':');
-                const bars = parseFloat(position[0]);
-                const quarters = parseFloat(position[1]);
-                const sixteenths = parseFloat(position[2]);
-
-                // Current song time in beats
-                const currentBeats = (bars * 4) + quarters + (sixteenths / 4);
+                // Current song time in beats. Transport bars:beats assume 4/4, so go through
+                // seconds and the song timing (time signatures, section tempos) instead
+                const currentBeats = secondsToBeats(timing, Tone.Transport.seconds);
 
                 const pixelOffset = calculatePixelOffset(currentBeats);
 
@@ -135,7 +132,7 @@ export const Playhead: React.FC<PlayheadProps> = ({ scale, chordSize }) => {
         return () => {
             if (frameRef.current) cancelAnimationFrame(frameRef.current);
         };
-    }, [isPlaying, beatUnitWidth, currentSong]);
+    }, [isPlaying, beatUnitWidth, currentSong, timing]);
 
     if (!isPlaying) return null;
 
@@ -1,6 +1,7 @@
 import React, { useRef, useEffect } from 'react';
 import { getSectionDisplayName, type Section as ISection } from '../../types';
 import { Measure } from './Measure';
+import { formatChordForDisplay, getKeyDisplayName } from '../../utils/musicTheory';
 import { useSongStore } from '../../store/useSongStore';
 import { Trash2, Copy, GripVertical, ChevronUp, ChevronDown, Plus, Minus } from 'lucide-react';
 import { useSortable } from '@dnd-kit/sortable';
@@ -214,6 +215,19 @@ export const Section: React.FC<SectionProps> = ({ section, chordSize = 48, scale
                             ))}
                         </select>
                     </div>
+
+                    {/* Key/tempo overrides set from the section options */}
+                    {(section.key || section.tempo) && (
+                        <div
+                            className={clsx(
+                                "flex items-center text-text-secondary bg-bg-tertiary/70 border border-border-subtle rounded font-mono",
+                                compactHeader ? "gap-1 text-[8px] px-0.5 py-0" : "gap-1.5 text-[10px] px-1.5 py-0.5"
+                            )}
+                        >
+                            {section.key && <span title="Section key">{formatChordForDisplay(getKeyDisplayName(section.key, section.mode))}</span>}
+                            {section.tempo && <span title="Section tempo">♩={section.tempo}</span>}
+                        </div>
+                    )}
                 </div>
 
                 {/* Icons - always visible in all views */}
@@ -1,6 +1,6 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { Copy, Eraser, Trash2, X, ChevronLeft, ChevronRight, ArrowLeft, ArrowRight, Map } from 'lucide-react';
+import { Copy, Eraser, Trash2, X, ChevronLeft, ChevronRight, ArrowLeft, ArrowRight, Map, Spline } from 'lucide-react';
 import clsx from 'clsx';
 import type { Section } from '../../types';
 import { NoteIcon, getNoteType, getStepOptions } from './NoteValueSelector';
@@ -8,6 +8,14 @@ import { SectionOverview } from './SectionOverview';
 import { SongTimeline } from './SongTimeline';
 import { useSongStore } from '../../store/useSongStore';
 import { useMobileLayout } from '../../hooks/useIsMobile';
+import {
+    CIRCLE_OF_FIFTHS,
+    formatChordForDisplay,
+    getKeyDisplayName,
+    getTonicForParentKey,
+    type KeyMode
+} from '../../utils/musicTheory';
+import { RHYTHM_PATTERNS, getRhythmPatternLabel, type RhythmPatternId } from '../../utils/rhythmPatterns';
 
 interface SectionOptionsPopupProps {
     section: Section;
@@ -45,6 +53,14 @@ const TIME_SIGNATURE_OPTIONS: [number, number][] = [
     [6, 8],
 ];
 
+// Key overrides offered per section: every major and minor key on the wheel
+const SECTION_KEY_OPTIONS: { key: string; mode: KeyMode }[] = (['ionian', 'aeolian'] as KeyMode[]).flatMap(mode =>
+    CIRCLE_OF_FIFTHS.map(parentKey => ({ key: getTonicForParentKey(parentKey, mode), mode }))
+);
+
+const MIN_SECTION_TEMPO = 40;
+const MAX_SECTION_TEMPO = 240;
+
 const SECTION_NAME_OPTIONS: { name: string; type: Section['type'] }[] = [
     { name: 'Intro', type: 'intro' },
     { name: 'Verse', type: 'verse' },
@@ -83,7 +99,7 @@ export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
     onNavigateToSection,
 }) => {
     const popupRef = useRef<HTMLDivElement>(null);
-    const { currentSong, reorderSections, addSuggestedSection, toggleSongMap } = useSongStore();
+    const { currentSong, reorderSections, addSuggestedSection, toggleSongMap, transpose, updateSection, autoVoiceSection } = useSongStore();
     const { isMobile, isLandscape } = useMobileLayout();
     const sectionTimeSignature = section.timeSignature || songTimeSignature;
     const signatureValue = `${sectionTimeSignature[0]}/${sectionTimeSignature[1]}`;
@@ -93,6 +109,36 @@ export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
     const currentStepCount = section.measures[0]?.beats.length ?? 1;
     const stepOptions = getStepOptions(sectionTimeSignature);
 
+    // Key override: keep a modal section key selectable even though the list only offers major/minor
+    const sectionKeyValue = section.key ? `${section.key}:${section.mode ?? 'ionian'}` : '';
+    const keyOptions = section.key && !SECTION_KEY_OPTIONS.some(o => `${o.key}:${o.mode}` === sectionKeyValue)
+        ? [{ key: section.key, mode: section.mode ?? 'ionian' }, ...SECTION_KEY_OPTIONS]
+        : SECTION_KEY_OPTIONS;
+
+    // Tempo override is edited as a draft and committed on blur/Enter; empty follows the song tempo
+    const [tempoDraft, setTempoDraft] = useState<string | null>(null);
+    const tempoInput = tempoDraft ?? section.tempo?.toString() ?? '';
+
+    const handleKeyOverrideChange = (value: string) => {
+        if (!value) {
+            updateSection(section.id, { key: undefined, mode: undefined });
+            return;
+        }
+        const [key, mode] = value.split(':');
+        updateSection(section.id, { key, mode: mode as KeyMode });
+    };
+
+    const commitTempoOverride = () => {
+        const bpm = parseInt(tempoInput, 10);
+        setTempoDraft(null);
+        if (isNaN(bpm)) {
+            if (section.tempo !== undefined) updateSection(section.id, { tempo: undefined });
+            return;
+        }
+        const clamped = Math.max(MIN_SECTION_TEMPO, Math.min(MAX_SECTION_TEMPO, bpm));
+        if (clamped !== section.tempo) updateSection(section.id, { tempo: clamped });
+    };
+
     // Close on Escape key
     useEffect(() => {
         if (!isOpen) return;
@@ -355,6 +401,155 @@ export const SectionOptionsPopup: React.FC<SectionOptionsPopupProps> = ({
                             </div>
                         </div>
 
+                        {/* Key & Tempo overrides (key-change choruses, half-time bridges) */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                    Key
+                                </label>
+                                <div className="relative">
+                                    <select
+                                        value={sectionKeyValue}
+                                        onChange={(e) => handleKeyOverrideChange(e.target.value)}
+                                        className="w-full h-8 bg-bg-tertiary text-text-primary text-xs font-bold rounded-lg 
+                                                px-3 border border-border-subtle 
+                                                focus:outline-none focus:ring-1 focus:ring-accent-primary/50
+                                                appearance-none cursor-pointer"
+                                        style={{
+                                            backgroundImage: 'url("data:image/svg+xml,%3Csvg xmlns=\'http://www.w3.org/2000/svg\' width=\'12\' height=\'12\' viewBox=\'0 0 24 24\' fill=\'none\' stroke=\'%239ca3af\' stroke-width=\'2\'%3E%3Cpath d=\'M6 9l6 6 6-6\'/%3E%3C/svg%3E")',
+                                            backgroundRepeat: 'no-repeat',
+                                            backgroundPosition: 'right 8px center',
+                                            paddingRight: '24px'
+                                        }}
+                                    >
+                                        <option value="" className="bg-bg-secondary">
+                                            Song ({formatChordForDisplay(getKeyDisplayName(currentSong.key, currentSong.mode))})
+                                        </option>
+                                        {keyOptions.map(({ key, mode }) => (
+                                            <option key={`${key}:${mode}`} value={`${key}:${mode}`} className="bg-bg-secondary">
+                                                {formatChordForDisplay(getKeyDisplayName(key, mode))}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                    Tempo
+                                </label>
+                                <input
+                                    type="number"
+                                    inputMode="numeric"
+                                    value={tempoInput}
+                                    placeholder={`${currentSong.tempo}`}
+                                    onChange={(e) => setTempoDraft(e.target.value)}
+                                    onBlur={commitTempoOverride}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                                    }}
+                                    min={MIN_SECTION_TEMPO}
+                                    max={MAX_SECTION_TEMPO}
+                                    title="Section tempo in BPM (leave empty to follow the song tempo)"
+                                    className="w-full h-8 bg-bg-tertiary text-text-primary text-xs font-bold rounded-lg
+                                            px-3 border border-border-subtle text-center tabular-nums
+                                            placeholder:text-text-muted/50
+                                            focus:outline-none focus:ring-1 focus:ring-accent-primary/50"
+                                />
+                            </div>
+                        </div>
+
+                        {/* Rhythm pattern override (e.g. arpeggiated verse, strummed chorus) and drum mute */}
+                        <div className="space-y-1.5">
+                            <div className="flex items-center justify-between">
+                                <label className="text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                    Rhythm
+                                </label>
+                                <button
+                                    onClick={() => updateSection(section.id, { drums: section.drums === false ? undefined : false })}
+                                    className={clsx(
+                                        "px-2 h-5 rounded text-[9px] font-bold uppercase tracking-wider transition-colors",
+                                        section.drums === false
+                                            ? "bg-bg-tertiary text-text-muted"
+                                            : "bg-accent-primary/15 text-accent-primary"
+                                    )}
+                                    title={section.drums === false ? "Drums are muted in this section" : "Drums play in this section (when a groove is on)"}
+                                >
+                                    Drums {section.drums === false ? 'Off' : 'On'}
+                                </button>
+                            </div>
+                            <select
+                                value={section.rhythmPattern ?? ''}
+                                onChange={(e) => updateSection(section.id, {
+                                    rhythmPattern: (e.target.value || undefined) as RhythmPatternId | undefined
+                                })}
+                                className="w-full h-8 bg-bg-tertiary text-text-primary text-xs font-bold rounded-lg 
+                                        px-3 border border-border-subtle 
+                                        focus:outline-none focus:ring-1 focus:ring-accent-primary/50
+                                        appearance-none cursor-pointer"
+                                style={{
+                                    backgroundImage: 'url("data:image/svg+xml,%3Csvg xmlns=\'http://www.w3.org/2000/svg\' width=\'12\' height=\'12\' viewBox=\'0 0 24 24\' fill=\'none\' stroke=\'%239ca3af\' stroke-width=\'2\'%3E%3Cpath d=\'M6 9l6 6 6-6\'/%3E%3C/svg%3E")',
+                                    backgroundRepeat: 'no-repeat',
+                                    backgroundPosition: 'right 8px center',
+                                    paddingRight: '24px'
+                                }}
+                            >
+                                <option value="" className="bg-bg-secondary">
+                                    Song ({getRhythmPatternLabel(currentSong.rhythmPattern ?? 'block')})
+                                </option>
+                                {RHYTHM_PATTERNS.map(({ value, label }) => (
+                                    <option key={value} value={value} className="bg-bg-secondary">
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {/* Transpose section chords by a semitone */}
+                        <div className="space-y-1.5">
+                            <label className="block text-center text-[10px] font-bold text-text-muted uppercase tracking-wider">
+                                Transpose Chords
+                            </label>
+                            <div className="flex items-center gap-1 justify-center">
+                                <button
+                                    onClick={() => transpose({ semitones: -1 }, { sectionId: section.id })}
+                                    className="h-8 w-8 flex items-center justify-center rounded-lg
+                                            bg-bg-tertiary border border-border-subtle
+                                            text-text-muted hover:text-text-primary hover:bg-bg-secondary
+                                            transition-all text-base font-bold active:scale-95"
+                                    title="Transpose down a semitone"
+                                >
+                                    ♭
+                                </button>
+                                <span className="px-2 text-center text-[10px] text-text-muted">
+                                    ½ step
+                                </span>
+                                <button
+                                    onClick={() => transpose({ semitones: 1 }, { sectionId: section.id })}
+                                    className="h-8 w-8 flex items-center justify-center rounded-lg
+                                            bg-bg-tertiary border border-border-subtle
+                                            text-text-muted hover:text-text-primary hover:bg-bg-secondary
+                                            transition-all text-base font-bold active:scale-95"
+                                    title="Transpose up a semitone"
+                                >
+                                    ♯
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Write smooth inversions into the section's chords */}
+                        <button
+                            onClick={() => autoVoiceSection(section.id)}
+                            className="w-full h-8 flex items-center justify-center gap-1.5 rounded-lg
+                                    bg-bg-tertiary border border-border-subtle
+                                    text-text-muted hover:text-text-primary hover:bg-bg-secondary
+                                    transition-all text-[10px] font-bold uppercase tracking-wider active:scale-95"
+                            title="Pick each chord's inversion for the least movement from the chord before (uses the voice-leading range)"
+                        >
+                            <Spline size={12} />
+                            Auto-voice Chords
+                        </button>
+
                         {/* Step Count (Note Values) */}
                         {onStepCountChange && (
                             <div className="space-y-1.5">
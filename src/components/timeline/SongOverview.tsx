@@ -21,10 +21,11 @@ import {
     FileAudio
 } from 'lucide-react';
 import clsx from 'clsx';
-import { getWheelColors, formatChordForDisplay, type Chord } from '../../utils/musicTheory';
+import { getWheelColors, formatChordForDisplay, getKeyDisplayName, type Chord } from '../../utils/musicTheory';
 import { PianoKeyboard } from '../panel/PianoKeyboard';
 import { GuitarChord } from '../panel/GuitarChord';
-import { playChord, playNote } from '../../utils/audioEngine';
+import { playChord, playNote, playFromSlot } from '../../utils/audioEngine';
+import { getChordVoicing } from '../../utils/chordVoicing';
 // PlaybackControls removed as we use custom controls
 import {
     DndContext,
@@ -45,6 +46,7 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { getSectionDisplayName, type Section } from '../../types';
+import { buildSongTiming, formatDuration } from '../../utils/songTiming';
 import { SongTimeline } from './SongTimeline';
 import { SectionOptionsPopup } from './SectionOptionsPopup';
 import { ExportModal } from '../ExportModal';
@@ -171,6 +173,7 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
     const theme = SECTION_THEMES[section.type] || DEFAULT_THEME;
     const measures = section.measures;
     const displayName = getSectionDisplayName(section, allSections);
+    const hasOverrides = Boolean(section.key || section.tempo);
 
     // Calculate width based on compact mode. BASE_MEASURE_WIDTH is 60.
     const zoomLevel = measureWidth / 60;
@@ -257,9 +260,20 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
                         {displayName}
                     </span>
                 </div>
-                {measureWidth >= 70 && (
+                {(measureWidth >= 70 || (hasOverrides && sectionWidth >= 120)) && (
                     <div className="flex items-center gap-2 text-[10px] font-mono opacity-80 mr-6">
-                        <span>{measures.length} bars</span>
+                        {/* Section key/tempo overrides */}
+                        {section.key && (
+                            <span className="px-1 rounded bg-black/20" title="Section key">
+                                {formatChordForDisplay(getKeyDisplayName(section.key, section.mode))}
+                            </span>
+                        )}
+                        {section.tempo && (
+                            <span className="px-1 rounded bg-black/20" title="Section tempo">
+                                ♩={section.tempo}
+                            </span>
+                        )}
+                        {measureWidth >= 70 && <span>{measures.length} bars</span>}
                     </div>
                 )}
             </div>
@@ -322,7 +336,11 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
                                                 onEmptySlotTap(section.id, firstEmptyBeat.id);
                                             }
                                         }}
-                                        title={isPlayingMeasure ? "Perform empty measures" : "Tap to select this slot"}
+                                        onDoubleClick={(e) => {
+                                            e.stopPropagation();
+                                            if (firstEmptyBeat) playFromSlot(firstEmptyBeat.id);
+                                        }}
+                                        title={isPlayingMeasure ? "Perform empty measures" : "Tap to select this slot, double-tap to play from here"}
                                     >
                                         <span className={clsx("text-[10px]", isPlayingMeasure ? "opacity-0" : "text-white/20")}>
                                             +
@@ -348,6 +366,10 @@ const SortableSection = ({ section, allSections, onSelectBeat, onBeatTap, onEmpt
                                                     e.stopPropagation();
                                                     onBeatTap(section.id, beat.id, beat.chord);
                                                 }}
+                                                onDoubleClick={(e) => {
+                                                    e.stopPropagation();
+                                                    playFromSlot(beat.id);
+                                                }}
                                                 className={clsx(
                                                     "flex-1 min-w-0 rounded-sm flex items-center justify-center font-bold shadow-sm truncate transition-all cursor-pointer",
                                                     isPlayingBeat
@@ -427,7 +449,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                     }}
                     onClick={() => {
                         if (displayChord.notes) {
-                            playChord(displayChord.notes);
+                            playChord(getChordVoicing(displayChord));
                         }
                     }}
                 >
@@ -468,7 +490,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                         className="flex flex-col items-center cursor-pointer group shrink-0"
                         onClick={() => {
                             if (displayChord.notes) {
-                                playChord(displayChord.notes);
+                                playChord(getChordVoicing(displayChord));
                             }
                         }}
                     >
@@ -523,7 +545,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                         className="flex flex-col items-center cursor-pointer group shrink-0"
                         onClick={() => {
                             if (displayChord.notes) {
-                                playChord(displayChord.notes);
+                                playChord(getChordVoicing(displayChord));
                             }
                         }}
                     >
@@ -557,7 +579,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                     className="flex flex-col items-center cursor-pointer group"
                     onClick={() => {
                         if (displayChord.notes) {
-                            playChord(displayChord.notes);
+                            playChord(getChordVoicing(displayChord));
                         }
                     }}
                 >
@@ -612,7 +634,7 @@ const ChordDetailPanel: React.FC<ChordDetailPanelProps> = ({
                     className="flex flex-col items-center cursor-pointer group shrink-0"
                     onClick={() => {
                         if (displayChord.notes) {
-                            playChord(displayChord.notes);
+                            playChord(getChordVoicing(displayChord));
                         }
                     }}
                 >
@@ -786,16 +808,8 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
     const chordColors = getWheelColors();
     const totalMeasures = currentSong.sections.reduce((acc: number, s: Section) => acc + s.measures.length, 0);
 
-    // Calculate song duration from total beats and tempo
-    const totalBeats = currentSong.sections.reduce((acc: number, section: Section) => {
-        const sectionTimeSignature = section.timeSignature || currentSong.timeSignature;
-        const beatsPerMeasure = sectionTimeSignature[0];
-        return acc + (section.measures.length * beatsPerMeasure);
-    }, 0);
-    const durationSeconds = (totalBeats / tempo) * 60;
-    const durationMinutes = Math.floor(durationSeconds / 60);
-    const durationRemainingSeconds = Math.floor(durationSeconds % 60);
-    const formattedDuration = `${durationMinutes}:${durationRemainingSeconds.toString().padStart(2, '0')}`;
+    // Song duration from the song timing (time signatures and section tempos)
+    const formattedDuration = formatDuration(buildSongTiming(currentSong, tempo).totalSeconds);
     const measureWidth = BASE_MEASURE_WIDTH * zoomLevel;
 
     // Zoom handlers
@@ -1311,7 +1325,7 @@ export const SongOverview: React.FC<SongOverviewProps> = ({ onSave, onExport })
                                                 setDisplayChord(chord);
                                                 // Play the chord preview
                                                 if (chord?.notes) {
-                                                    playChord(chord.notes);
+                                                    playChord(getChordVoicing(chord));
                                                 }
                                             }
                                         }}
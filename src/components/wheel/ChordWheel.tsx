@@ -11,6 +11,15 @@ import {
     getChordSymbolWithInversion,
     getVoicingSuggestion,
     invertChord,
+    getParentMajorKey,
+    getTonicForParentKey,
+    getDiatonicChords,
+    getChordNumeral,
+    getKeyDisplayName,
+    getScaleDisplayName,
+    isChordInScale,
+    KEY_MODES,
+    normalizeNote,
     type Chord
 } from '../../utils/musicTheory';
 import { WheelSegment } from './WheelSegment';
@@ -57,9 +66,11 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
 }) => {
     const {
         selectedKey,
+        selectedMode,
         setKey,
         wheelRotation,
         wheelMode,
+        scaleOverlay,
         rotateWheel,
         toggleWheelMode,
         addChordToSlot,
@@ -86,7 +97,9 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
     // In rotating mode, the wheel rotates to put the selected key at top
     // When rotationOffset is provided, we override this behavior to put the key
     // at a specific clock position (e.g., 90 = 3 o'clock for portrait panel centering)
-    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(selectedKey);
+    // Modal keys sit on their parent major position (A minor and D dorian both use C)
+    const parentKey = getParentMajorKey(selectedKey, selectedMode);
+    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(parentKey);
     const keyRotation = -(keyIndex * 30); // Rotation needed to put selected key at 12 o'clock
 
     let effectiveRotation: number;
@@ -226,14 +239,15 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
     // Handle drag to rotate wheel
     const handleRotate = useCallback((direction: 'cw' | 'ccw') => {
         // Task 35: Use cumulative rotation to avoid wrap-around animation
-        const currentIndex = CIRCLE_OF_FIFTHS.indexOf(selectedKey);
+        const currentIndex = CIRCLE_OF_FIFTHS.indexOf(getParentMajorKey(selectedKey, selectedMode));
         const newIndex = direction === 'cw'
             ? (currentIndex + 1) % 12
             : (currentIndex - 1 + 12) % 12;
 
-        setKey(CIRCLE_OF_FIFTHS[newIndex], { skipRotation: true });
+        // Keep the mode and move the tonic along with its parent position
+        setKey(getTonicForParentKey(CIRCLE_OF_FIFTHS[newIndex], selectedMode), { skipRotation: true });
         rotateWheel(direction);  // Update cumulative rotation
-    }, [selectedKey, setKey, rotateWheel]);
+    }, [selectedKey, selectedMode, setKey, rotateWheel]);
 
     // Track touch/drag state
     const dragStartPos = useRef<{ x: number; y: number } | null>(null);
@@ -535,7 +549,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
     const dimOuterRadius = 250;
 
     // Key signature info
-    const keySig = useMemo(() => getKeySignature(selectedKey), [selectedKey]);
+    const keySig = useMemo(() => getKeySignature(parentKey), [parentKey]);
     const keySigDisplay = useMemo(() => {
         if (keySig.sharps > 0) return `${keySig.sharps}♯`;
         if (keySig.flats > 0) return `${keySig.flats}♭`;
@@ -569,7 +583,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                 relPos,
                 wheelChord.ringType === 'major' ? 'major' :
                     wheelChord.ringType === 'minor' ?
-                        (wheelChord.numeral === 'ii' || wheelChord.numeral === 'vi' ? 'ii' : 'iii') :
+                        (wheelChord.segmentId.startsWith('ii-') ? 'ii' : 'iii') :
                         'dim'
             );
         }
@@ -627,7 +641,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                 relPos,
                 wheelChord.ringType === 'major' ? 'major' :
                     wheelChord.ringType === 'minor' ?
-                        (wheelChord.numeral === 'ii' || wheelChord.numeral === 'vi' ? 'ii' : 'iii') :
+                        (wheelChord.segmentId.startsWith('ii-') ? 'ii' : 'iii') :
                         'dim'
             );
         }
@@ -662,65 +676,64 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
         return (posIndex - keyIndex + 12) % 12;
     };
 
+    // Chords diatonic to the current key center (tonic + mode)
+    const diatonicChords = useMemo(
+        () => getDiatonicChords(selectedKey, selectedMode),
+        [selectedKey, selectedMode]
+    );
+
+    const getSegmentChord = (posIndex: number, type: 'major' | 'ii' | 'iii' | 'dim') => {
+        const position = MAJOR_POSITIONS[posIndex];
+        if (type === 'major') return { root: position.major, quality: 'major' };
+        if (type === 'ii') return { root: position.ii.replace('m', ''), quality: 'minor' };
+        if (type === 'iii') return { root: position.iii.replace('m', ''), quality: 'minor' };
+        return { root: position.diminished.replace('°', ''), quality: 'diminished' };
+    };
+
+    const isInKey = (posIndex: number, type: 'major' | 'ii' | 'iii' | 'dim'): boolean => {
+        const { root, quality } = getSegmentChord(posIndex, type);
+        return diatonicChords.some(c =>
+            normalizeNote(c.root) === normalizeNote(root) && c.quality === quality
+        );
+    };
+
     // Primary diatonic chords (full highlight)
     const isPositionDiatonic = (posIndex: number, type: 'major' | 'ii' | 'iii' | 'dim'): boolean => {
-        const relPos = getRelativePosition(posIndex);
-
-        if (type === 'major') {
-            // I (relPos 0), IV (relPos 11), V (relPos 1)
-            return relPos === 0 || relPos === 1 || relPos === 11;
-        }
-        if (type === 'ii') {
-            // ii is at I position (relPos 0), left slot
-            return relPos === 0;
-        }
-        if (type === 'iii') {
-            // iii is at I position (relPos 0), right slot
-            return relPos === 0;
-        }
-        if (type === 'dim') {
-            // vii° is at I position (relPos 0)
-            return relPos === 0;
+        // A scale overlay highlights every chord made of scale tones, both minor-ring copies included
+        if (scaleOverlay) {
+            const { root, quality } = getSegmentChord(posIndex, type);
+            return isChordInScale(root, quality, scaleOverlay.tonic, scaleOverlay.scale);
         }
-        return false;
-    };
 
-    // vi chord is the ii (left slot) of the V position
-    const isViPosition = (posIndex: number): boolean => {
         const relPos = getRelativePosition(posIndex);
-        return relPos === 1; // V position's left slot = vi
+
+        // Every minor chord appears twice on the minor ring; only the copies next to
+        // the parent position (relPos 0 and 1) belong to the highlighted triangle
+        if ((type === 'ii' || type === 'iii') && relPos !== 0 && relPos !== 1) {
+            return false;
+        }
+        return isInKey(posIndex, type);
     };
 
-    // Secondary dominants (half highlight) - II (V/V) and III (V/vi)
+    // Secondary dominants (half highlight) - II (V/V) and III (V/vi) of the parent major
     const isSecondaryDominant = (posIndex: number): boolean => {
+        if (scaleOverlay) return false;
         const relPos = getRelativePosition(posIndex);
         // II is at relPos 2 (V/V - two fifths from I)
         // III is at relPos 4 (V/vi - four fifths from I, which is E for key of C)
-        return relPos === 2 || relPos === 4;
+        return (relPos === 2 || relPos === 4) && !isInKey(posIndex, 'major');
     };
 
-    // Get roman numeral for a diatonic position
+    // Get roman numeral for a diatonic or secondary position, relative to the tonic
     const getRomanNumeral = (posIndex: number, type: 'major' | 'ii' | 'iii' | 'dim'): string => {
-        const relPos = getRelativePosition(posIndex);
-
-        if (type === 'major') {
-            if (relPos === 0) return 'I';
-            if (relPos === 1) return 'V';
-            if (relPos === 11) return 'IV';
-            if (relPos === 2) return 'II';  // Secondary dominant V/V
-            if (relPos === 4) return 'III'; // Secondary dominant V/vi
-        }
-        if (type === 'ii') {
-            if (relPos === 0) return 'ii';
-            if (relPos === 1) return 'vi'; // ii of V = vi of I
-        }
-        if (type === 'iii') {
-            if (relPos === 0) return 'iii';
-        }
-        if (type === 'dim') {
-            if (relPos === 0) return 'vii°';
-        }
-        return '';
+        const isHighlighted = isPositionDiatonic(posIndex, type)
+            || (type === 'major' && isSecondaryDominant(posIndex));
+        if (!isHighlighted) return '';
+
+        const { root, quality } = getSegmentChord(posIndex, type);
+        return scaleOverlay
+            ? getChordNumeral(root, quality, scaleOverlay.tonic)
+            : getChordNumeral(root, quality, selectedKey, selectedMode);
     };
 
     // Get voicing suggestions for diatonic chords (matching physical wheel)
@@ -913,7 +926,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                             const majorIsDiatonic = isPositionDiatonic(i, 'major');
                             const majorIsSecondary = isSecondaryDominant(i);
                             // ii slot: diatonic if at I position (as ii) OR at V position (as vi)
-                            const iiIsDiatonic = isPositionDiatonic(i, 'ii') || isViPosition(i);
+                            const iiIsDiatonic = isPositionDiatonic(i, 'ii');
                             const iiiIsDiatonic = isPositionDiatonic(i, 'iii');
                             const dimIsDiatonic = isPositionDiatonic(i, 'dim');
 
@@ -1003,7 +1016,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         ringType="major"
                                         wheelRotation={effectiveRotation}
                                         romanNumeral={(majorIsDiatonic || majorIsSecondary) ? getRomanNumeral(i, 'major') : undefined}
-                                        voicingSuggestion={(majorIsDiatonic || majorIsSecondary) ? getVoicingSuggestion(getRelativePosition(i), 'major') : undefined}
+                                        voicingSuggestion={(majorIsDiatonic || majorIsSecondary) && !scaleOverlay ? getVoicingSuggestion(getRelativePosition(i), 'major') : undefined}
                                         segmentId={`major-${i}`}
                                         onHover={handleSegmentHover}
                                     />
@@ -1026,7 +1039,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         ringType="minor"
                                         wheelRotation={effectiveRotation}
                                         romanNumeral={iiIsDiatonic ? getRomanNumeral(i, 'ii') : undefined}
-                                        voicingSuggestion={iiIsDiatonic ? getVoicingSuggestion(getRelativePosition(i), 'ii') : undefined}
+                                        voicingSuggestion={iiIsDiatonic && !scaleOverlay ? getVoicingSuggestion(getRelativePosition(i), 'ii') : undefined}
                                         segmentId={`ii-${i}`}
                                         onHover={handleSegmentHover}
                                     />
@@ -1049,7 +1062,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         ringType="minor"
                                         wheelRotation={effectiveRotation}
                                         romanNumeral={iiiIsDiatonic ? getRomanNumeral(i, 'iii') : undefined}
-                                        voicingSuggestion={iiiIsDiatonic ? getVoicingSuggestion(getRelativePosition(i), 'iii') : undefined}
+                                        voicingSuggestion={iiiIsDiatonic && !scaleOverlay ? getVoicingSuggestion(getRelativePosition(i), 'iii') : undefined}
                                         segmentId={`iii-${i}`}
                                         onHover={handleSegmentHover}
                                     />
@@ -1072,7 +1085,7 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
                                         ringType="diminished"
                                         wheelRotation={effectiveRotation}
                                         romanNumeral={dimIsDiatonic ? getRomanNumeral(i, 'dim') : undefined}
-                                        voicingSuggestion={dimIsDiatonic ? getVoicingSuggestion(getRelativePosition(i), 'dim') : undefined}
+                                        voicingSuggestion={dimIsDiatonic && !scaleOverlay ? getVoicingSuggestion(getRelativePosition(i), 'dim') : undefined}
                                         segmentId={`dim-${i}`}
                                         onHover={handleSegmentHover}
                                     />
@@ -1109,13 +1122,20 @@ export const ChordWheel: React.FC<ChordWheelProps> = ({
 
                     {/* Key Name */}
                     <text x={cx} y={cy + 3} textAnchor="middle" fill="white" fontSize="26" fontWeight="bold" style={{ pointerEvents: 'none' }}>
-                        {formatChordForDisplay(selectedKey)}
+                        {formatChordForDisplay(getKeyDisplayName(selectedKey, selectedMode === 'aeolian' ? 'aeolian' : 'ionian'))}
                     </text>
 
-                    {/* Key Signature */}
-                    <text x={cx} y={cy + 21} textAnchor="middle" fill="#9898a6" fontSize="11" style={{ pointerEvents: 'none' }}>
-                        {keySigDisplay || 'No ♯/♭'}
-                    </text>
+                    {/* Key Signature (plus mode name for modal keys), or the scale shown over the wheel */}
+                    {scaleOverlay ? (
+                        <text x={cx} y={cy + 21} textAnchor="middle" fill="#6366f1" fontSize="10" fontWeight="bold" style={{ pointerEvents: 'none' }}>
+                            {formatChordForDisplay(getScaleDisplayName(scaleOverlay.tonic, scaleOverlay.scale))}
+                        </text>
+                    ) : (
+                        <text x={cx} y={cy + 21} textAnchor="middle" fill="#9898a6" fontSize="11" style={{ pointerEvents: 'none' }}>
+                            {selectedMode !== 'ionian' && selectedMode !== 'aeolian' && `${KEY_MODES[selectedMode].name} · `}
+                            {keySigDisplay || 'No ♯/♭'}
+                        </text>
+                    )}
 
                     {/* Rotation Controls - larger on mobile */}
                     <g
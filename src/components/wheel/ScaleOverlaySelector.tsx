@@ -0,0 +1,155 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clsx } from 'clsx';
+import { Layers, X } from 'lucide-react';
+import { useSongStore } from '../../store/useSongStore';
+import {
+    CIRCLE_OF_FIFTHS,
+    SCALES,
+    SCALE_FAMILY_NAMES,
+    formatChordForDisplay,
+    getPitchClass,
+    getScaleChords,
+    getScaleDisplayName,
+    getScaleNotes,
+    type ScaleFamily,
+    type ScaleId
+} from '../../utils/musicTheory';
+
+// Tonics in chromatic order, spelled as the wheel spells its keys
+const TONICS = [...CIRCLE_OF_FIFTHS].sort((a, b) => getPitchClass(a) - getPitchClass(b));
+
+const SCALE_IDS = Object.keys(SCALES) as ScaleId[];
+const FAMILIES = Object.keys(SCALE_FAMILY_NAMES) as ScaleFamily[];
+
+/**
+ * Picks a scale to lay over the wheel: chords made of its tones light up in place of
+ * the key's. Picking a tonic or scale turns the overlay on, starting from the key center.
+ */
+export const ScaleOverlaySelector: React.FC = () => {
+    const { selectedKey, selectedMode, scaleOverlay, setScaleOverlay } = useSongStore();
+    const tonic = scaleOverlay?.tonic ?? selectedKey;
+    const scale = scaleOverlay?.scale ?? selectedMode;
+
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const chords = getScaleChords(tonic, scale);
+
+    return (
+        <div ref={containerRef} className="relative">
+            <div
+                className={clsx(
+                    'flex items-center h-8 rounded-full border backdrop-blur-sm transition-colors',
+                    scaleOverlay
+                        ? 'bg-accent-primary/20 border-accent-primary/60'
+                        : 'bg-bg-secondary/60 border-border-subtle/40'
+                )}
+            >
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className={clsx(
+                        'no-touch-enlarge flex items-center gap-1.5 h-full pl-3 text-[10px] font-medium transition-colors',
+                        scaleOverlay ? 'pr-1 text-text-primary' : 'pr-3 text-text-muted hover:text-text-primary'
+                    )}
+                    title="Show a scale's chords on the wheel"
+                >
+                    <Layers size={14} />
+                    <span>{scaleOverlay ? formatChordForDisplay(getScaleDisplayName(tonic, scale)) : 'Scales'}</span>
+                </button>
+                {scaleOverlay && (
+                    <button
+                        onClick={() => setScaleOverlay(null)}
+                        className="no-touch-enlarge w-6 h-6 mr-1 flex items-center justify-center rounded-full text-text-muted hover:text-text-primary hover:bg-bg-tertiary transition-colors"
+                        title="Back to the key"
+                    >
+                        <X size={12} />
+                    </button>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="absolute top-full right-0 mt-1 w-64 p-3 space-y-3 bg-bg-elevated border border-border-subtle rounded-xl shadow-2xl z-50">
+                    {/* Tonic */}
+                    <div className="space-y-1">
+                        <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Tonic</div>
+                        <div className="grid grid-cols-6 gap-1">
+                            {TONICS.map(note => (
+                                <button
+                                    key={note}
+                                    onClick={() => setScaleOverlay({ tonic: note, scale })}
+                                    className={clsx(
+                                        'h-6 rounded text-[10px] font-bold transition-colors',
+                                        scaleOverlay && getPitchClass(tonic) === getPitchClass(note)
+                                            ? 'bg-accent-primary text-white'
+                                            : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                    )}
+                                >
+                                    {formatChordForDisplay(note)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Scale, by family */}
+                    <div className="space-y-2 max-h-56 overflow-y-auto pr-1">
+                        {FAMILIES.map(family => (
+                            <div key={family} className="space-y-1">
+                                <div className="text-[10px] font-bold text-text-muted uppercase tracking-wider">{SCALE_FAMILY_NAMES[family]}</div>
+                                <div className="grid grid-cols-2 gap-1">
+                                    {SCALE_IDS.filter(id => SCALES[id].family === family).map(id => (
+                                        <button
+                                            key={id}
+                                            onClick={() => setScaleOverlay({ tonic, scale: id })}
+                                            className={clsx(
+                                                'h-6 px-1 rounded text-[9px] font-bold truncate transition-colors',
+                                                scaleOverlay && scale === id
+                                                    ? 'bg-accent-primary text-white'
+                                                    : 'bg-bg-tertiary text-text-secondary hover:text-text-primary'
+                                            )}
+                                        >
+                                            {SCALES[id].name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Notes and triads of the scale */}
+                    <div className="space-y-1 pt-2 border-t border-border-subtle">
+                        <div className="text-[10px] text-text-secondary font-mono tracking-wide">
+                            {getScaleNotes(tonic, scale).map(note => formatChordForDisplay(note)).join(' – ')}
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                            {chords.length === 0 ? (
+                                <span className="text-[9px] text-text-muted">No triads in this scale</span>
+                            ) : chords.map(chord => (
+                                <span
+                                    key={chord.symbol}
+                                    className="px-1.5 h-5 inline-flex items-center rounded bg-bg-tertiary text-[9px] font-bold text-text-secondary"
+                                    title={formatChordForDisplay(chord.numeral ?? '')}
+                                >
+                                    {formatChordForDisplay(chord.symbol)}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
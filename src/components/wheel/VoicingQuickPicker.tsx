@@ -14,6 +14,8 @@ import {
     getChordNotes,
     getMajorScale,
     getDiatonicChords,
+    getParentMajorKey,
+    getChordNumeral,
     getWheelColors,
     formatChordForDisplay,
     getVoicingSuggestion,
@@ -82,6 +84,7 @@ export const VoicingQuickPicker: React.FC<VoicingQuickPickerProps> = ({
         selectedChord,
         setSelectedChord,
         selectedKey,
+        selectedMode,
         setChordPanelScrollTarget,
         timelineVisible,
         autoAdvance,
@@ -317,29 +320,23 @@ export const VoicingQuickPicker: React.FC<VoicingQuickPickerProps> = ({
     }, [isOpen]);
 
     const inKeyChords = useMemo(() => {
-        const diatonic = getDiatonicChords(selectedKey);
-        const scale = getMajorScale(selectedKey);
-        const II_root = scale[1];
-        const III_root = scale[2];
-
-        const II_chord: Chord = {
-            root: II_root,
-            quality: 'major',
-            numeral: 'II',
-            notes: getChordNotes(II_root, 'major'),
-            symbol: `${II_root}`
-        };
-
-        const III_chord: Chord = {
-            root: III_root,
+        const diatonic = getDiatonicChords(selectedKey, selectedMode);
+        // Secondary dominants sit on the II and III positions of the parent major key
+        const scale = getMajorScale(getParentMajorKey(selectedKey, selectedMode));
+        const secondaryRoots = [scale[1], scale[2]].filter(root =>
+            !diatonic.some(c => c.root === root && c.quality === 'major')
+        );
+
+        const secondaryChords: Chord[] = secondaryRoots.map(root => ({
+            root,
             quality: 'major',
-            numeral: 'III',
-            notes: getChordNotes(III_root, 'major'),
-            symbol: `${III_root}`
-        };
+            numeral: getChordNumeral(root, 'major', selectedKey, selectedMode),
+            notes: getChordNotes(root, 'major'),
+            symbol: `${root}`
+        }));
 
-        return [...diatonic, II_chord, III_chord];
-    }, [selectedKey]);
+        return [...diatonic, ...secondaryChords];
+    }, [selectedKey, selectedMode]);
 
     if (!isOpen) return null;
 
@@ -391,7 +388,8 @@ export const VoicingQuickPicker: React.FC<VoicingQuickPickerProps> = ({
                 quality: quality as any,
                 notes,
                 inversion: newInversion,
-                symbol
+                symbol,
+                voicing: undefined
             });
         }
 
@@ -421,16 +419,18 @@ export const VoicingQuickPicker: React.FC<VoicingQuickPickerProps> = ({
         if (onChangeChord) {
             let type: 'major' | 'ii' | 'iii' | 'dim' = 'major';
             let finalRelPos = 0;
-
-            if (chord.numeral === 'I') { type = 'major'; finalRelPos = 0; }
-            else if (chord.numeral === 'IV') { type = 'major'; finalRelPos = 11; }
-            else if (chord.numeral === 'V') { type = 'major'; finalRelPos = 1; }
-            else if (chord.numeral === 'II') { type = 'major'; finalRelPos = 2; }
-            else if (chord.numeral === 'III') { type = 'major'; finalRelPos = 4; }
-            else if (chord.numeral === 'ii') { type = 'ii'; finalRelPos = 0; }
-            else if (chord.numeral === 'vi') { type = 'ii'; finalRelPos = 1; }
-            else if (chord.numeral === 'iii') { type = 'iii'; finalRelPos = 0; }
-            else if (chord.numeral === 'vii°') { type = 'dim'; finalRelPos = 0; }
+            // Suggestions follow the wheel layout, so read the function off the parent major key
+            const numeral = getChordNumeral(chord.root, chord.quality, getParentMajorKey(selectedKey, selectedMode));
+
+            if (numeral === 'I') { type = 'major'; finalRelPos = 0; }
+            else if (numeral === 'IV') { type = 'major'; finalRelPos = 11; }
+            else if (numeral === 'V') { type = 'major'; finalRelPos = 1; }
+            else if (numeral === 'II') { type = 'major'; finalRelPos = 2; }
+            else if (numeral === 'III') { type = 'major'; finalRelPos = 4; }
+            else if (numeral === 'ii') { type = 'ii'; finalRelPos = 0; }
+            else if (numeral === 'vi') { type = 'ii'; finalRelPos = 1; }
+            else if (numeral === 'iii') { type = 'iii'; finalRelPos = 0; }
+            else if (numeral === 'vii°') { type = 'dim'; finalRelPos = 0; }
 
             const suggestion = getVoicingSuggestion(finalRelPos, type);
             onChangeChord(chord, suggestion, chord.quality);
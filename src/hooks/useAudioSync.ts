@@ -12,6 +12,7 @@
 
 import { useEffect } from 'react';
 import { useSongStore } from '../store/useSongStore';
+import { getSongMixer } from '../utils/mixer';
 import {
     scheduleSong,
     setTempo as setAudioTempo,
@@ -29,6 +30,8 @@ import {
     setPhaserMix as setAudioPhaserMix,
     setFilterMix as setAudioFilterMix,
     setPitchShift as setAudioPitchShift,
+    setMetronomeVolume as setAudioMetronomeVolume,
+    setMixer as setAudioMixer,
     preloadAudio
 } from '../utils/audioEngine';
 
@@ -38,6 +41,7 @@ export const useAudioSync = () => {
         tempo,
         instrument,
         isLooping,
+        loopRange,
         playingSectionId,
         selectedSectionId,
         tone,
@@ -51,13 +55,21 @@ export const useAudioSync = () => {
         tremoloDepth,
         phaserMix,
         filterMix,
-        pitchShift
+        pitchShift,
+        metronomeEnabled,
+        metronomeSubdivision,
+        metronomeVolume,
+        bassStyle,
+        drumGroove,
+        feel,
+        voiceLeading
     } = useSongStore();
 
-    // Sync song structure to audio engine
+    // Sync song structure to audio engine. Slot times are in seconds, so a tempo
+    // change reschedules too, as do metronome, bass, drum, feel and voice-leading settings (they are scheduled with the song)
     useEffect(() => {
         scheduleSong(currentSong);
-    }, [currentSong]);
+    }, [currentSong, tempo, metronomeEnabled, metronomeSubdivision, bassStyle, drumGroove, feel, voiceLeading]);
 
     // Sync tempo to audio engine
     useEffect(() => {
@@ -72,7 +84,7 @@ export const useAudioSync = () => {
     // Sync looping state to audio engine
     useEffect(() => {
         toggleLoopMode();
-    }, [isLooping, currentSong, playingSectionId, selectedSectionId]);
+    }, [isLooping, loopRange, currentSong, playingSectionId, selectedSectionId]);
 
     // Sync tone control (tilt)
     useEffect(() => {
@@ -134,6 +146,17 @@ export const useAudioSync = () => {
         setAudioFilterMix(filterMix);
     }, [filterMix]);
 
+    // Sync metronome level
+    useEffect(() => {
+        setAudioMetronomeVolume(metronomeVolume);
+    }, [metronomeVolume]);
+
+    // Sync the song's mix to the track channels
+    const songMixer = currentSong.mixer;
+    useEffect(() => {
+        setAudioMixer(getSongMixer({ mixer: songMixer }));
+    }, [songMixer]);
+
     // Preload audio on mount
     useEffect(() => {
         preloadAudio().catch(console.error);
@@ -1,13 +1,29 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Song, Section, InstrumentType, Measure, CustomInstrument, InstrumentPatch } from '../types';
-import { CIRCLE_OF_FIFTHS, type Chord } from '../utils/musicTheory';
+import { getSectionKey, type Song, type Section, type InstrumentType, type Measure, type CustomInstrument, type InstrumentPatch, type CustomChordShape } from '../types';
+import { CIRCLE_OF_FIFTHS, getParentMajorKey, type Chord, type KeyMode, type ScaleOverlay } from '../utils/musicTheory';
+import { getTranspositionInterval, transposeChord, transposeKey } from '../utils/transpose';
+import type { MetronomeSubdivision } from '../utils/metronome';
+import type { RhythmPatternId } from '../utils/rhythmPatterns';
+import { DEFAULT_ARPEGGIATOR, type ArpeggiatorSettings } from '../utils/arpeggiator';
+import type { BassStyle } from '../utils/bassLine';
+import type { DrumGrooveId } from '../utils/drumMachine';
+import { DEFAULT_FEEL, type FeelSettings } from '../utils/humanize';
+import { DEFAULT_VOICE_LEADING, applyInversion, voiceLeadProgression, type VoiceLeadingSettings } from '../utils/voiceLeading';
+import { DEFAULT_FRETTED_INSTRUMENT, MAX_CAPO, type FrettedInstrument } from '../utils/frettedInstruments';
+import { getSongMixer, type MixerTrack, type MixerTrackId } from '../utils/mixer';
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../lib/supabase';
 
 
 type SelectionSlot = { sectionId: string; slotId: string };
 
+// What a transpose action rewrites: every chord, the selected slots, or one section
+export type TransposeScope = 'song' | 'selection' | { sectionId: string };
+
+// A–B loop between two slots, both inclusive, in playback order
+export type LoopRange = { startSlotId: string; endSlotId: string };
+
 /**
  * Intelligent section name suggestion algorithm.
  * Analyzes patterns in existing sections to suggest the next logical section type.
@@ -118,11 +134,14 @@ interface SongState {
 
     // Wheel state
     selectedKey: string;
+    selectedMode: KeyMode;        // Mode of the key center (selectedKey is its tonic)
     wheelRotation: number;        // Cumulative rotation (not reset at 360°)
     wheelMode: 'rotating' | 'fixed';  // Rotating = wheel spins, Fixed = highlights move
+    scaleOverlay: ScaleOverlay | null; // Scale whose chords the wheel highlights instead of the key's
     chordPanelVisible: boolean;   // Toggle chord panel visibility
     timelineVisible: boolean;     // Toggle timeline visibility
     timelineZoom: number;         // Zoom level for timeline slots
+    analysisLaneVisible: boolean; // Show roman numeral analysis under timeline slots
     songMapVisible: boolean;      // Toggle Song Map visibility
     songInfoModalVisible: boolean; // Toggle Song Info Modal visibility
     instrumentManagerModalVisible: boolean; // Toggle Instrument Manager Modal visibility
@@ -155,6 +174,17 @@ interface SongState {
     playingSectionId: string | null;
     playingSlotId: string | null;
     isLooping: boolean;
+    loopRange: LoopRange | null; // When set, looping repeats this range instead of the playing section
+    preRoll: boolean; // "Play from here" starts one bar early
+    metronomeEnabled: boolean;
+    metronomeVolume: number; // 0-1, independent of the chord instrument
+    metronomeSubdivision: MetronomeSubdivision;
+    countInBars: number; // Bars of clicks before playback starts (0 = off)
+    bassStyle: BassStyle; // Generated bass part under the chords ('off' = none)
+    drumGroove: DrumGrooveId; // Drum machine groove ('off' = no drums)
+    feel: FeelSettings; // Swing and humanize for song playback and exports
+    voiceLeading: VoiceLeadingSettings; // Smooth chord voicing for song playback and exports
+    frettedInstrument: FrettedInstrument; // Tuning, capo and hand for chord diagrams
     tempo: number;
     volume: number;
     instrument: InstrumentType;
@@ -170,9 +200,11 @@ interface SongState {
     phaserMix: number;
     filterMix: number;
     pitchShift: number; // Semitones (usually octaves in UI)
+    arpeggiator: ArpeggiatorSettings;
     isMuted: boolean;
     customInstruments: CustomInstrument[];
     userPatches: InstrumentPatch[];
+    customChordShapes: CustomChordShape[]; // The user's own fretboard shapes, saved locally and synced when signed in
 
     chordInversion: number;
     setChordInversion: (inversion: number) => void;
@@ -183,12 +215,15 @@ interface SongState {
     setIsDraggingVoicingPicker: (isDragging: boolean) => void;
 
     // Actions
-    setKey: (key: string, options?: { skipRotation?: boolean }) => void;
+    setKey: (key: string, options?: { skipRotation?: boolean; mode?: KeyMode }) => void;
+    transpose: (target: { semitones: number } | { key: string }, scope?: TransposeScope) => void;
     rotateWheel: (direction: 'cw' | 'ccw') => void;  // Cumulative rotation
     toggleWheelMode: () => void;
+    setScaleOverlay: (overlay: ScaleOverlay | null) => void;
     toggleChordPanel: () => void;
     toggleTimeline: () => void;
     setTimelineZoom: (zoom: number) => void;
+    toggleAnalysisLane: () => void;
     openTimeline: () => void;  // Opens timeline if not already open (for double-tap from wheel/details)
     toggleSongMap: (force?: boolean) => void;
     toggleSongInfoModal: (force?: boolean) => void;
@@ -207,6 +242,7 @@ interface SongState {
     setPhaserMix: (amount: number) => void;
     setFilterMix: (amount: number) => void;
     setPitchShift: (shift: number) => void;
+    setArpeggiator: (updates: Partial<ArpeggiatorSettings>) => void;
     resetInstrumentControls: () => void;
     toggleSectionCollapsed: (sectionId: string) => void;
     setChordPanelGuitarExpanded: (expanded: boolean) => void;
@@ -246,16 +282,33 @@ interface SongState {
     setIsPlaying: (isPlaying: boolean) => void;
     setPlayingSlot: (sectionId: string | null, slotId: string | null) => void;
     toggleLoop: () => void;
+    setLoopRange: (range: LoopRange | null) => void;
+    setLoopRangeFromSelection: () => void;
+    togglePreRoll: () => void;
+    toggleMetronome: () => void;
+    setMetronomeVolume: (volume: number) => void;
+    setMetronomeSubdivision: (subdivision: MetronomeSubdivision) => void;
+    setCountInBars: (bars: number) => void;
+    setBassStyle: (style: BassStyle) => void;
+    setDrumGroove: (groove: DrumGrooveId) => void;
+    setFeel: (updates: Partial<FeelSettings>) => void;
+    setVoiceLeading: (updates: Partial<VoiceLeadingSettings>) => void;
+    setFrettedInstrument: (updates: Partial<FrettedInstrument>) => void;
     toggleMute: () => void;
     addCustomInstrument: (instrument: CustomInstrument) => void;
     removeCustomInstrument: (id: string) => Promise<void>;
     deleteInstrumentFromCloud: (id: string) => Promise<void>;
+    addCustomChordShape: (shape: Omit<CustomChordShape, 'id' | 'createdAt'>) => Promise<void>;
+    removeCustomChordShape: (id: string) => Promise<void>;
 
     // Song Actions
     setTitle: (title: string) => void;
     setArtist: (artist: string) => void;
     setTags: (tags: string[]) => void;
     setSongTimeSignature: (signature: [number, number]) => void;
+    setSongRhythmPattern: (pattern: RhythmPatternId) => void;
+    updateMixerTrack: (id: MixerTrackId, updates: Partial<Omit<MixerTrack, 'id'>>) => void;
+    setMixerMasterGain: (gain: number) => void;
     loadSong: (song: Song) => void;
     newSong: () => void;
     addSection: (type: Section['type']) => void;
@@ -265,6 +318,7 @@ interface SongState {
     updateSection: (id: string, updates: Partial<Section>) => void;
     removeSection: (id: string) => void;
     clearSection: (id: string) => void;
+    autoVoiceSection: (id: string) => void;
     duplicateSection: (id: string) => void;
     reorderSections: (sections: Section[]) => void;
     setSectionMeasures: (id: string, count: number) => void;
@@ -274,6 +328,7 @@ interface SongState {
     resizeSlot: (sectionId: string, measureId: string, slotId: string, lenChange: number) => void;
 
     addChordToSlot: (chord: Chord, sectionId: string, slotId: string) => void;
+    setChordVoicing: (sectionId: string, slotId: string, voicing: string[] | null) => void;
     clearSlot: (sectionId: string, slotId: string) => void;
     clearTimeline: () => void;
     moveChord: (fromSectionId: string, fromSlotId: string, toSectionId: string, toSlotId: string) => void;
@@ -290,6 +345,7 @@ interface SongState {
     deleteFromCloud: (id: string) => Promise<void>;
     saveInstrumentToCloud: (instrument: CustomInstrument) => Promise<void>;
     fetchUserInstruments: () => Promise<CustomInstrument[]>;
+    fetchCustomChordShapes: () => Promise<void>;
     uploadSample: (file: Blob, folder: string, filename: string) => Promise<string | null>;
     resetState: () => void;
 }
@@ -428,6 +484,42 @@ const buildHistoryState = (state: SongState) => {
     };
 };
 
+/**
+ * Wheel rotation that brings a key's parent major position to the top, taking the
+ * shortest path from the current rotation so the wheel doesn't spin back the long way.
+ * Returns null when the wheel isn't rotating or the key isn't on the wheel.
+ */
+const getRotationForKey = (state: SongState, key: string, mode: KeyMode) => {
+    if (state.wheelMode !== 'rotating') return null;
+
+    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(getParentMajorKey(key, mode));
+    if (keyIndex === -1) return null;
+
+    const currentRotation = state.wheelRotation;
+    const targetBaseRotation = -(keyIndex * 30);
+
+    // Normalize delta to [-180, 180]
+    const delta = targetBaseRotation - currentRotation;
+    const normalizedDelta = delta - 360 * Math.round(delta / 360);
+    return currentRotation + normalizedDelta;
+};
+
+/**
+ * Key/wheel state to apply when undo/redo swaps in a song whose key differs
+ * from the current one (undoing a key change or a whole-song transpose)
+ */
+const syncKeyToSong = (state: SongState, song: Song) => {
+    const mode = song.mode ?? 'ionian';
+    if (song.key === state.currentSong.key && mode === (state.currentSong.mode ?? 'ionian')) return {};
+
+    const rotation = getRotationForKey(state, song.key, mode);
+    return {
+        selectedKey: song.key,
+        selectedMode: mode,
+        ...(rotation !== null ? { wheelRotation: rotation } : {})
+    };
+};
+
 const reselectFromSong = (
     song: Song,
     sectionId: string | null,
@@ -508,6 +600,15 @@ const DEFAULT_C_CHORD: Chord = {
     symbol: 'C',
 };
 
+// Row for the chord_shapes table; the local id is kept so deletes match in both places
+const toChordShapeRow = (shape: CustomChordShape, userId: string) => ({
+    id: shape.id,
+    user_id: userId,
+    root: shape.root,
+    quality: shape.quality,
+    data: shape
+});
+
 export const useSongStore = create<SongState>()(
     persist(
         (set, get) => ({
@@ -517,11 +618,14 @@ export const useSongStore = create<SongState>()(
             canUndo: false,
             canRedo: false,
             selectedKey: 'C',
+            selectedMode: 'ionian',
             wheelRotation: 0,
             wheelMode: 'fixed' as SongState['wheelMode'],
+            scaleOverlay: null,
             chordPanelVisible: true,
             timelineVisible: true,
             timelineZoom: 1,
+            analysisLaneVisible: false,
             songMapVisible: false,
             songInfoModalVisible: false,
             instrumentManagerModalVisible: false,
@@ -549,6 +653,17 @@ export const useSongStore = create<SongState>()(
             playingSectionId: null as string | null,
             playingSlotId: null as string | null,
             isLooping: false,
+            loopRange: null as LoopRange | null,
+            preRoll: false,
+            metronomeEnabled: false,
+            metronomeVolume: 0.6,
+            metronomeSubdivision: 'none' as MetronomeSubdivision,
+            countInBars: 0,
+            bassStyle: 'off' as BassStyle,
+            drumGroove: 'off' as DrumGrooveId,
+            feel: DEFAULT_FEEL,
+            voiceLeading: DEFAULT_VOICE_LEADING,
+            frettedInstrument: DEFAULT_FRETTED_INSTRUMENT,
             tempo: 120,
             volume: 0.8,
             instrument: 'piano' as InstrumentType,
@@ -564,9 +679,11 @@ export const useSongStore = create<SongState>()(
             vibratoDepth: 0,
             distortionAmount: 0,
             pitchShift: 0,
+            arpeggiator: DEFAULT_ARPEGGIATOR,
             isMuted: false,
             customInstruments: [] as CustomInstrument[],
             userPatches: [] as InstrumentPatch[],
+            customChordShapes: [] as CustomChordShape[],
             cloudSongs: [] as Song[],
             chordInversion: 0,
             isLoadingCloud: false,
@@ -579,7 +696,8 @@ export const useSongStore = create<SongState>()(
                 historyPast: [],
                 historyFuture: [],
                 canUndo: false,
-                canRedo: false
+                canRedo: false,
+                customChordShapes: []
             }),
 
             loadCloudSongs: async () => {
@@ -605,8 +723,9 @@ export const useSongStore = create<SongState>()(
                     set({ cloudSongs: songs });
                 }
 
-                // Also fetch instruments
+                // Also fetch instruments and chord shapes
                 const instruments = await get().fetchUserInstruments();
+                await get().fetchCustomChordShapes();
                 set({ customInstruments: instruments, isLoadingCloud: false });
             },
 
@@ -820,31 +939,157 @@ export const useSongStore = create<SongState>()(
                 }));
             },
 
-            setChordInversion: (inversion) => set({ chordInversion: inversion }),
+            addCustomChordShape: async (shape) => {
+                const saved: CustomChordShape = { ...shape, id: uuidv4(), createdAt: Date.now() };
+                set((state) => ({ customChordShapes: [saved, ...state.customChordShapes] }));
 
-            setKey: (key, options) => set((state) => {
-                // In rotating mode, also update the wheel rotation to snap this key to the top
-                if (state.wheelMode === 'rotating' && !options?.skipRotation) {
-                    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(key);
-                    if (keyIndex !== -1) {
-                        // Smart rotation: find the closest rotation angle to the current one
-                        // that matches the target key position. This prevents "spinning back"
-                        // when crossing the 0/360 boundary or when the wheel is wound up.
-                        const currentRotation = state.wheelRotation;
-                        const targetBaseRotation = -(keyIndex * 30);
-
-                        // Calculate shortest path to the target rotation
-                        const delta = targetBaseRotation - currentRotation;
-                        // Normalize delta to [-180, 180]
-                        const normalizedDelta = delta - 360 * Math.round(delta / 360);
-
-                        return {
-                            selectedKey: key,
-                            wheelRotation: currentRotation + normalizedDelta
-                        };
+                const { data: { user } = {} } = await supabase.auth.getUser();
+                if (!user) return;
+
+                const { error } = await supabase
+                    .from('chord_shapes')
+                    .insert(toChordShapeRow(saved, user.id));
+
+                if (error) {
+                    console.error('Error saving chord shape:', error);
+                    return;
+                }
+
+                set((state) => ({
+                    customChordShapes: state.customChordShapes.map(shape => shape.id === saved.id ? { ...shape, synced: true } : shape)
+                }));
+            },
+
+            removeCustomChordShape: async (id) => {
+                set((state) => ({ customChordShapes: state.customChordShapes.filter(shape => shape.id !== id) }));
+
+                const { data: { user } = {} } = await supabase.auth.getUser();
+                if (!user) return;
+
+                const { error } = await supabase
+                    .from('chord_shapes')
+                    .delete()
+                    .eq('id', id);
+
+                if (error) {
+                    console.error('Error deleting chord shape from cloud:', error);
+                }
+            },
+
+            fetchCustomChordShapes: async () => {
+                const { data: { user } = {} } = await supabase.auth.getUser();
+                if (!user) return;
+
+                const { data, error } = await supabase
+                    .from('chord_shapes')
+                    .select('*')
+                    .order('created_at', { ascending: false });
+
+                if (error) {
+                    console.error('Error fetching chord shapes:', error);
+                    return;
+                }
+
+                const cloudShapes = data.map(row => ({ ...row.data, id: row.id, synced: true })) as CustomChordShape[];
+
+                // Shapes made while signed out go up now; synced shapes missing from the
+                // cloud were deleted on another device and are dropped
+                const unsynced = get().customChordShapes.filter(shape => !shape.synced && !cloudShapes.some(saved => saved.id === shape.id));
+                let uploaded = false;
+                if (unsynced.length > 0) {
+                    const { error: uploadError } = await supabase
+                        .from('chord_shapes')
+                        .insert(unsynced.map(shape => toChordShapeRow(shape, user.id)));
+
+                    if (uploadError) {
+                        console.error('Error uploading chord shapes:', uploadError);
+                    } else {
+                        uploaded = true;
                     }
                 }
-                return { selectedKey: key };
+
+                set({ customChordShapes: [...unsynced.map(shape => ({ ...shape, synced: uploaded })), ...cloudShapes] });
+            },
+
+            setChordInversion: (inversion) => set({ chordInversion: inversion }),
+
+            setKey: (key, options) => set((state) => {
+                const mode = options?.mode ?? state.selectedMode;
+                // The key is part of the song, so changing it is an undoable edit
+                const keyChanged = key !== state.currentSong.key || mode !== (state.currentSong.mode ?? 'ionian');
+                const keyState = {
+                    ...(keyChanged ? buildHistoryState(state) : {}),
+                    selectedKey: key,
+                    selectedMode: mode,
+                    currentSong: { ...state.currentSong, key, mode }
+                };
+
+                // In rotating mode, also update the wheel rotation to snap this key to the top.
+                // Modal keys rotate to their parent major position (A minor sits on C).
+                const rotation = options?.skipRotation ? null : getRotationForKey(state, key, mode);
+                return rotation !== null ? { ...keyState, wheelRotation: rotation } : keyState;
+            }),
+
+            transpose: (target, scope = 'song') => set((state) => {
+                const song = state.currentSong;
+                const mode = song.mode ?? 'ionian';
+                const semitones = 'key' in target
+                    ? getTranspositionInterval(song.key, target.key)
+                    : target.semitones;
+                if (semitones % 12 === 0) return {};
+
+                // Only a whole-song transpose moves the key; partial ones are respelled in the song key
+                const newKey = scope === 'song'
+                    ? ('key' in target ? target.key : transposeKey(song.key, semitones, mode))
+                    : song.key;
+
+                const selectedIds = new Set(
+                    state.selectedSlots.length > 0
+                        ? state.selectedSlots.map(slotKey)
+                        : [slotKey(state.selectedSectionId && state.selectedSlotId
+                            ? { sectionId: state.selectedSectionId, slotId: state.selectedSlotId }
+                            : null)]
+                );
+                const inScope = (sectionId: string, slotId: string) => {
+                    if (scope === 'song') return true;
+                    if (scope === 'selection') return selectedIds.has(slotKey({ sectionId, slotId }));
+                    return sectionId === scope.sectionId;
+                };
+
+                let changed = false;
+                const newSections = song.sections.map(section => {
+                    // Section key overrides move with the song; chords are spelled in their section's key
+                    const movedSection = scope === 'song' && section.key
+                        ? { ...section, key: transposeKey(section.key, semitones, section.mode ?? 'ionian') }
+                        : section;
+                    const sectionKey = getSectionKey(movedSection, { key: newKey, mode });
+                    return {
+                        ...movedSection,
+                        measures: section.measures.map(measure => ({
+                            ...measure,
+                            beats: measure.beats.map(beat => {
+                                if (!beat.chord || !inScope(section.id, beat.id)) return beat;
+                                changed = true;
+                                return { ...beat, chord: transposeChord(beat.chord, semitones, sectionKey.key, sectionKey.mode) };
+                            })
+                        }))
+                    };
+                });
+                if (!changed && newKey === song.key) return {};
+
+                const history = buildHistoryState(state);
+                const primary = state.selectedSectionId && state.selectedSlotId
+                    ? { sectionId: state.selectedSectionId, slotId: state.selectedSlotId }
+                    : null;
+                const rotation = newKey !== song.key ? getRotationForKey(state, newKey, mode) : null;
+
+                return {
+                    ...history,
+                    currentSong: { ...song, key: newKey, sections: newSections },
+                    selectedKey: newKey,
+                    selectedChord: findChordForSlot(newSections, primary) ?? state.selectedChord,
+                    ...(rotation !== null ? { wheelRotation: rotation } : {})
+                };
             }),
 
             // Cumulative rotation to avoid wrap-around animation issues
@@ -862,7 +1107,7 @@ export const useSongStore = create<SongState>()(
                 let newRotation = 0;
 
                 if (newMode === 'rotating') {
-                    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(state.selectedKey);
+                    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(getParentMajorKey(state.selectedKey, state.selectedMode));
                     if (keyIndex !== -1) {
                         newRotation = -(keyIndex * 30);
                     }
@@ -874,8 +1119,11 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            setScaleOverlay: (overlay) => set({ scaleOverlay: overlay }),
+
             toggleChordPanel: () => set((state) => ({ chordPanelVisible: !state.chordPanelVisible })),
             toggleTimeline: () => set((state) => ({ timelineVisible: !state.timelineVisible })),
+            toggleAnalysisLane: () => set((state) => ({ analysisLaneVisible: !state.analysisLaneVisible })),
             setTimelineZoom: (zoom) => set({ timelineZoom: Math.max(0.1, Math.min(2, zoom)) }),
             openTimeline: () => set((state) => {
                 // Dispatch custom event for mobile to open its timeline drawer
@@ -1256,6 +1504,39 @@ export const useSongStore = create<SongState>()(
             setIsPlaying: (isPlaying) => set({ isPlaying }),
             setPlayingSlot: (sectionId, slotId) => set({ playingSectionId: sectionId, playingSlotId: slotId }),
             toggleLoop: () => set((state) => ({ isLooping: !state.isLooping })),
+            setLoopRange: (range) => set({ loopRange: range }),
+            setLoopRangeFromSelection: () => set((state) => {
+                const selected = new Set(
+                    state.selectedSlots.length > 0
+                        ? state.selectedSlots.map(slot => slot.slotId)
+                        : state.selectedSlotId ? [state.selectedSlotId] : []
+                );
+                if (selected.size === 0) return {};
+
+                // First and last selected slots in playback order
+                const ordered = state.currentSong.sections
+                    .flatMap(section => section.measures.flatMap(measure => measure.beats))
+                    .filter(slot => selected.has(slot.id));
+                if (ordered.length === 0) return {};
+
+                return {
+                    loopRange: { startSlotId: ordered[0].id, endSlotId: ordered[ordered.length - 1].id },
+                    isLooping: true
+                };
+            }),
+            togglePreRoll: () => set((state) => ({ preRoll: !state.preRoll })),
+            toggleMetronome: () => set((state) => ({ metronomeEnabled: !state.metronomeEnabled })),
+            setMetronomeVolume: (volume) => set({ metronomeVolume: Math.max(0, Math.min(1, volume)) }),
+            setMetronomeSubdivision: (subdivision) => set({ metronomeSubdivision: subdivision }),
+            setCountInBars: (bars) => set({ countInBars: Math.max(0, Math.min(4, Math.round(bars))) }),
+            setBassStyle: (style) => set({ bassStyle: style }),
+            setDrumGroove: (groove) => set({ drumGroove: groove }),
+            setFeel: (updates) => set((state) => ({ feel: { ...state.feel, ...updates } })),
+            setVoiceLeading: (updates) => set((state) => ({ voiceLeading: { ...state.voiceLeading, ...updates } })),
+            setFrettedInstrument: (updates) => set((state) => {
+                const next = { ...state.frettedInstrument, ...updates };
+                return { frettedInstrument: { ...next, capo: Math.max(0, Math.min(MAX_CAPO, Math.round(next.capo))) } };
+            }),
             toggleMute: () => set((state) => ({ isMuted: !state.isMuted })),
             toggleInstrumentControlsModal: (force) => set((state) => ({
                 instrumentControlsModalVisible: force !== undefined ? force : !state.instrumentControlsModalVisible
@@ -1273,6 +1554,7 @@ export const useSongStore = create<SongState>()(
             setPhaserMix: (amount) => set({ phaserMix: amount }),
             setFilterMix: (amount) => set({ filterMix: amount }),
             setPitchShift: (shift) => set({ pitchShift: shift }),
+            setArpeggiator: (updates) => set((state) => ({ arpeggiator: { ...state.arpeggiator, ...updates } })),
 
             resetInstrumentControls: () => set({
                 instrumentGain: 1.0,
@@ -1286,7 +1568,8 @@ export const useSongStore = create<SongState>()(
                 reverbMix: 0.15,
                 delayMix: 0,
                 chorusMix: 0,
-                vibratoDepth: 0
+                vibratoDepth: 0,
+                arpeggiator: DEFAULT_ARPEGGIATOR
             }),
 
             fetchUserPatches: async () => {
@@ -1326,6 +1609,7 @@ export const useSongStore = create<SongState>()(
                     delayFeedback: state.delayFeedback,
                     chorusMix: state.chorusMix,
                     vibratoDepth: state.vibratoDepth,
+                    arpeggiator: state.arpeggiator,
                 };
 
                 const newPatch = {
@@ -1377,6 +1661,7 @@ export const useSongStore = create<SongState>()(
                     delayFeedback: patch.settings.delayFeedback,
                     chorusMix: patch.settings.chorusMix,
                     vibratoDepth: patch.settings.vibratoDepth,
+                    arpeggiator: patch.settings.arpeggiator ?? DEFAULT_ARPEGGIATOR,
                 });
             },
 
@@ -1412,13 +1697,49 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            setSongRhythmPattern: (pattern) => set((state) => {
+                const history = buildHistoryState(state);
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, rhythmPattern: pattern }
+                };
+            }),
+
+            updateMixerTrack: (id, updates) => set((state) => {
+                const mixer = getSongMixer(state.currentSong);
+                const history = buildHistoryState(state);
+                return {
+                    ...history,
+                    currentSong: {
+                        ...state.currentSong,
+                        mixer: {
+                            ...mixer,
+                            tracks: mixer.tracks.map(track => track.id === id ? { ...track, ...updates } : track)
+                        }
+                    }
+                };
+            }),
+
+            setMixerMasterGain: (gain) => set((state) => {
+                const mixer = getSongMixer(state.currentSong);
+                const history = buildHistoryState(state);
+                return {
+                    ...history,
+                    currentSong: {
+                        ...state.currentSong,
+                        mixer: { ...mixer, master: { gain: Math.max(0, Math.min(1, gain)) } }
+                    }
+                };
+            }),
+
             loadSong: (song) => set((state) => {
                 const key = song.key || 'C';
+                const mode = song.mode ?? 'ionian';
                 const tempo = song.tempo ?? DEFAULT_SONG.tempo;
                 let rotation = 0;
 
                 if (state.wheelMode === 'rotating') {
-                    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(key);
+                    const keyIndex = CIRCLE_OF_FIFTHS.indexOf(getParentMajorKey(key, mode));
                     if (keyIndex !== -1) {
                         rotation = -(keyIndex * 30);
                     }
@@ -1430,6 +1751,7 @@ export const useSongStore = create<SongState>()(
                     ...history,
                     currentSong: { ...song, tempo },
                     selectedKey: key,
+                    selectedMode: mode,
                     wheelRotation: rotation,
                     selectedChord: DEFAULT_C_CHORD,
                     selectedSectionId: null,
@@ -1470,6 +1792,7 @@ export const useSongStore = create<SongState>()(
                         ],
                     },
                     selectedKey: 'C',
+                    selectedMode: 'ionian',
                     wheelRotation: 0,
                     selectedChord: DEFAULT_C_CHORD,
                     selectedSectionId: null,
@@ -1666,6 +1989,41 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            // Write the smoothest inversion for each chord of a section into the chords,
+            // led from the section's first chord as it stands
+            autoVoiceSection: (id: string) => set((state) => {
+                const section = state.currentSong.sections.find(s => s.id === id);
+                if (!section) return {};
+
+                const slots = section.measures.flatMap(measure => measure.beats);
+                if (!slots.some(slot => slot.chord !== null)) return {};
+
+                const voicings = voiceLeadProgression(slots.map(slot => slot.chord), state.voiceLeading);
+                const inversions = new Map(slots.map((slot, i) => [slot.id, voicings[i]?.inversion]));
+
+                const history = buildHistoryState(state);
+
+                const newSections = state.currentSong.sections.map(s => {
+                    if (s.id !== id) return s;
+                    return {
+                        ...s,
+                        measures: s.measures.map(measure => ({
+                            ...measure,
+                            beats: measure.beats.map(beat => {
+                                const inversion = inversions.get(beat.id);
+                                if (!beat.chord || inversion === undefined) return beat;
+                                return { ...beat, chord: applyInversion(beat.chord, inversion) };
+                            })
+                        }))
+                    };
+                });
+
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections }
+                };
+            }),
+
             duplicateSection: (id: string) => set((state) => {
                 const sectionToCopy = state.currentSong.sections.find(s => s.id === id);
                 if (!sectionToCopy) return {};
@@ -1975,6 +2333,41 @@ export const useSongStore = create<SongState>()(
                 };
             }),
 
+            // Lay out a slot's chord with explicit notes (with octaves); null or an empty
+            // voicing goes back to the default layout
+            setChordVoicing: (sectionId: string, slotId: string, voicing: string[] | null) => set((state) => {
+                const withVoicing = (chord: Chord): Chord => ({
+                    ...chord,
+                    voicing: voicing && voicing.length > 0 ? voicing : undefined
+                });
+
+                let updated: Chord | null = null;
+                const newSections = state.currentSong.sections.map(section => {
+                    if (section.id !== sectionId) return section;
+                    return {
+                        ...section,
+                        measures: section.measures.map(measure => ({
+                            ...measure,
+                            beats: measure.beats.map(beat => {
+                                if (beat.id !== slotId || !beat.chord) return beat;
+                                updated = withVoicing(beat.chord);
+                                return { ...beat, chord: updated };
+                            })
+                        }))
+                    };
+                });
+
+                if (!updated) return {};
+
+                const history = buildHistoryState(state);
+                const isSelected = state.selectedSectionId === sectionId && state.selectedSlotId === slotId;
+                return {
+                    ...history,
+                    currentSong: { ...state.currentSong, sections: newSections },
+                    ...(isSelected ? { selectedChord: updated } : {})
+                };
+            }),
+
             clearSlot: (sectionId: string, slotId: string) => set((state) => {
                 const hadChord = state.currentSong.sections.some(section =>
                     section.id === sectionId &&
@@ -2102,6 +2495,7 @@ export const useSongStore = create<SongState>()(
                 );
 
                 return {
+                    ...syncKeyToSong(state, previous),
                     currentSong: cloneSong(previous),
                     historyPast: remainingPast,
                     historyFuture: future,
@@ -2127,6 +2521,7 @@ export const useSongStore = create<SongState>()(
                 );
 
                 return {
+                    ...syncKeyToSong(state, next),
                     currentSong: cloneSong(next),
                     historyPast: past,
                     historyFuture: future,
@@ -2144,7 +2539,19 @@ export const useSongStore = create<SongState>()(
                 tempo: state.tempo,
                 volume: state.volume,
                 instrument: state.instrument,
-                isMuted: state.isMuted
+                isMuted: state.isMuted,
+                preRoll: state.preRoll,
+                metronomeEnabled: state.metronomeEnabled,
+                metronomeVolume: state.metronomeVolume,
+                metronomeSubdivision: state.metronomeSubdivision,
+                countInBars: state.countInBars,
+                bassStyle: state.bassStyle,
+                drumGroove: state.drumGroove,
+                feel: state.feel,
+                voiceLeading: state.voiceLeading,
+                frettedInstrument: state.frettedInstrument,
+                customChordShapes: state.customChordShapes,
+                arpeggiator: state.arpeggiator
             }),
             merge: (persistedState: any, currentState) => {
                 // simple deep merge or just shallow consistency check
@@ -1,4 +1,8 @@
-import type { Chord } from '../utils/musicTheory';
+import type { Chord, KeyMode } from '../utils/musicTheory';
+import type { RhythmPatternId } from '../utils/rhythmPatterns';
+import type { ArpeggiatorSettings } from '../utils/arpeggiator';
+import type { MixerSettings } from '../utils/mixer';
+import type { GuitarChordShape } from '../utils/guitarChordData';
 
 export interface ChordSlot {
     // Slot ID
@@ -20,6 +24,20 @@ export interface Section {
      * Optional per-section time signature. Falls back to song timeSignature when undefined.
      */
     timeSignature?: [number, number];
+    /**
+     * Optional per-section key center (e.g. a key-change final chorus). Falls back to song key when undefined.
+     */
+    key?: string;
+    mode?: KeyMode; // Mode of the section key; only read when `key` is set
+    /**
+     * Optional per-section tempo in BPM (e.g. a half-time bridge). Falls back to song tempo when undefined.
+     */
+    tempo?: number;
+    /**
+     * Optional per-section rhythm pattern (e.g. arpeggiated verse, strummed chorus). Falls back to the song pattern when undefined.
+     */
+    rhythmPattern?: RhythmPatternId;
+    drums?: boolean; // false silences the drum track in this section; undefined plays it
     measures: Measure[];
     lyrics?: string;
 }
@@ -68,13 +86,38 @@ export function getSectionDisplayName(section: Section, allSections: Section[]):
     return `${baseName} ${indexAmongSameType + 1}`;
 }
 
+/**
+ * Get the key center a section plays in: its own key override, or the song key.
+ */
+export function getSectionKey(section: Section, song: Pick<Song, 'key' | 'mode'>): { key: string; mode: KeyMode } {
+    if (section.key) return { key: section.key, mode: section.mode ?? 'ionian' };
+    return { key: song.key, mode: song.mode ?? 'ionian' };
+}
+
+/**
+ * Get the tempo a section plays at: its own tempo override, or the song tempo.
+ */
+export function getSectionTempo(section: Section, songTempo: number): number {
+    return section.tempo && section.tempo > 0 ? section.tempo : songTempo;
+}
+
+/**
+ * Get the rhythm pattern a section's chords are played with: its own pattern, the song pattern, or block chords.
+ */
+export function getSectionRhythmPattern(section: Section, song: Pick<Song, 'rhythmPattern'>): RhythmPatternId {
+    return section.rhythmPattern ?? song.rhythmPattern ?? 'block';
+}
+
 export interface Song {
     id: string;
     title: string;
     artist: string;
     key: string;
+    mode?: KeyMode; // Key center mode; undefined means major (ionian)
     tempo: number;
     timeSignature: [number, number];
+    rhythmPattern?: RhythmPatternId; // How chords are played back; undefined means block chords
+    mixer?: MixerSettings; // Track levels, pans and sends; undefined means the default mix
     sections: Section[];
     notes: string;
     tags?: string[]; // Optional custom tags for organization
@@ -115,6 +158,20 @@ export interface CustomInstrument {
 }
 
 
+/**
+ * A chord shape the user fingered in the fretboard editor; shown before built-in
+ * shapes for its chord on the tuning it was made for
+ */
+export interface CustomChordShape {
+    id: string;
+    root: string;
+    quality: string;
+    tuning: number[]; // Open strings (MIDI) it was fingered on
+    shape: GuitarChordShape;
+    createdAt: number;
+    synced?: boolean; // In the signed-in user's chord_shapes; unset until uploaded
+}
+
 /**
  * User-saved instrument settings
  */
@@ -137,6 +194,7 @@ export interface InstrumentPatch {
         delayFeedback: number;
         chorusMix: number;
         vibratoDepth: number;
+        arpeggiator?: ArpeggiatorSettings; // Missing on patches saved before the arpeggiator existed
     };
 }
 
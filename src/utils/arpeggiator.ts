@@ -0,0 +1,165 @@
+/**
+ * Arpeggiator
+ *
+ * Plays chord tones one at a time instead of together. The chord's voiced notes are
+ * sorted into a ladder (repeated an octave up for each extra octave of range) and
+ * walked up, down, up-down, at random or in a custom step order at a fixed rate.
+ *
+ * Like rhythm patterns, the result is note events in beats from the slot start, so
+ * live playback and both exports render the same notes. When the arpeggiator is on it
+ * replaces the section rhythm pattern.
+ */
+
+import { noteToMidi } from './chordVoicing';
+import type { RhythmNoteEvent } from './rhythmPatterns';
+
+export type ArpDirection = 'up' | 'down' | 'up-down' | 'random' | 'custom';
+
+export type ArpRate = 'eighths' | 'triplets' | 'sixteenths';
+
+export interface ArpeggiatorSettings {
+    enabled: boolean;
+    direction: ArpDirection;
+    rate: ArpRate;
+    octaves: number;            // Octave range, 1-3
+    steps: (number | null)[];   // Custom order: ladder index per step, null is a rest
+}
+
+export const ARP_DIRECTIONS: { value: ArpDirection; label: string }[] = [
+    { value: 'up', label: 'Up' },
+    { value: 'down', label: 'Down' },
+    { value: 'up-down', label: 'Up/Down' },
+    { value: 'random', label: 'Random' },
+    { value: 'custom', label: 'Custom' },
+];
+
+export const ARP_RATES: { value: ArpRate; label: string }[] = [
+    { value: 'eighths', label: '8ths' },
+    { value: 'triplets', label: 'Triplets' },
+    { value: 'sixteenths', label: '16ths' },
+];
+
+// Step length of each rate in quarter-note beats
+const RATE_BEATS: Record<ArpRate, number> = {
+    eighths: 0.5,
+    triplets: 1 / 3,
+    sixteenths: 0.25,
+};
+
+export const ARP_STEP_COUNT = 8;
+export const ARP_GRID_ROWS = 5;     // Ladder positions shown in the step grid
+export const MAX_ARP_OCTAVES = 3;
+
+// Notes ring for most of the step so the pattern stays legato but articulated
+const GATE = 0.9;
+
+// Allow for floating point drift when stepping through a slot
+const EPSILON = 1e-6;
+
+export const DEFAULT_ARPEGGIATOR: ArpeggiatorSettings = {
+    enabled: false,
+    direction: 'up',
+    rate: 'sixteenths',
+    octaves: 1,
+    steps: [0, 1, 2, 1, 3, 2, 1, null],
+};
+
+function raiseOctaves(note: string, octaves: number): string {
+    return note.replace(/(-?\d+)$/, octave => `${parseInt(octave, 10) + octaves}`);
+}
+
+/**
+ * Voiced notes sorted low to high, repeated an octave up for each extra octave of range.
+ * Doubled pitches are played once.
+ */
+export function buildArpeggioLadder(voicedNotes: string[], octaves: number = 1): string[] {
+    const range = Math.max(1, Math.min(MAX_ARP_OCTAVES, Math.round(octaves)));
+    const notes = Array.from({ length: range }, (_, octave) => voicedNotes.map(note => raiseOctaves(note, octave))).flat();
+
+    // Sort after stacking: spread voicings overlap their own octave copies
+    const ladder = new Map<number, string>();
+    notes.forEach(note => {
+        const midi = noteToMidi(note);
+        if (!ladder.has(midi)) ladder.set(midi, note);
+    });
+    return [...ladder.entries()].sort(([a], [b]) => a - b).map(([, note]) => note);
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so "random" plays the same notes live and in exports
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Ladder index (or null for a rest) for each step of a slot
+ */
+function getStepOrder(ladderLength: number, stepCount: number, settings: ArpeggiatorSettings, seed: number): (number | null)[] {
+    switch (settings.direction) {
+        case 'down':
+            return Array.from({ length: stepCount }, (_, i) => ladderLength - 1 - (i % ladderLength));
+        case 'up-down': {
+            // Bounce without repeating the top and bottom notes
+            const cycle = ladderLength > 2
+                ? [...Array(ladderLength).keys(), ...[...Array(ladderLength).keys()].slice(1, -1).reverse()]
+                : [...Array(ladderLength).keys()];
+            return Array.from({ length: stepCount }, (_, i) => cycle[i % cycle.length]);
+        }
+        case 'random': {
+            const random = createRandom(seed);
+            return Array.from({ length: stepCount }, () => Math.floor(random() * ladderLength));
+        }
+        case 'custom': {
+            const steps = settings.steps.length > 0 ? settings.steps : DEFAULT_ARPEGGIATOR.steps;
+            // Grid rows above the ladder wrap back to its bottom
+            return Array.from({ length: stepCount }, (_, i) => {
+                const step = steps[i % steps.length];
+                return step === null ? null : step % ladderLength;
+            });
+        }
+        default:
+            return Array.from({ length: stepCount }, (_, i) => i % ladderLength);
+    }
+}
+
+/**
+ * Render a chord slot as an arpeggio.
+ *
+ * @param voicedNotes   Notes with octaves
+ * @param durationBeats Slot length in quarter-note beats
+ * @param settings      Arpeggiator settings
+ * @param slotStartBeat Song position of the slot; seeds the random direction so every
+ *                      render of the same slot plays the same notes
+ */
+export function renderArpeggio(
+    voicedNotes: string[],
+    durationBeats: number,
+    settings: ArpeggiatorSettings,
+    slotStartBeat: number = 0
+): RhythmNoteEvent[] {
+    if (voicedNotes.length === 0 || durationBeats <= 0) return [];
+
+    const ladder = buildArpeggioLadder(voicedNotes, settings.octaves);
+    const stepBeats = RATE_BEATS[settings.rate] ?? RATE_BEATS.sixteenths;
+    const stepCount = Math.max(1, Math.ceil(durationBeats / stepBeats - EPSILON));
+    const order = getStepOrder(ladder.length, stepCount, settings, Math.round(slotStartBeat * 96) + 1);
+
+    return order.flatMap((index, i) => {
+        if (index === null) return [];
+        const startBeat = i * stepBeats;
+        return [{
+            note: ladder[index],
+            startBeat,
+            durationBeats: Math.min(stepBeats * GATE, durationBeats - startBeat),
+            velocity: i === 0 ? 0.8 : 0.65
+        }];
+    });
+}
@@ -1,6 +1,17 @@
 import * as Tone from 'tone';
-import type { InstrumentType, Song, CustomInstrument, Section } from '../types';
+import { getSectionRhythmPattern, type InstrumentType, type Song, type CustomInstrument, type Section } from '../types';
 import { useSongStore } from '../store/useSongStore';
+import { buildSongTiming, getPreRollStart, getSectionTiming, getSlotAtSeconds, getSlotTiming, type SongTiming } from './songTiming';
+import { buildClickTrack, buildCountIn, createClickSynth, triggerClick } from './metronome';
+import { renderRhythmPattern, type RhythmPatternId } from './rhythmPatterns';
+import { renderArpeggio } from './arpeggiator';
+import { buildBassLine } from './bassLine';
+import { buildDrumTrack, createDrumKit, triggerDrum, type DrumKit } from './drumMachine';
+import { createMixerBus, getMixerTrack, getSongMixer, type MixerBus, type MixerSettings } from './mixer';
+import { createSynthVoice } from './synthVoices';
+import { createFeel, getStrumOrder, type FeelFunction } from './humanize';
+import { voiceLeadProgression } from './voiceLeading';
+import { getChordVoicing, voiceChordNotes } from './chordVoicing';
 
 type InstrumentName = InstrumentType;
 
@@ -31,7 +42,20 @@ let instruments: Record<string, Tone.Sampler | Tone.PolySynth | null> = {
 let currentInstrument: InstrumentName = 'piano';
 let initPromise: Promise<void> | null = null;
 let scheduledEvents: number[] = [];
-let sectionStartTimes: Record<string, number> = {}; // Map sectionId -> startTime (beats)
+let songTiming: SongTiming | null = null; // Positions of the scheduled song, in beats and seconds
+
+// Metronome has its own gain after the effects chain so it can be mixed apart from the instrument
+let metronomeSynth: Tone.Synth | null = null;
+let metronomeGain: Tone.Gain | null = null;
+
+// Mixer: chord, bass and drum channels into a master bus, built with the effects chain
+let mixerBus: MixerBus | null = null;
+
+// Bass track voices, one per instrument, created on first use on the bass channel
+const bassVoices: Partial<Record<InstrumentName, Tone.PolySynth>> = {};
+
+// Drum machine, created on first use on the drum channel so instrument effects don't color it
+let drumKit: DrumKit | null = null;
 
 // iOS-specific audio unlock state
 let isAudioUnlocked = false;
@@ -261,7 +285,8 @@ let currentDelayFeedback = 0.3;
 let currentTremoloDepth = 0;
 let currentPhaserMix = 0;
 let currentFilterMix = 0;
-// Chain: Instrument -> PitchShift -> Vibrato -> Tremolo -> AutoFilter -> Phaser -> Distortion -> EQ3 -> Gain -> Chorus -> Delay -> Reverb -> Limiter -> Destination
+// Chain: Instrument -> PitchShift -> Vibrato -> Tremolo -> AutoFilter -> Phaser -> Distortion -> EQ3 -> Gain -> Chorus -> Delay -> Reverb -> Chords channel -> Master bus -> Limiter -> Destination
+// Bass and drum tracks skip the instrument effects and go straight to their own channels
 let masterEQ: Tone.EQ3 | null = null;
 let masterGain: Tone.Gain | null = null;
 let masterReverb: Tone.Reverb | null = null;
@@ -284,13 +309,18 @@ const initMasterEffectsChain = async () => {
         Tone.Destination.volume.value = -6;
     }
 
-    // Create reverb (connects to limiter)
+    // Create the mixer (connects to limiter) with the current song's mix
+    if (!mixerBus) {
+        mixerBus = await createMixerBus(getSongMixer(useSongStore.getState().currentSong), masterLimiter);
+    }
+
+    // Create reverb (connects to the chords channel)
     if (!masterReverb) {
         masterReverb = new Tone.Reverb({
             decay: 4.0,
             wet: currentReverbMix,
             preDelay: 0.02
-        }).connect(masterLimiter);
+        }).connect(mixerBus.channels.chords.input);
         await masterReverb.ready;
     }
 
@@ -632,6 +662,41 @@ export const setMute = (muted: boolean) => {
     Tone.Destination.mute = muted;
 };
 
+const getMetronome = (): Tone.Synth => {
+    if (!metronomeSynth) {
+        metronomeGain = new Tone.Gain(useSongStore.getState().metronomeVolume)
+            .connect(masterLimiter ?? Tone.getDestination());
+        metronomeSynth = createClickSynth(metronomeGain);
+    }
+    return metronomeSynth;
+};
+
+export const setMetronomeVolume = (volume: number) => {
+    metronomeGain?.gain.rampTo(volume, 0.05);
+};
+
+/**
+ * Apply a song's mix (track levels, pans, mute/solo, sends and master level)
+ */
+export const setMixer = (mixer: MixerSettings) => {
+    mixerBus?.apply(mixer);
+};
+
+const getBassVoice = (name: InstrumentName): Tone.PolySynth | null => {
+    if (!mixerBus) return null;
+    if (!bassVoices[name]) {
+        bassVoices[name] = createSynthVoice(name, mixerBus.channels.bass.input);
+    }
+    return bassVoices[name] ?? null;
+};
+
+const getDrumKit = (): DrumKit => {
+    if (!drumKit) {
+        drumKit = createDrumKit(mixerBus?.channels.drums.input ?? masterLimiter ?? Tone.getDestination());
+    }
+    return drumKit;
+};
+
 export const initAudio = async () => {
     if (initPromise) return initPromise;
 
@@ -885,12 +950,9 @@ export const initAudio = async () => {
     }
 };
 
-// NOTES array for octave calculation
-const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
 /**
  * Play a chord with proper voicing
- * Notes are spread across octaves to sound musical
+ * Notes are spread across octaves to sound musical; notes with octaves play as given
  */
 export const playChord = async (notes: string[], duration: string | number = "1n", time?: number | string) => {
     if (Tone.context.state !== 'running') {
@@ -908,40 +970,7 @@ export const playChord = async (notes: string[], duration: string | number = "1n
         return;
     }
 
-    // Build voiced notes with proper octaves
-    // Root in octave 3, rest spread intelligently
-    const rootNote = notes[0];
-    const rootIndex = NOTES.indexOf(rootNote.replace(/\d/, ''));
-
-    const voicedNotes = notes.map((note, i) => {
-        // If note already has octave, use it
-        if (note.match(/\d/)) return note;
-
-        const noteName = note;
-        const noteIndex = NOTES.indexOf(noteName);
-
-        if (i === 0) {
-            // Root note in octave 3
-            return `${noteName}3`;
-        }
-
-        // Other notes: if they're "below" the root in the chromatic scale, put them an octave up
-        // This creates proper voice leading
-        let octave = 3;
-        if (noteIndex < rootIndex || (noteIndex - rootIndex > 6)) {
-            octave = 4;
-        }
-
-        // For extended chords (9, 11, 13), put those even higher
-        if (i >= 4) {
-            octave = 4;
-        }
-        if (i >= 5) {
-            octave = 5;
-        }
-
-        return `${noteName}${octave}`;
-    });
+    const voicedNotes = voiceChordNotes(notes);
 
     let inst = instruments[currentInstrument];
 
@@ -964,6 +993,56 @@ export const playChord = async (notes: string[], duration: string | number = "1n
     }
 };
 
+/**
+ * Play a chord slot with a rhythm pattern (strums, comping, arpeggios...) starting at `time`.
+ * The arpeggiator, when on, replaces the pattern; it is read at play time so edits are heard
+ * on the next chord. Events are in beats; the song's feel (swing and humanize) places them
+ * in seconds, relative to the slot start at `time`.
+ * The chord track's mixer instrument, when set, plays instead of the selected instrument.
+ */
+const playChordPattern = async (
+    notes: string[],
+    slot: { startBeat: number; startSeconds: number; durationBeats: number; secondsPerBeat: number },
+    pattern: RhythmPatternId,
+    timeSignature: [number, number],
+    time: number,
+    feel: FeelFunction,
+    instrument: InstrumentName = currentInstrument
+) => {
+    const { startBeat, startSeconds, durationBeats, secondsPerBeat } = slot;
+    await initAudio();
+
+    let inst = instruments[instrument];
+    if (!inst) {
+        inst = instruments.piano;
+    }
+    if (!inst) {
+        console.error('No instrument available to play!');
+        return;
+    }
+
+    try {
+        const voicedNotes = voiceChordNotes(notes);
+        const { arpeggiator } = useSongStore.getState();
+        const events = arpeggiator.enabled
+            ? renderArpeggio(voicedNotes, durationBeats, arpeggiator, startBeat)
+            : renderRhythmPattern(voicedNotes, durationBeats, pattern, { timeSignature, secondsPerBeat });
+
+        const strumOrder = getStrumOrder(events);
+        events.forEach((event, i) => {
+            const hit = feel({ ...event, startBeat: startBeat + event.startBeat }, event.note, strumOrder[i]);
+            inst!.triggerAttackRelease(
+                event.note,
+                hit.durationSeconds,
+                time + hit.startSeconds - startSeconds,
+                hit.velocity
+            );
+        });
+    } catch (err) {
+        console.error(`Failed to play chord pattern`, err);
+    }
+};
+
 /**
  * Play a single note with the current instrument
  * Used for interactive piano keyboard
@@ -999,6 +1078,7 @@ export const playNote = async (note: string, octave: number = 4, duration: strin
 
 export const stopAudio = () => {
     Object.values(instruments).forEach(inst => inst?.releaseAll());
+    Object.values(bassVoices).forEach(voice => voice?.releaseAll());
     Tone.Transport.stop();
     // Cancel all scheduled events
     Tone.Transport.cancel(0);
@@ -1013,80 +1093,130 @@ export const stopAudio = () => {
 // --- Sequencing ---
 
 /**
- * Formats beats into Tone.js "bars:quarters:sixteenths" format assuming 4/4
- * This is just for Transport scheduling compatibility.
+ * Timing of the song currently on the Transport.
+ * Transport time is in seconds, so seeks and loops use each position's startSeconds.
  */
-const beatsToTransportTime = (beats: number): string => {
-    const bars = Math.floor(beats / 4);
-    const quarters = Math.floor(beats % 4);
-    const sixteenths = Math.floor((beats % 1) * 4);
-    return `${bars}:${quarters}:${sixteenths}`;
-};
+export const getScheduledTiming = (): SongTiming | null => songTiming;
 
 export const scheduleSong = (song: Song) => {
     // Clear previous schedule
     Tone.Transport.cancel(0); // Clear everything to prevent ghosts
     scheduledEvents = [];
-    sectionStartTimes = {};
 
     // --- TIME-BASED SCHEDULING ---
     // We bypass Tone's "bars:beats" grid because it defaults to 4/4 and is hard to change dynamically.
-    // Instead, we calculate the exact time in seconds for every beat.
-
-    const currentTempo = useSongStore.getState().tempo;
-    const secondsPerBeat = 60 / currentTempo;
-
-    let cumulativeTime = 0;
-
-    song.sections.forEach(section => {
-        sectionStartTimes[section.id] = cumulativeTime; // Store start time in seconds
-        section.measures.forEach(measure => {
-            measure.beats.forEach(beat => {
-                const durationSeconds = beat.duration * secondsPerBeat;
-                const scheduledTime = cumulativeTime;
-
-
-
-                // Schedule the event at this exact time
-                const eventId = Tone.Transport.schedule((time) => {
-                    // Update UI - calculate delay from now
-                    const delaySeconds = Math.max(0, time - Tone.context.currentTime);
-                    const delayMs = delaySeconds * 1000;
+    // Instead, every slot is scheduled at its exact time in seconds from the song timing,
+    // which already accounts for section time signatures and tempos.
+    // Seconds are converted to Transport ticks at the current BPM, so both must agree
+    const { tempo } = useSongStore.getState();
+    Tone.Transport.bpm.value = tempo;
+    songTiming = buildSongTiming(song, tempo);
+
+    const timing = songTiming;
+    const mixer = getSongMixer(song);
+    const chordInstrument = getMixerTrack(mixer, 'chords').instrument;
+    const { feel: feelSettings, voiceLeading } = useSongStore.getState();
+    const feel = createFeel(timing, feelSettings);
+    // Each chord voiced from the one before instead of from octave 3 up
+    const voicings = voiceLeading.enabled
+        ? voiceLeadProgression(timing.slots.map(({ slot }) => slot.chord), voiceLeading)
+        : [];
+    timing.slots.forEach(({ slot, sectionId, sectionIndex, startBeat, startSeconds, durationBeats, durationSeconds }, index) => {
+        const sectionTiming = timing.sections[sectionIndex];
+        const pattern = getSectionRhythmPattern(sectionTiming.section, song);
+        const eventId = Tone.Transport.schedule((time) => {
+            // Update UI - calculate delay from now
+            const delaySeconds = Math.max(0, time - Tone.context.currentTime);
+            const delayMs = delaySeconds * 1000;
+
+            setTimeout(() => {
+                useSongStore.getState().setPlayingSlot(sectionId, slot.id);
+            }, delayMs);
+
+            // Play Sound with the section's rhythm pattern
+            if (slot.chord) {
+                playChordPattern(
+                    voicings[index]?.notes ?? getChordVoicing(slot.chord),
+                    { startBeat, startSeconds, durationBeats, secondsPerBeat: durationSeconds / durationBeats },
+                    pattern,
+                    sectionTiming.timeSignature,
+                    time,
+                    feel,
+                    chordInstrument
+                );
+            }
+        }, startSeconds);
 
-                    setTimeout(() => {
-                        useSongStore.getState().setPlayingSlot(section.id, beat.id);
-                    }, delayMs);
+        scheduledEvents.push(eventId);
+    });
 
-                    // Play Sound
-                    if (beat.chord) {
-                        playChord(beat.chord.notes, durationSeconds, time);
-                    }
-                }, scheduledTime);
+    // Bass line follows the chord changes on the bass track's instrument
+    const bassInstrument = getMixerTrack(mixer, 'bass').instrument ?? 'bass';
+    buildBassLine(timing, useSongStore.getState().bassStyle).forEach(bassNote => {
+        const hit = feel(bassNote, bassNote.note);
+        scheduledEvents.push(Tone.Transport.schedule((time) => {
+            getBassVoice(bassInstrument)?.triggerAttackRelease(bassNote.note, hit.durationSeconds, time, hit.velocity);
+        }, hit.startSeconds));
+    });
 
-                scheduledEvents.push(eventId);
+    // Drum groove adapts to each section's meter, with a fill into the next section
+    buildDrumTrack(timing, useSongStore.getState().drumGroove).forEach(drumHit => {
+        const hit = feel({ ...drumHit, durationBeats: 0 }, drumHit.voice);
+        scheduledEvents.push(Tone.Transport.schedule((time) => {
+            triggerDrum(getDrumKit(), drumHit.voice, time, hit.velocity);
+        }, hit.startSeconds));
+    });
 
-                // Advance time for next event
-                cumulativeTime += durationSeconds;
-            });
+    // Click track follows each section's meter and tempo
+    const { metronomeEnabled, metronomeSubdivision } = useSongStore.getState();
+    if (metronomeEnabled) {
+        buildClickTrack(songTiming, metronomeSubdivision).forEach(click => {
+            scheduledEvents.push(Tone.Transport.schedule((time) => {
+                triggerClick(getMetronome(), click.accent, time);
+            }, click.time));
         });
-    });
+    }
 
     // Handle Looping
 
     Tone.Transport.loopStart = 0;
-    Tone.Transport.loopEnd = cumulativeTime;
+    Tone.Transport.loopEnd = songTiming.totalSeconds;
     Tone.Transport.loop = useSongStore.getState().isLooping;
 
     if (!Tone.Transport.loop) {
         // Schedule stop at the end
         const stopId = Tone.Transport.schedule(() => {
             stopAudio();
-        }, cumulativeTime);
+        }, songTiming.totalSeconds);
         scheduledEvents.push(stopId);
+    } else {
+        // Narrow the loop to the A–B range or playing section
+        toggleLoopMode();
     }
 };
 
 
+/**
+ * Start the Transport from its current position, after a count-in when one is set.
+ * The count-in uses the meter and tempo of the section playback starts in.
+ */
+const startTransport = () => {
+    const { countInBars } = useSongStore.getState();
+    const slot = songTiming ? getSlotAtSeconds(songTiming, Tone.Transport.seconds) ?? songTiming.slots[0] : undefined;
+    const section = slot && songTiming ? songTiming.sections[slot.sectionIndex] : undefined;
+
+    if (countInBars <= 0 || !section) {
+        Tone.Transport.start();
+        return;
+    }
+
+    const { clicks, duration } = buildCountIn(section.timeSignature, section.tempo, countInBars);
+    const startAt = Tone.now() + 0.05;
+    const synth = getMetronome();
+    clicks.forEach(click => triggerClick(synth, click.accent, startAt + click.time));
+    Tone.Transport.start(startAt + duration);
+};
+
 export const playSection = async (section: Section) => {
     await initAudio();
     if (Tone.context.state !== 'running') {
@@ -1107,7 +1237,7 @@ export const playSection = async (section: Section) => {
 
     scheduleSong(tempSong);
 
-    Tone.Transport.start();
+    startTransport();
     useSongStore.getState().setIsPlaying(true);
 };
 
@@ -1130,7 +1260,38 @@ export const playSong = async () => {
         scheduleSong(currentSong);
     }
 
-    Tone.Transport.start();
+    startTransport();
+};
+
+/**
+ * Start playback at a slot and carry on through the rest of the song.
+ * With pre-roll (the store setting unless overridden) playback starts at the
+ * beginning of the previous bar so the entry has a lead-in.
+ */
+export const playFromSlot = async (slotId: string, options: { preRoll?: boolean } = {}) => {
+    await initAudio();
+    if (Tone.context.state !== 'running') {
+        await Tone.context.resume();
+    }
+
+    const { currentSong, preRoll } = useSongStore.getState();
+
+    // Always reschedule so the position is measured against the current song
+    Tone.Transport.stop();
+    scheduleSong(currentSong);
+
+    const slot = songTiming ? getSlotTiming(songTiming, slotId) : undefined;
+    if (!slot || !songTiming) {
+        await playSong();
+        useSongStore.getState().setIsPlaying(true);
+        return;
+    }
+
+    Tone.Transport.seconds = (options.preRoll ?? preRoll)
+        ? getPreRollStart(songTiming, slot)
+        : slot.startSeconds;
+    startTransport();
+    useSongStore.getState().setIsPlaying(true);
 };
 
 export const pauseSong = () => {
@@ -1162,10 +1323,9 @@ export const skipToSection = (direction: 'prev' | 'next') => {
     if (targetIndex < 0) targetIndex = 0;
 
     const targetSectionId = sectionIds[targetIndex];
-    const targetTimeBeats = sectionStartTimes[targetSectionId] || 0;
-    const transportTime = beatsToTransportTime(targetTimeBeats);
+    const targetTiming = songTiming ? getSectionTiming(songTiming, targetSectionId) : undefined;
 
-    Tone.Transport.position = transportTime;
+    Tone.Transport.seconds = targetTiming?.startSeconds ?? 0;
 
     // Manually trigger the UI update in case Transport doesn't fire immediately
     // or if paused
@@ -1177,24 +1337,31 @@ export const skipToSection = (direction: 'prev' | 'next') => {
 };
 
 export const toggleLoopMode = () => {
-    const { isLooping, playingSectionId, selectedSectionId, currentSong } = useSongStore.getState();
+    const { isLooping, loopRange, playingSectionId, selectedSectionId, currentSong } = useSongStore.getState();
+
+    if (isLooping && loopRange) {
+        // A–B loop from the start of the first slot to the end of the last
+        const timing = songTiming ?? buildSongTiming(currentSong, useSongStore.getState().tempo);
+        const start = getSlotTiming(timing, loopRange.startSlotId);
+        const end = getSlotTiming(timing, loopRange.endSlotId);
+
+        if (start && end && end.startSeconds >= start.startSeconds) {
+            Tone.Transport.loopStart = start.startSeconds;
+            Tone.Transport.loopEnd = end.startSeconds + end.durationSeconds;
+            Tone.Transport.loop = true;
+            return;
+        }
+    }
 
     if (isLooping) {
         // Find section to loop: either currently playing or selected
         const targetSectionId = playingSectionId || selectedSectionId;
-        const section = currentSong.sections.find((s: { id: string }) => s.id === targetSectionId);
+        const timing = songTiming ?? buildSongTiming(currentSong, useSongStore.getState().tempo);
+        const section = targetSectionId ? getSectionTiming(timing, targetSectionId) : undefined;
 
         if (section) {
-            const startBeats = sectionStartTimes[section.id] ?? 0;
-
-            // Calculate duration of section
-            let duration = 0;
-            section.measures.forEach((m: { beats: any[] }) => m.beats.forEach((b: { duration: number }) => duration += b.duration));
-
-            const endBeats = startBeats + duration;
-
-            Tone.Transport.loopStart = beatsToTransportTime(startBeats);
-            Tone.Transport.loopEnd = beatsToTransportTime(endBeats);
+            Tone.Transport.loopStart = section.startSeconds;
+            Tone.Transport.loopEnd = section.startSeconds + section.durationSeconds;
             Tone.Transport.loop = true;
             return;
         }
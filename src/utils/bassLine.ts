@@ -0,0 +1,150 @@
+/**
+ * Bass Line
+ *
+ * Generates a bass part from the chord slots: root notes, root-fifth, a walking line
+ * with chromatic approach tones, or octave pops. The bass follows each chord's lowest
+ * note, so inversions and slash chords (C/E) put their bass note under the chord.
+ *
+ * Notes come back with positions in beats and seconds from the song timing, so live
+ * playback, audio export and MIDI export all play the same line.
+ */
+
+import { toPitchClass, type Chord } from './musicTheory';
+import { midiToNoteName } from './chordVoicing';
+import type { SongTiming } from './songTiming';
+
+export type BassStyle = 'off' | 'root' | 'root-fifth' | 'walking' | 'octave';
+
+export interface BassNoteEvent {
+    note: string;       // With octave, e.g. "E1"
+    startBeat: number;  // From the song start
+    durationBeats: number;
+    startSeconds: number;
+    durationSeconds: number;
+    velocity: number;   // 0-1
+}
+
+export const BASS_STYLES: { value: BassStyle; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'root', label: 'Root' },
+    { value: 'root-fifth', label: 'Root–5th' },
+    { value: 'walking', label: 'Walking' },
+    { value: 'octave', label: 'Octave Pop' },
+];
+
+// Bass notes sit between E1 (lowest open string on a bass) and D#2
+const LOWEST_BASS_MIDI = 28;
+
+// Slightly detached so repeated notes re-articulate
+const GATE = 0.92;
+
+/**
+ * The note the bass plays under a chord: slash bass, else the lowest chord note
+ */
+export function getChordBassNote(chord: Chord): string {
+    return chord.bassNote ?? chord.notes[0] ?? chord.root;
+}
+
+/**
+ * MIDI number of a pitch class in the bass register
+ */
+function toBassRegister(pitchClass: number): number {
+    return LOWEST_BASS_MIDI + ((pitchClass - LOWEST_BASS_MIDI % 12 + 12) % 12);
+}
+
+/**
+ * Chord tones stacked above the bass note, as semitone offsets (0 first)
+ */
+function getChordToneOffsets(chord: Chord, bassPc: number): number[] {
+    const offsets = chord.notes.map(toPitchClass).filter(pc => pc !== -1).map(pc => toPitchClass(pc - bassPc));
+    return [...new Set([0, ...offsets])].sort((a, b) => a - b);
+}
+
+type BassHit = { midi: number; startBeat: number; durationBeats: number; velocity: number };
+
+/**
+ * Bass hits for one slot, in beats from the slot start
+ */
+function renderBassSlot(chord: Chord, durationBeats: number, style: BassStyle, nextChord: Chord | null): BassHit[] {
+    const bassPc = toPitchClass(getChordBassNote(chord));
+    if (bassPc === -1) return [];
+
+    const root = toBassRegister(bassPc);
+    const fifth = root + 7;
+    const note = (midi: number, startBeat: number, length: number, velocity: number): BassHit => ({
+        midi,
+        startBeat,
+        durationBeats: Math.min(length, durationBeats - startBeat) * GATE,
+        velocity
+    });
+
+    switch (style) {
+        case 'root-fifth': {
+            // Half notes alternating root and fifth; shorter slots just play the root
+            const step = durationBeats >= 2 ? 2 : durationBeats;
+            const hits: BassHit[] = [];
+            for (let beat = 0, i = 0; beat < durationBeats - 1e-6; beat += step, i++) {
+                hits.push(note(i % 2 === 0 ? root : fifth, beat, step, i === 0 ? 0.9 : 0.75));
+            }
+            return hits;
+        }
+
+        case 'walking': {
+            // Quarter notes up through the chord tones, last beat leads chromatically into the next bass note
+            const beats = Math.max(1, Math.floor(durationBeats + 1e-6));
+            const tones = getChordToneOffsets(chord, bassPc).map(offset => root + offset);
+            const walk = [...tones, root + 12];
+            const targetPc = nextChord ? toPitchClass(getChordBassNote(nextChord)) : -1;
+            const target = targetPc === -1 ? null : toBassRegister(targetPc);
+
+            return Array.from({ length: beats }, (_, i) => {
+                let midi = walk[i % walk.length];
+                if (i === beats - 1 && i > 0 && target !== null) {
+                    // Approach from a half step below, or above when the line is already higher
+                    const previous = walk[(i - 1) % walk.length];
+                    midi = previous > target ? target + 1 : target - 1;
+                }
+                return note(midi, i, 1, i === 0 ? 0.9 : 0.75);
+            });
+        }
+
+        case 'octave': {
+            // Eighth notes popping between the root and its octave
+            const hits: BassHit[] = [];
+            for (let beat = 0, i = 0; beat < durationBeats - 1e-6; beat += 0.5, i++) {
+                hits.push(note(i % 2 === 0 ? root : root + 12, beat, 0.5, i % 2 === 0 ? 0.85 : 0.65));
+            }
+            return hits;
+        }
+
+        case 'root':
+            return [note(root, 0, durationBeats, 0.85)];
+
+        default:
+            return [];
+    }
+}
+
+/**
+ * Generate the bass part for a whole song. Empty slots rest.
+ */
+export function buildBassLine(timing: SongTiming, style: BassStyle): BassNoteEvent[] {
+    if (style === 'off') return [];
+
+    return timing.slots.flatMap((slotTiming, index) => {
+        const { chord } = slotTiming.slot;
+        if (!chord || chord.notes.length === 0) return [];
+
+        const nextChord = timing.slots[index + 1]?.slot.chord ?? null;
+        const secondsPerBeat = slotTiming.durationSeconds / slotTiming.durationBeats;
+
+        return renderBassSlot(chord, slotTiming.durationBeats, style, nextChord).map(hit => ({
+            note: midiToNoteName(hit.midi),
+            startBeat: slotTiming.startBeat + hit.startBeat,
+            durationBeats: hit.durationBeats,
+            startSeconds: slotTiming.startSeconds + hit.startBeat * secondsPerBeat,
+            durationSeconds: hit.durationBeats * secondsPerBeat,
+            velocity: hit.velocity
+        }));
+    });
+}
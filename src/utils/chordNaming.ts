@@ -0,0 +1,62 @@
+/**
+ * Chord Naming
+ *
+ * Names a set of sounding notes: every quality is tried on every note as the root, and
+ * the chords whose tones cover the notes are returned best first. A chord may leave out
+ * the tones a player would (the fifth of a seventh chord, the 9th and 11th of larger
+ * ones) but never plays a note outside it. Exact matches beat ones with omissions, a
+ * root in the bass beats an inversion, and smaller chords beat larger ones.
+ */
+
+import { getOptionalIntervals } from './chordShapeValidator';
+import { NOTES, getChordNotes, toPitchClass } from './musicTheory';
+
+export interface ChordName {
+    root: string;     // Sharp spelling, as in NOTES
+    quality: string;
+    exact: boolean;   // Every chord tone sounds
+    inversion: boolean; // The bass isn't the root
+}
+
+// Qualities tried, as the chord panel names them
+const NAMEABLE_QUALITIES = [
+    'major', 'minor', 'diminished', 'augmented', 'sus2', 'sus4',
+    '6', 'm6', '7', 'maj7', 'm7', 'dim7', 'm7b5', '7sus4',
+    'add9', '9', 'maj9', 'm9', '11', 'm11', '13', 'maj13', 'm13'
+];
+
+/**
+ * Chords the pitch classes could be, best first. `bass` is the lowest sounding pitch class.
+ */
+export function nameChord(pitchClasses: number[], bass?: number): ChordName[] {
+    const sounding = [...new Set(pitchClasses.map(toPitchClass))];
+    if (sounding.length < 2) return [];
+
+    const names: (ChordName & { size: number })[] = [];
+    sounding.forEach(rootPc => {
+        NAMEABLE_QUALITIES.forEach(quality => {
+            const tones = [...new Set(getChordNotes(NOTES[rootPc], quality).map(toPitchClass))];
+            if (!sounding.every(note => tones.includes(note))) return;
+
+            const optional = getOptionalIntervals(tones.map(tone => toPitchClass(tone - rootPc)));
+            const missing = tones.filter(tone => !sounding.includes(tone));
+            if (missing.some(tone => !optional.includes(toPitchClass(tone - rootPc)))) return;
+
+            names.push({
+                root: NOTES[rootPc],
+                quality,
+                exact: missing.length === 0,
+                inversion: bass !== undefined && toPitchClass(bass) !== rootPc,
+                size: tones.length
+            });
+        });
+    });
+
+    return names
+        .sort((a, b) =>
+            Number(b.exact) - Number(a.exact) ||
+            Number(a.inversion) - Number(b.inversion) ||
+            a.size - b.size
+        )
+        .map(({ root, quality, exact, inversion }) => ({ root, quality, exact, inversion }));
+}
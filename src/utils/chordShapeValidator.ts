@@ -0,0 +1,191 @@
+/**
+ * Chord Shape Validator
+ *
+ * Checks a fretted chord shape against the chord it claims to be and against what a
+ * hand can do:
+ * - notes: every sounding note belongs to the chord, and no required tone is missing
+ * - span: fretted notes fit under four fingers' reach
+ * - barres: nothing is fretted behind a barre, and barres don't cross each other
+ * - fingering: one finger per fret, fingers 1-4, fretted strings fingered, open ones not
+ * - root: the root sounds somewhere
+ *
+ * Used for database shapes, solved shapes and user-entered shapes alike. Errors mean the
+ * shape is wrong or unplayable; warnings mean it is playable but questionable.
+ */
+
+import { guitarChords, STANDARD_TUNING, type GuitarChordShape } from './guitarChordData';
+import { NOTES, getChordNotes, toPitchClass } from './musicTheory';
+
+export type ShapeIssueKind = 'malformed' | 'wrongNotes' | 'missingNotes' | 'span' | 'behindBarre' | 'barreOverlap' | 'fingering' | 'mutedRoot';
+
+export interface ShapeIssue {
+    kind: ShapeIssueKind;
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface ShapeAuditEntry {
+    root: string;
+    quality: string;
+    index: number; // Position in the database's list for this chord
+    shape: GuitarChordShape;
+    issues: ShapeIssue[];
+}
+
+// Lowest to highest fretted note, in frets (index on 1, pinky on 5 is already a stretch)
+const MAX_FRET_SPAN = 4;
+const MAX_FINGERS = 4;
+
+/**
+ * Chord tones a shape may leave out, as intervals above the root: the fifth of
+ * four-note chords, the 11th and 9th of six-note ones
+ */
+export function getOptionalIntervals(intervals: number[]): number[] {
+    const optional: number[] = [];
+    if (intervals.length >= 4 && intervals.includes(7)) optional.push(7);
+    if (intervals.length >= 6) optional.push(5, 2);
+    return optional;
+}
+
+/**
+ * MIDI notes a shape sounds, string by string (muted strings left out)
+ */
+export function getShapePitches(shape: GuitarChordShape, tuning: number[]): number[] {
+    return shape.frets.flatMap((fret, string) =>
+        fret < 0 ? [] : [tuning[string] + (fret === 0 ? 0 : fret + shape.baseFret - 1)]
+    );
+}
+
+/**
+ * Strings covered by a barre: from the first to the last string fretted at its fret
+ */
+function getBarreRange(frets: number[], barreFret: number): { first: number; last: number } | null {
+    const strings = frets.flatMap((fret, string) => fret === barreFret ? [string] : []);
+    if (strings.length < 2) return null;
+    return { first: Math.min(...strings), last: Math.max(...strings) };
+}
+
+function checkStructure(shape: GuitarChordShape, tuning: number[]): ShapeIssue[] {
+    const { frets, fingers, baseFret } = shape;
+    const issues: ShapeIssue[] = [];
+    if (frets.length !== tuning.length || fingers.length !== tuning.length) {
+        issues.push({ kind: 'malformed', severity: 'error', message: `Shape has ${frets.length} frets and ${fingers.length} fingers for ${tuning.length} strings` });
+    }
+    if (!Number.isInteger(baseFret) || baseFret < 1) {
+        issues.push({ kind: 'malformed', severity: 'error', message: `Base fret ${baseFret} is not a fret` });
+    }
+    if (frets.some(fret => !Number.isInteger(fret) || fret < -1)) {
+        issues.push({ kind: 'malformed', severity: 'error', message: 'Frets must be -1 (muted), 0 (open) or a fret number' });
+    }
+    if (frets.every(fret => fret < 0)) {
+        issues.push({ kind: 'malformed', severity: 'error', message: 'Every string is muted' });
+    }
+    return issues;
+}
+
+function checkNotes(shape: GuitarChordShape, root: string, quality: string, tuning: number[]): ShapeIssue[] {
+    const rootPc = toPitchClass(root);
+    const chordPcs = [...new Set(getChordNotes(root, quality).map(toPitchClass).filter(note => note !== -1))];
+    if (rootPc === -1 || chordPcs.length === 0) return [];
+
+    const sounding = getShapePitches(shape, tuning).map(toPitchClass);
+    const issues: ShapeIssue[] = [];
+
+    const wrong = [...new Set(sounding.filter(note => !chordPcs.includes(note)))];
+    if (wrong.length > 0) {
+        issues.push({ kind: 'wrongNotes', severity: 'error', message: `Plays ${wrong.map(note => NOTES[note]).join(', ')}, not in the chord` });
+    }
+
+    const optional = getOptionalIntervals(chordPcs.map(note => toPitchClass(note - rootPc)));
+    const missing = chordPcs.filter(note => !sounding.includes(note) && !optional.includes(toPitchClass(note - rootPc)));
+    if (missing.includes(rootPc)) {
+        issues.push({ kind: 'mutedRoot', severity: 'warning', message: 'The root doesn\'t sound' });
+    }
+    const missingTones = missing.filter(note => note !== rootPc);
+    if (missingTones.length > 0) {
+        issues.push({ kind: 'missingNotes', severity: 'warning', message: `Leaves out ${missingTones.map(note => NOTES[note]).join(', ')}` });
+    }
+    return issues;
+}
+
+function checkHand(shape: GuitarChordShape): ShapeIssue[] {
+    const { frets, fingers, barres } = shape;
+    const issues: ShapeIssue[] = [];
+
+    const fretted = frets.filter(fret => fret > 0);
+    if (fretted.length > 0 && Math.max(...fretted) - Math.min(...fretted) > MAX_FRET_SPAN) {
+        issues.push({ kind: 'span', severity: 'warning', message: `Stretches across ${Math.max(...fretted) - Math.min(...fretted) + 1} frets` });
+    }
+
+    // Fretted notes behind a barre can't be reached
+    barres.forEach(barreFret => {
+        const range = getBarreRange(frets, barreFret);
+        if (!range) return;
+        for (let string = range.first; string <= range.last; string++) {
+            if (frets[string] >= 0 && frets[string] < barreFret) {
+                issues.push({ kind: 'behindBarre', severity: 'error', message: `String ${string + 1} is ${frets[string] === 0 ? 'open' : `fretted at ${frets[string]}`} under the barre at fret ${barreFret}` });
+            }
+        }
+    });
+
+    // Two barres over the same strings would put the lower one behind the higher
+    barres.forEach((lower, i) => barres.slice(i + 1).forEach(higher => {
+        const a = getBarreRange(frets, lower);
+        const b = getBarreRange(frets, higher);
+        if (a && b && a.first <= b.last && b.first <= a.last) {
+            issues.push({ kind: 'barreOverlap', severity: 'error', message: `Barres at frets ${Math.min(lower, higher)} and ${Math.max(lower, higher)} cross the same strings` });
+        }
+    }));
+
+    // One finger per fret, fingers 1-4 on fretted strings only
+    const fingerFrets = new Map<number, Set<number>>();
+    frets.forEach((fret, string) => {
+        const finger = fingers[string] ?? 0;
+        if (fret <= 0 && finger !== 0) {
+            issues.push({ kind: 'fingering', severity: 'error', message: `String ${string + 1} is ${fret === 0 ? 'open' : 'muted'} but has finger ${finger}` });
+        } else if (fret > 0 && (finger < 1 || finger > MAX_FINGERS)) {
+            issues.push({ kind: 'fingering', severity: 'warning', message: `String ${string + 1} is fretted without a finger` });
+        } else if (fret > 0) {
+            fingerFrets.set(finger, new Set([...(fingerFrets.get(finger) ?? []), fret]));
+        }
+    });
+    fingerFrets.forEach((fretsForFinger, finger) => {
+        if (fretsForFinger.size > 1) {
+            issues.push({ kind: 'fingering', severity: 'error', message: `Finger ${finger} is on frets ${[...fretsForFinger].sort((a, b) => a - b).join(' and ')}` });
+        }
+    });
+
+    // Higher fingers sit on higher frets
+    const placed = [...fingerFrets.entries()].map(([finger, set]) => ({ finger, fret: Math.min(...set) }));
+    const crossed = placed.some(a => placed.some(b => a.finger < b.finger && a.fret > b.fret));
+    if (crossed) {
+        issues.push({ kind: 'fingering', severity: 'warning', message: 'Fingers cross: a lower finger is on a higher fret' });
+    }
+
+    return issues;
+}
+
+/**
+ * Everything wrong with a shape for a chord on a tuning
+ */
+export function validateChordShape(shape: GuitarChordShape, root: string, quality: string, tuning: number[] = STANDARD_TUNING): ShapeIssue[] {
+    const structure = checkStructure(shape, tuning);
+    if (structure.length > 0) return structure;
+    return [...checkNotes(shape, root, quality, tuning), ...checkHand(shape)];
+}
+
+export const hasShapeErrors = (issues: ShapeIssue[]) => issues.some(issue => issue.severity === 'error');
+
+/**
+ * Every database shape that fails validation
+ */
+export function auditChordDatabase(): ShapeAuditEntry[] {
+    return Object.entries(guitarChords).flatMap(([root, qualities]) =>
+        Object.entries(qualities).flatMap(([quality, shapes]) =>
+            shapes.flatMap((shape, index) => {
+                const issues = validateChordShape(shape, root, quality);
+                return issues.length > 0 ? [{ root, quality, index, shape, issues }] : [];
+            })
+        )
+    );
+}
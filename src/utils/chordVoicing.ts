@@ -0,0 +1,114 @@
+/**
+ * Chord Voicing
+ *
+ * Where each note of a chord sits on the keyboard. A chord stores pitch classes, so
+ * unless it carries an explicit voicing (notes with octaves, laid out by the user)
+ * the notes are stacked from the first one in octave 3. Live playback, audio export
+ * and MIDI export all voice chords here, so they play exactly the same notes.
+ */
+
+import { NOTES, getPitchClass, toPitchClass, type Chord } from './musicTheory';
+
+const OCTAVE_PATTERN = /-?\d+$/;
+
+export const midiToNoteName = (midi: number) => `${NOTES[toPitchClass(midi)]}${Math.floor(midi / 12) - 1}`;
+
+/**
+ * MIDI number of a note with an octave (middle C = C4 = 60); -1 without one
+ */
+export function noteToMidi(note: string): number {
+    const octave = note.match(OCTAVE_PATTERN)?.[0];
+    const pitchClass = toPitchClass(note);
+    if (octave === undefined || pitchClass === -1) return -1;
+    // Read the letter's octave, so B#3 is C4 and Cb4 is B3
+    const letter = note[0].toUpperCase();
+    const letterPc = getPitchClass(letter);
+    const offset = pitchClass - letterPc;
+    const wrap = offset > 6 ? -12 : offset < -6 ? 12 : 0;
+    return (parseInt(octave, 10) + 1) * 12 + letterPc + offset + wrap;
+}
+
+/**
+ * Close-position stack of pitch classes: the first note at `bassMidi`, each following
+ * note the next one of its pitch class above
+ */
+export function stackVoicing(pitchClasses: number[], bassMidi: number): number[] {
+    const midi: number[] = [];
+    pitchClasses.forEach((pc, i) => {
+        if (i === 0) {
+            midi.push(bassMidi);
+            return;
+        }
+        const previous = midi[i - 1];
+        const step = toPitchClass(pc - previous);
+        midi.push(previous + (step === 0 ? 12 : step));
+    });
+    return midi;
+}
+
+/**
+ * Voice chord notes across octaves: the first note in `baseOctave`, the rest spread above
+ * it, extensions (5th note on) higher still. Notes that already have an octave keep it.
+ * Returned in sharp spelling, which every instrument and the MIDI writer read.
+ */
+export function voiceChordNotes(notes: string[], baseOctave: number = 3): string[] {
+    if (!notes || notes.length === 0) return [];
+
+    const rootIndex = toPitchClass(notes[0]);
+
+    return notes.map((note, i) => {
+        if (OCTAVE_PATTERN.test(note)) {
+            const midi = noteToMidi(note);
+            return midi === -1 ? note : midiToNoteName(midi);
+        }
+
+        const noteIndex = toPitchClass(note);
+        if (noteIndex === -1) return note;
+        if (i === 0) return `${NOTES[noteIndex]}${baseOctave}`;
+
+        // Notes "below" the root in the chromatic scale go an octave up
+        let octave = baseOctave;
+        if (noteIndex < rootIndex || noteIndex - rootIndex > 6) {
+            octave = baseOctave + 1;
+        }
+
+        // For extended chords (9, 11, 13), put those even higher
+        if (i >= 4) octave = baseOctave + 1;
+        if (i >= 5) octave = baseOctave + 2;
+
+        return `${NOTES[noteIndex]}${octave}`;
+    });
+}
+
+/**
+ * The notes a chord plays: its explicit voicing when it has one, otherwise its notes
+ * voiced from octave 3
+ */
+export function getChordVoicing(chord: Pick<Chord, 'notes' | 'voicing'>): string[] {
+    if (chord.voicing && chord.voicing.length > 0) return voiceChordNotes(chord.voicing);
+    return voiceChordNotes(chord.notes);
+}
+
+/**
+ * Add a note to a voicing, or take it out if it's already there. Kept low to high.
+ */
+export function toggleVoicingNote(voicing: string[], note: string): string[] {
+    const midi = noteToMidi(note);
+    if (midi === -1) return voicing;
+
+    const current = voicing.map(noteToMidi).filter(m => m !== -1);
+    const next = current.includes(midi)
+        ? current.filter(m => m !== midi)
+        : [...current, midi];
+    return next.sort((a, b) => a - b).map(midiToNoteName);
+}
+
+/**
+ * Shift every note of a voicing by semitones
+ */
+export function transposeVoicing(voicing: string[], semitones: number): string[] {
+    return voicing.map(note => {
+        const midi = noteToMidi(note);
+        return midi === -1 ? note : midiToNoteName(midi + semitones);
+    });
+}
@@ -0,0 +1,297 @@
+/**
+ * Drum Machine
+ *
+ * A synthesized drum kit (no samples) and a small library of grooves. Grooves are
+ * written against the felt beats of each section's meter rather than a fixed 4/4
+ * bar, so rock in 3/4 or 7/8 still lands kicks and snares on beats, and 6/8 plays
+ * in dotted quarters. The last bar of every section gets a fill and the next
+ * section opens with a crash.
+ *
+ * Hits come back with positions in beats and seconds from the song timing, so live
+ * playback, audio export and MIDI export all play the same part.
+ */
+
+import * as Tone from 'tone';
+import { getMeterPulse, type MeterPulse } from './metronome';
+import type { SongTiming } from './songTiming';
+
+export type DrumVoice = 'kick' | 'snare' | 'rim' | 'hihat' | 'openHat' | 'tomHigh' | 'tomLow' | 'crash';
+
+export type DrumGrooveId = 'off' | 'rock' | 'pop' | 'shuffle' | 'bossa' | 'waltz' | 'ballad-68';
+
+export interface DrumHit {
+    voice: DrumVoice;
+    beat: number;       // Quarter-note beats from the bar start
+    velocity: number;   // 0-1
+}
+
+export interface DrumHitEvent {
+    voice: DrumVoice;
+    startBeat: number;  // From the song start
+    startSeconds: number;
+    velocity: number;
+}
+
+export const DRUM_GROOVES: { value: DrumGrooveId; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'rock', label: 'Rock' },
+    { value: 'pop', label: 'Pop' },
+    { value: 'shuffle', label: 'Shuffle' },
+    { value: 'bossa', label: 'Bossa' },
+    { value: 'waltz', label: 'Waltz' },
+    { value: 'ballad-68', label: '6/8 Ballad' },
+];
+
+// General MIDI percussion keys (channel 10)
+export const GM_DRUM_KEYS: Record<DrumVoice, number> = {
+    kick: 36,
+    rim: 37,
+    snare: 38,
+    hihat: 42,
+    openHat: 46,
+    tomLow: 43,
+    tomHigh: 48,
+    crash: 49,
+};
+
+// Allow for floating point drift when stepping through a bar
+const EPSILON = 1e-6;
+
+/**
+ * Positions of a repeating step inside a span
+ */
+function stepsIn(start: number, end: number, step: number): number[] {
+    const steps: number[] = [];
+    for (let beat = start; beat < end - EPSILON; beat += step) {
+        steps.push(beat);
+    }
+    return steps;
+}
+
+/**
+ * Start of each felt beat in a bar (the last one may be short in odd meters)
+ */
+function feltBeats(pulse: MeterPulse, barBeats: number): number[] {
+    return stepsIn(0, barBeats, pulse.beatLength);
+}
+
+/**
+ * Straight hats: eighths in simple meters, every eighth of the dotted beat in compound ones
+ */
+function eighthHats(barBeats: number, velocity: number): DrumHit[] {
+    return stepsIn(0, barBeats, 0.5).map(beat => ({
+        voice: 'hihat',
+        beat,
+        velocity: Math.abs(beat % 1) < EPSILON ? velocity : velocity * 0.7
+    }));
+}
+
+/**
+ * Kick on the strong felt beats, snare on the weak ones
+ */
+function backbeat(beats: number[], kickVelocity: number, snareVelocity: number): DrumHit[] {
+    return beats.map((beat, i): DrumHit =>
+        i % 2 === 0
+            ? { voice: 'kick', beat, velocity: i === 0 ? kickVelocity : kickVelocity * 0.85 }
+            : { voice: 'snare', beat, velocity: snareVelocity }
+    );
+}
+
+const GROOVES: Record<Exclude<DrumGrooveId, 'off'>, (pulse: MeterPulse, barBeats: number) => DrumHit[]> = {
+    rock: (pulse, barBeats) => [
+        ...eighthHats(barBeats, 0.6),
+        ...backbeat(feltBeats(pulse, barBeats), 0.95, 0.85),
+    ],
+
+    pop: (pulse, barBeats) => {
+        const beats = feltBeats(pulse, barBeats);
+        // Extra kick pushing into each backbeat, open hat on the last offbeat
+        const pushes = beats
+            .filter((_, i) => i % 2 === 0 && i + 1 < beats.length)
+            .map((beat): DrumHit => ({ voice: 'kick', beat: beat + pulse.beatLength - 0.5, velocity: 0.6 }));
+        const lastOffbeat = barBeats - 0.5;
+        return [
+            ...eighthHats(barBeats, 0.5).filter(hit => Math.abs(hit.beat - lastOffbeat) > EPSILON),
+            { voice: 'openHat', beat: lastOffbeat, velocity: 0.5 },
+            ...backbeat(beats, 0.9, 0.8),
+            ...pushes,
+        ];
+    },
+
+    shuffle: (pulse, barBeats) => [
+        // Swung hats: on the beat and on the last triplet of each quarter
+        ...stepsIn(0, barBeats, 1).flatMap((beat): DrumHit[] => [
+            { voice: 'hihat', beat, velocity: 0.6 },
+            ...(beat + 2 / 3 < barBeats - EPSILON ? [{ voice: 'hihat' as const, beat: beat + 2 / 3, velocity: 0.4 }] : []),
+        ]),
+        ...backbeat(feltBeats(pulse, barBeats), 0.9, 0.8),
+    ],
+
+    bossa: (_pulse, barBeats) => [
+        ...eighthHats(barBeats, 0.35),
+        // Dotted-quarter/eighth kick and a rim click on the clave-like dotted quarters
+        ...stepsIn(0, barBeats, 2).flatMap((beat): DrumHit[] => [
+            { voice: 'kick', beat, velocity: 0.75 },
+            ...(beat + 1.5 < barBeats - EPSILON ? [{ voice: 'kick' as const, beat: beat + 1.5, velocity: 0.6 }] : []),
+        ]),
+        ...stepsIn(0, barBeats, 1.5).map((beat): DrumHit => ({ voice: 'rim', beat, velocity: 0.55 })),
+    ],
+
+    waltz: (pulse, barBeats) => {
+        // Oom-pah-pah: kick on the downbeat, light snare and hat on the other beats
+        const beats = feltBeats(pulse, barBeats);
+        return beats.flatMap((beat, i): DrumHit[] =>
+            i === 0
+                ? [{ voice: 'kick', beat, velocity: 0.9 }, { voice: 'hihat', beat, velocity: 0.4 }]
+                : [{ voice: 'snare', beat, velocity: 0.45 }, { voice: 'hihat', beat, velocity: 0.5 }]
+        );
+    },
+
+    'ballad-68': (pulse, barBeats) => {
+        // Soft eighth hats; kick on the first dotted beat and a cross-stick on the second
+        const beats = feltBeats(pulse, barBeats);
+        return [
+            ...stepsIn(0, barBeats, 0.5).map((beat): DrumHit => ({ voice: 'hihat', beat, velocity: 0.35 })),
+            ...beats.map((beat, i): DrumHit =>
+                i % 2 === 0
+                    ? { voice: 'kick', beat, velocity: i === 0 ? 0.8 : 0.65 }
+                    : { voice: 'rim', beat, velocity: 0.6 }
+            ),
+        ];
+    },
+};
+
+/**
+ * Fill over the second half of a bar: a kick, then sixteenths from the snare down the toms
+ */
+function buildFill(pulse: MeterPulse, barBeats: number): { start: number; hits: DrumHit[] } {
+    const beats = feltBeats(pulse, barBeats);
+    const start = beats[Math.floor(beats.length / 2)] ?? 0;
+    const notes = stepsIn(start, barBeats, 0.25);
+    const voices: DrumVoice[] = ['snare', 'tomHigh', 'tomLow'];
+
+    const hits = notes.map((beat, i): DrumHit => ({
+        voice: voices[Math.min(voices.length - 1, Math.floor((i / notes.length) * voices.length))],
+        beat,
+        velocity: 0.55 + 0.4 * (i / Math.max(1, notes.length - 1))
+    }));
+
+    return { start, hits: [{ voice: 'kick', beat: start, velocity: 0.8 }, ...hits] };
+}
+
+/**
+ * Generate the drum part for a whole song. Sections with drums turned off stay silent.
+ */
+export function buildDrumTrack(timing: SongTiming, groove: DrumGrooveId): DrumHitEvent[] {
+    if (groove === 'off') return [];
+    const pattern = GROOVES[groove];
+    const events: DrumHitEvent[] = [];
+
+    timing.sections.forEach((sectionTiming, sectionIndex) => {
+        if (sectionTiming.section.drums === false) return;
+
+        const pulse = getMeterPulse(sectionTiming.timeSignature);
+        const secondsPerBeat = 60 / sectionTiming.tempo;
+        const lastMeasure = sectionTiming.measures.length - 1;
+
+        sectionTiming.measures.forEach((measure, measureIndex) => {
+            const barBeats = measure.durationBeats;
+            let hits = pattern(pulse, barBeats);
+
+            // Fill replaces the groove from the middle of the last bar (skip one-bar sections)
+            if (measureIndex === lastMeasure && measureIndex > 0) {
+                const fill = buildFill(pulse, barBeats);
+                hits = [...hits.filter(hit => hit.beat < fill.start - EPSILON), ...fill.hits];
+            }
+
+            // Crash into every section after the first
+            if (measureIndex === 0 && sectionIndex > 0) {
+                hits = [...hits.filter(hit => !(hit.voice === 'hihat' && hit.beat < EPSILON)), { voice: 'crash', beat: 0, velocity: 0.8 }];
+            }
+
+            hits
+                .filter(hit => hit.beat < barBeats - EPSILON)
+                .forEach(hit => events.push({
+                    voice: hit.voice,
+                    startBeat: measure.startBeat + hit.beat,
+                    startSeconds: measure.startSeconds + hit.beat * secondsPerBeat,
+                    velocity: hit.velocity
+                }));
+        });
+    });
+
+    return events.sort((a, b) => a.startBeat - b.startBeat);
+}
+
+// --- Synthesized kit ---
+
+export type DrumKit = Record<DrumVoice, Tone.MembraneSynth | Tone.NoiseSynth>;
+
+/**
+ * Build the kit from Tone synths. Pass the node it should feed.
+ */
+export function createDrumKit(destination: Tone.InputNode): DrumKit {
+    const hatFilter = new Tone.Filter(7000, 'highpass').connect(destination);
+
+    return {
+        kick: new Tone.MembraneSynth({
+            pitchDecay: 0.05,
+            octaves: 6,
+            envelope: { attack: 0.001, decay: 0.4, sustain: 0, release: 0.1 },
+        }).connect(destination),
+        snare: new Tone.NoiseSynth({
+            noise: { type: 'white' },
+            envelope: { attack: 0.001, decay: 0.18, sustain: 0 },
+        }).connect(destination),
+        rim: new Tone.MembraneSynth({
+            pitchDecay: 0.008,
+            octaves: 2,
+            envelope: { attack: 0.001, decay: 0.05, sustain: 0, release: 0.02 },
+        }).connect(destination),
+        hihat: new Tone.NoiseSynth({
+            noise: { type: 'white' },
+            envelope: { attack: 0.001, decay: 0.05, sustain: 0 },
+        }).connect(hatFilter),
+        openHat: new Tone.NoiseSynth({
+            noise: { type: 'white' },
+            envelope: { attack: 0.001, decay: 0.3, sustain: 0 },
+        }).connect(hatFilter),
+        tomHigh: new Tone.MembraneSynth({
+            pitchDecay: 0.08,
+            octaves: 2,
+            envelope: { attack: 0.001, decay: 0.3, sustain: 0, release: 0.1 },
+        }).connect(destination),
+        tomLow: new Tone.MembraneSynth({
+            pitchDecay: 0.08,
+            octaves: 2,
+            envelope: { attack: 0.001, decay: 0.4, sustain: 0, release: 0.1 },
+        }).connect(destination),
+        crash: new Tone.NoiseSynth({
+            noise: { type: 'pink' },
+            envelope: { attack: 0.002, decay: 1.2, sustain: 0 },
+        }).connect(hatFilter),
+    };
+}
+
+// Pitch and length of each voice
+const DRUM_SOUNDS: Record<DrumVoice, { note?: string; duration: number }> = {
+    kick: { note: 'C1', duration: 0.3 },
+    snare: { duration: 0.15 },
+    rim: { note: 'E4', duration: 0.04 },
+    hihat: { duration: 0.05 },
+    openHat: { duration: 0.3 },
+    tomHigh: { note: 'G2', duration: 0.25 },
+    tomLow: { note: 'D2', duration: 0.35 },
+    crash: { duration: 1.2 },
+};
+
+export function triggerDrum(kit: DrumKit, voice: DrumVoice, time: number, velocity: number) {
+    const synth = kit[voice];
+    const { note, duration } = DRUM_SOUNDS[voice];
+
+    if (synth instanceof Tone.NoiseSynth) {
+        synth.triggerAttackRelease(duration, time, velocity);
+    } else {
+        synth.triggerAttackRelease(note ?? 'C2', duration, time, velocity);
+    }
+}
@@ -4,14 +4,27 @@
  */
 
 import * as Tone from 'tone';
-import type { Song, Section, InstrumentType } from '../types';
+import { getSectionRhythmPattern, type Song, type InstrumentType } from '../types';
 import { useSongStore } from '../store/useSongStore';
+import { buildSongTiming } from './songTiming';
+import { buildClickTrack, createClickSynth, triggerClick } from './metronome';
+import { renderRhythmPattern } from './rhythmPatterns';
+import { renderArpeggio } from './arpeggiator';
+import { buildBassLine } from './bassLine';
+import { buildDrumTrack, createDrumKit, triggerDrum } from './drumMachine';
+import { createMixerBus, getMixerTrack, getSongMixer, type MixerSettings } from './mixer';
+import { createSynthVoice } from './synthVoices';
+import { createFeel, getStrumOrder } from './humanize';
+import { voiceLeadProgression } from './voiceLeading';
+import { getChordVoicing } from './chordVoicing';
 
 export interface AudioExportOptions {
     /** Whether to apply effects (wet) or export dry audio */
     wet: boolean;
     /** Sample rate for export (default 44100) */
     sampleRate?: number;
+    /** Mix the metronome click (current subdivision and level) into the render */
+    includeMetronome?: boolean;
 }
 
 export interface EffectSettings {
@@ -33,96 +46,43 @@ export interface EffectSettings {
  * Calculate the total duration of a song in seconds
  */
 export const calculateSongDuration = (song: Song): number => {
-    const secondsPerBeat = 60 / song.tempo;
-    let totalBeats = 0;
-
-    song.sections.forEach((section: Section) => {
-        section.measures.forEach((measure) => {
-            measure.beats.forEach((beat) => {
-                totalBeats += beat.duration;
-            });
-        });
-    });
-
     // Add a small buffer for reverb tail
-    return (totalBeats * secondsPerBeat) + 2;
-};
-
-// Note names for octave calculation
-const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
-/**
- * Convert flat notation to sharps for consistent indexing
- */
-const normalizeToSharp = (note: string): string => {
-    const flatToSharp: Record<string, string> = {
-        'Db': 'C#', 'Eb': 'D#', 'Gb': 'F#', 'Ab': 'G#', 'Bb': 'A#',
-        'D♭': 'C#', 'E♭': 'D#', 'G♭': 'F#', 'A♭': 'G#', 'B♭': 'A#'
-    };
-    return flatToSharp[note] || note.replace('♯', '#').replace('♭', 'b');
-};
-
-/**
- * Add octave numbers to chord notes
- * Matches the voicing logic from audioEngine.playChord
- */
-const addOctavesToNotes = (notes: string[], baseOctave: number = 3): string[] => {
-    if (!notes || notes.length === 0) return [];
-
-    // Get root note info
-    const rootNote = normalizeToSharp(notes[0].replace(/\d/, ''));
-    const rootIndex = NOTES.indexOf(rootNote);
-
-    return notes.map((note, i) => {
-        // If note already has octave, normalize and return it
-        if (/\d/.test(note)) {
-            return normalizeToSharp(note);
-        }
-
-        const noteName = normalizeToSharp(note);
-        const noteIndex = NOTES.indexOf(noteName);
-
-        if (i === 0) {
-            // Root note in base octave
-            return `${noteName}${baseOctave}`;
-        }
-
-        // Other notes: if they're "below" the root in the chromatic scale, put them an octave up
-        let octave = baseOctave;
-        if (rootIndex !== -1 && noteIndex !== -1) {
-            if (noteIndex < rootIndex || (noteIndex - rootIndex > 6)) {
-                octave = baseOctave + 1;
-            }
-        }
-
-        // For extended chords (9, 11, 13), put those even higher
-        if (i >= 4) {
-            octave = baseOctave + 1;
-        }
-        if (i >= 5) {
-            octave = baseOctave + 2;
-        }
-
-        return `${noteName}${octave}`;
-    });
+    return buildSongTiming(song).totalSeconds + 2;
 };
 
 /**
- * Create effects chain for wet export
+ * Create effects chain for export: the song's mixer (track channels, send returns and
+ * master bus) with the chord instrument's effects in front of the chords channel.
+ * A dry export keeps the mix levels and pans but leaves out every effect.
  * Simplified for offline context - just essential effects
  */
-const createEffectsChain = async (settings: EffectSettings, destination: Tone.ToneAudioNode) => {
+const createEffectsChain = async (
+    settings: EffectSettings,
+    mixer: MixerSettings,
+    destination: Tone.ToneAudioNode,
+    wet: boolean
+) => {
+    if (!wet) {
+        const mixerBus = await createMixerBus(mixer, destination, { sends: false });
+        return {
+            input: mixerBus.channels.chords.input as Tone.ToneAudioNode,
+            tracks: mixerBus.channels,
+            dispose: () => mixerBus.dispose(),
+        };
+    }
+
     // Create a simpler effects chain for offline rendering
     // Full effects chain can cause issues in offline context
 
     const limiter = new Tone.Limiter(-3).connect(destination);
+    const mixerBus = await createMixerBus(mixer, limiter);
 
     // Reverb needs to be awaited
     const reverb = new Tone.Reverb({
         decay: 2.0, // Shorter decay for offline
         wet: settings.reverbMix,
         preDelay: 0.01,
-    }).connect(limiter);
+    }).connect(mixerBus.channels.chords.input);
 
     // MUST await reverb.ready or it will hang
     await reverb.ready;
@@ -141,14 +101,16 @@ const createEffectsChain = async (settings: EffectSettings, destination: Tone.To
         high: settings.tone,
     }).connect(gain);
 
-    // Return the input of the chain (where instrument should connect)
+    // Return the input of the chain (where instrument should connect) and the other tracks' channels
     return {
-        input: eq,
+        input: eq as Tone.ToneAudioNode,
+        tracks: mixerBus.channels,
         dispose: () => {
             eq.dispose();
             gain.dispose();
             delay.dispose();
             reverb.dispose();
+            mixerBus.dispose();
             limiter.dispose();
         },
     };
@@ -215,52 +177,6 @@ const getInstrumentSampleConfig = (instrumentType: InstrumentType): { urls: Reco
     }
 };
 
-/**
- * Create a PolySynth for instruments that don't use samplers
- */
-const createPolySynthForExport = (instrumentType: InstrumentType, destination: Tone.ToneAudioNode): Tone.PolySynth => {
-    let synth: Tone.PolySynth;
-
-    switch (instrumentType) {
-        case 'organ':
-            synth = new Tone.PolySynth(Tone.AMSynth, {
-                harmonicity: 3,
-                oscillator: { type: 'sine' },
-                envelope: { attack: 0.01, decay: 0.01, sustain: 1, release: 0.5 },
-                modulation: { type: 'square' },
-                modulationEnvelope: { attack: 0.5, decay: 0, sustain: 1, release: 0.5 },
-            });
-            break;
-        case 'epiano':
-            synth = new Tone.PolySynth(Tone.AMSynth, {
-                harmonicity: 2,
-                oscillator: { type: 'triangle' },
-                envelope: { attack: 0.01, decay: 0.2, sustain: 0.7, release: 0.8 },
-                modulation: { type: 'sine' },
-                modulationEnvelope: { attack: 0.2, decay: 0.1, sustain: 0.6, release: 0.6 },
-            });
-            break;
-        case 'pad':
-            synth = new Tone.PolySynth(Tone.FMSynth, {
-                harmonicity: 1.5,
-                modulationIndex: 8,
-                oscillator: { type: 'sine' },
-                envelope: { attack: 0.5, decay: 0.3, sustain: 0.9, release: 1.5 },
-                modulation: { type: 'triangle' },
-                modulationEnvelope: { attack: 0.8, decay: 0.3, sustain: 0.8, release: 1.2 },
-            });
-            break;
-        default:
-            synth = new Tone.PolySynth(Tone.Synth, {
-                oscillator: { type: 'triangle' },
-                envelope: { attack: 0.02, decay: 0.2, sustain: 0.5, release: 0.5 },
-            });
-    }
-
-    synth.connect(destination);
-    return synth;
-};
-
 /**
  * Export a song as a WAV audio file
  */
@@ -269,11 +185,10 @@ export const exportSongAsAudio = async (
     instrumentType: InstrumentType,
     options: AudioExportOptions
 ): Promise<Blob> => {
-    const { wet, sampleRate = 44100 } = options;
+    const { wet, sampleRate = 44100, includeMetronome = false } = options;
 
     // Calculate song duration
     const duration = calculateSongDuration(song);
-    const secondsPerBeat = 60 / song.tempo;
 
     // Get current effect settings from store
     const store = useSongStore.getState();
@@ -292,6 +207,9 @@ export const exportSongAsAudio = async (
         pitchShift: store.pitchShift,
     };
 
+    // Chords render with the instrument picked for this file; the mixer still sets levels and the bass voice
+    const mixer = getSongMixer(song);
+
     // Check if this instrument uses samples
     const sampleConfig = getInstrumentSampleConfig(instrumentType);
 
@@ -318,14 +236,9 @@ export const exportSongAsAudio = async (
 
     // Use Tone.Offline to render audio
     const buffer = await Tone.Offline(async ({ transport, destination }) => {
-        let effectsChain: Awaited<ReturnType<typeof createEffectsChain>> | null = null;
-        let instrumentDest: Tone.ToneAudioNode = destination;
-
-        // Create destination (with or without effects)
-        if (wet) {
-            effectsChain = await createEffectsChain(effectSettings, destination);
-            instrumentDest = effectsChain.input;
-        }
+        // Create the mixer, with or without effects; chords connect to the chain input
+        const effectsChain = await createEffectsChain(effectSettings, mixer, destination, wet);
+        const instrumentDest = effectsChain.input;
 
         // Create instrument for offline context
         let instrument: Tone.Sampler | Tone.PolySynth;
@@ -360,31 +273,82 @@ export const exportSongAsAudio = async (
             });
         } else {
             // For synth instruments
-            instrument = createPolySynthForExport(instrumentType, instrumentDest);
+            instrument = createSynthVoice(instrumentType, instrumentDest);
         }
 
-        // Schedule all chords
-        let currentTime = 0;
-
-        song.sections.forEach((section: Section) => {
-            section.measures.forEach((measure) => {
-                measure.beats.forEach((beat) => {
-                    if (beat.chord && beat.chord.notes && beat.chord.notes.length > 0) {
-                        const durationSeconds = beat.duration * secondsPerBeat;
-                        // Add octaves to notes (chord.notes doesn't have octaves)
-                        const voicedNotes = addOctavesToNotes(beat.chord.notes, 3);
-
-                        // Schedule chord
-                        transport.schedule((time) => {
-                            instrument.triggerAttackRelease(voicedNotes, durationSeconds, time);
-                        }, currentTime);
-                    }
-
-                    currentTime += beat.duration * secondsPerBeat;
-                });
-            });
+        const timing = buildSongTiming(song);
+        const feel = createFeel(timing, store.feel);
+        const voicings = store.voiceLeading.enabled
+            ? voiceLeadProgression(timing.slots.map(({ slot }) => slot.chord), store.voiceLeading)
+            : [];
+
+        // Schedule all chords at their positions on the song timing, played with the
+        // arpeggiator or each section's rhythm pattern like live playback
+        timing.slots.forEach(({ slot, sectionIndex, startBeat, startSeconds, durationBeats, durationSeconds }, index) => {
+            if (slot.chord && slot.chord.notes && slot.chord.notes.length > 0) {
+                const { section, timeSignature } = timing.sections[sectionIndex];
+                const secondsPerBeat = durationSeconds / durationBeats;
+
+                // The chord's voicing, the same notes live playback plays
+                const voicedNotes = voicings[index]?.notes ?? getChordVoicing(slot.chord);
+                const events = store.arpeggiator.enabled
+                    ? renderArpeggio(voicedNotes, durationBeats, store.arpeggiator, startBeat)
+                    : renderRhythmPattern(voicedNotes, durationBeats, getSectionRhythmPattern(section, song), {
+                        timeSignature,
+                        secondsPerBeat
+                    });
+
+                // Schedule chord, swung and humanized like live playback
+                const strumOrder = getStrumOrder(events);
+                transport.schedule((time) => {
+                    events.forEach((event, i) => {
+                        const hit = feel({ ...event, startBeat: startBeat + event.startBeat }, event.note, strumOrder[i]);
+                        instrument.triggerAttackRelease(
+                            event.note,
+                            hit.durationSeconds,
+                            time + hit.startSeconds - startSeconds,
+                            hit.velocity
+                        );
+                    });
+                }, startSeconds);
+            }
         });
 
+        // Bass line on the bass track's instrument and channel
+        const bassLine = buildBassLine(timing, store.bassStyle);
+        if (bassLine.length > 0) {
+            const bass = createSynthVoice(getMixerTrack(mixer, 'bass').instrument ?? 'bass', effectsChain.tracks.bass.input);
+            bassLine.forEach(bassNote => {
+                const hit = feel(bassNote, bassNote.note);
+                transport.schedule((time) => {
+                    bass.triggerAttackRelease(bassNote.note, hit.durationSeconds, time, hit.velocity);
+                }, hit.startSeconds);
+            });
+        }
+
+        // Drums on their own channel, without the instrument effects, like live playback
+        const drumTrack = buildDrumTrack(timing, store.drumGroove);
+        if (drumTrack.length > 0) {
+            const kit = createDrumKit(effectsChain.tracks.drums.input);
+            drumTrack.forEach(drumHit => {
+                const hit = feel({ ...drumHit, durationBeats: 0 }, drumHit.voice);
+                transport.schedule((time) => {
+                    triggerDrum(kit, drumHit.voice, time, hit.velocity);
+                }, hit.startSeconds);
+            });
+        }
+
+        // Metronome stays dry: it bypasses the effects chain like in live playback
+        if (includeMetronome) {
+            const clickGain = new Tone.Gain(store.metronomeVolume).connect(destination);
+            const clickSynth = createClickSynth(clickGain);
+            buildClickTrack(timing, store.metronomeSubdivision).forEach(click => {
+                transport.schedule((time) => {
+                    triggerClick(clickSynth, click.accent, time);
+                }, click.time);
+            });
+        }
+
         // Start transport
         transport.start(0);
 
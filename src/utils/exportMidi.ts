@@ -4,143 +4,238 @@
  */
 
 import MidiWriter from 'midi-writer-js';
-import type { Song, Section, Measure } from '../types';
+import { getSectionKey, getSectionRhythmPattern, type Song } from '../types';
+import { getKeySignature, getParentMajorKey, type KeyMode } from './musicTheory';
+import { buildSongTiming, type SongTiming } from './songTiming';
+import { renderRhythmPattern } from './rhythmPatterns';
+import { renderArpeggio, type ArpeggiatorSettings } from './arpeggiator';
+import { buildBassLine, type BassStyle } from './bassLine';
+import { buildDrumTrack, GM_DRUM_KEYS, type DrumGrooveId } from './drumMachine';
+import { createFeel, DEFAULT_FEEL, getStrumOrder, type FeelSettings } from './humanize';
+import { voiceLeadProgression, type VoiceLeadingSettings } from './voiceLeading';
+import { getChordVoicing, midiToNoteName } from './chordVoicing';
 
 export interface MidiExportOptions {
     /** Base filename (without extension) */
     filename?: string;
     /** Velocity for all notes (1-127, default 100) */
     velocity?: number;
+    /** Arpeggiator to render chords with; written as individual notes when enabled */
+    arpeggiator?: ArpeggiatorSettings;
+    /** Generated bass line style; written as its own track unless 'off' */
+    bassStyle?: BassStyle;
+    /** Drum machine groove; written as a channel 10 track unless 'off' */
+    drumGroove?: DrumGrooveId;
+    /** Swing and humanize; the same seed writes the same timings and velocities as playback */
+    feel?: FeelSettings;
+    /** Voice each chord from the one before; written as the same voicings playback uses */
+    voiceLeading?: VoiceLeadingSettings;
 }
 
-// Note names for octave calculation
-const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+// General MIDI program and channel for the bass track (Electric Bass (finger), channel 2)
+const BASS_PROGRAM = 33;
+const BASS_CHANNEL = 2;
+
+// General MIDI reserves channel 10 for percussion; drum hits are written as sixteenths
+const DRUM_CHANNEL = 10;
+const DRUM_HIT_TICKS = 32;
+
+interface MidiNote {
+    pitch: string;
+    startTick: number;
+    durationTicks: number;
+    velocity: number;
+}
+
+/**
+ * Write notes to a track as one NoteEvent per group that starts, lasts and hits the
+ * same, so chords and simultaneous drum hits stay blocks. midi-writer-js reads a
+ * startTick of 0 as unset and queues those events one after another, so the tick is
+ * also set on each event directly.
+ */
+const addNotes = (track: InstanceType<typeof MidiWriter.Track>, notes: MidiNote[], channel: number = 1) => {
+    const groups = new Map<string, MidiNote[]>();
+    notes.forEach(note => {
+        const key = `${note.startTick}:${note.durationTicks}:${note.velocity}`;
+        groups.set(key, [...(groups.get(key) ?? []), note]);
+    });
+
+    groups.forEach(group => {
+        const { startTick, durationTicks, velocity } = group[0];
+        track.addEvent(new MidiWriter.NoteEvent({
+            pitch: group.map(note => note.pitch),
+            duration: `T${durationTicks}`,
+            velocity,
+            channel,
+            startTick,
+        }), () => ({ tick: startTick }));
+    });
+};
 
 /**
- * Convert flat notation to sharps for consistent indexing
+ * Convert beat duration to MIDI ticks
+ * Standard MIDI uses 128 ticks per beat (quarter note)
  */
-const normalizeToSharp = (note: string): string => {
-    const flatToSharp: Record<string, string> = {
-        'Db': 'C#', 'Eb': 'D#', 'Gb': 'F#', 'Ab': 'G#', 'Bb': 'A#',
-        'D♭': 'C#', 'E♭': 'D#', 'G♭': 'F#', 'A♭': 'G#', 'B♭': 'A#'
-    };
-    return flatToSharp[note] || note.replace('♯', '#').replace('♭', 'b');
+const durationToTicks = (durationBeats: number): number => {
+    // midi-writer-js tick resolution
+    return Math.round(durationBeats * 128);
 };
 
+// Modes written to MIDI as minor keys; everything else is written as its parent major
+const MIDI_MINOR_MODES: KeyMode[] = ['aeolian', 'harmonicMinor', 'melodicMinor'];
+
 /**
- * Add octave numbers to chord notes
- * Matches the voicing logic from audioEngine.playChord
+ * Create a key signature meta event for a key center.
+ * MIDI stores sharps as positive and flats as negative counts, plus a major/minor flag.
  */
-const addOctavesToNotes = (notes: string[], baseOctave: number = 3): string[] => {
-    if (!notes || notes.length === 0) return [];
+const createKeySignatureEvent = (key: string, mode: KeyMode) => {
+    const { sharps, flats } = getKeySignature(getParentMajorKey(key, mode));
+    return new MidiWriter.KeySignatureEvent(sharps - flats, MIDI_MINOR_MODES.includes(mode) ? 1 : 0);
+};
 
-    // Get root note info
-    const rootNote = normalizeToSharp(notes[0].replace(/\d/, ''));
-    const rootIndex = NOTES.indexOf(rootNote);
+/**
+ * Build the conductor track: song name, then a marker per section carrying any
+ * tempo, key or time signature change the section brings with it
+ */
+const createConductorTrack = (song: Song, timing: SongTiming) => {
+    const track = new MidiWriter.Track();
+    track.addTrackName(song.title);
 
-    return notes.map((note, i) => {
-        // If note already has octave, normalize and return it
-        if (/\d/.test(note)) {
-            return normalizeToSharp(note);
-        }
+    let tempo = song.tempo;
+    let key = song.key;
+    let mode: KeyMode = song.mode ?? 'ionian';
+    let [numerator, denominator] = song.timeSignature;
 
-        const noteName = normalizeToSharp(note);
-        const noteIndex = NOTES.indexOf(noteName);
+    track.addEvent(new MidiWriter.TempoEvent({ bpm: tempo }));
+    track.addEvent(new MidiWriter.TimeSignatureEvent(numerator, denominator, 24, 8));
+    track.addEvent(createKeySignatureEvent(key, mode));
 
-        if (i === 0) {
-            // Root note in base octave
-            return `${noteName}${baseOctave}`;
-        }
+    // Tick of the last event written to this track
+    let lastTick = 0;
 
-        // Other notes: if they're "below" the root in the chromatic scale, put them an octave up
-        let octave = baseOctave;
-        if (rootIndex !== -1 && noteIndex !== -1) {
-            if (noteIndex < rootIndex || (noteIndex - rootIndex > 6)) {
-                octave = baseOctave + 1;
-            }
-        }
+    timing.sections.forEach(({ section, startBeat, tempo: sectionTempo }) => {
+        const sectionTick = durationToTicks(startBeat);
+        track.addEvent(new MidiWriter.MarkerEvent({ text: section.name, delta: sectionTick - lastTick }));
+        lastTick = sectionTick;
 
-        // For extended chords (9, 11, 13), put those even higher
-        if (i >= 4) {
-            octave = baseOctave + 1;
+        if (sectionTempo !== tempo) {
+            tempo = sectionTempo;
+            track.addEvent(new MidiWriter.TempoEvent({ bpm: tempo }));
         }
-        if (i >= 5) {
-            octave = baseOctave + 2;
+
+        const sectionKey = getSectionKey(section, song);
+        if (sectionKey.key !== key || sectionKey.mode !== mode) {
+            ({ key, mode } = sectionKey);
+            track.addEvent(createKeySignatureEvent(key, mode));
         }
 
-        return `${noteName}${octave}`;
+        const [sectionNumerator, sectionDenominator] = section.timeSignature ?? song.timeSignature;
+        if (sectionNumerator !== numerator || sectionDenominator !== denominator) {
+            [numerator, denominator] = [sectionNumerator, sectionDenominator];
+            track.addEvent(new MidiWriter.TimeSignatureEvent(numerator, denominator, 24, 8));
+        }
     });
-};
 
-/**
- * Convert beat duration to MIDI ticks
- * Standard MIDI uses 128 ticks per beat (quarter note)
- */
-const durationToTicks = (durationBeats: number): number => {
-    // midi-writer-js tick resolution
-    return Math.round(durationBeats * 128);
+    return track;
 };
 
 /**
- * Export a song as a MIDI file blob
+ * Export a song as a MIDI file blob.
+ * Track 1 is the conductor track (tempo, key and time signature changes per section),
+ * track 2 holds the chords, followed by the bass line and drums (channel 10) when they are on.
  */
 export const exportSongAsMidi = (song: Song, options: MidiExportOptions = {}): Blob => {
-    const { velocity = 100 } = options;
+    const { velocity = 100, arpeggiator, bassStyle = 'off', drumGroove = 'off', feel = DEFAULT_FEEL, voiceLeading } = options;
+
+    // Tempo, key and time signature live on their own track so they apply to every part
+    const timing = buildSongTiming(song);
+    const conductor = createConductorTrack(song, timing);
+    const applyFeel = createFeel(timing, feel);
+    const voicings = voiceLeading?.enabled
+        ? voiceLeadProgression(timing.slots.map(({ slot }) => slot.chord), voiceLeading)
+        : [];
 
-    // Create a new MIDI track
+    // Create a new MIDI track for the chords
     const track = new MidiWriter.Track();
+    track.addTrackName('Chords');
 
-    // Set tempo
-    track.setTempo(song.tempo);
-
-    // Set time signature - midi-writer-js uses different args
-    const [numerator, denominator] = song.timeSignature;
-    // The setTimeSignature method signature may vary - wrap in try/catch
-    try {
-        // Some versions expect (numerator, denominator, clocksPerClick, notesPerQuarter)
-        (track as any).setTimeSignature(numerator, denominator, 24, 8);
-    } catch {
-        // Fallback if the method doesn't exist or has different signature
-        console.warn('Could not set time signature on MIDI track');
-    }
+    // Place every chord at its position on the song timing, played with the arpeggiator
+    // or each section's rhythm pattern. Start and end are both rounded from absolute beats so fractional
+    // slots (triplets, 7/8) and strum offsets don't drift
+    const chordNotes: MidiNote[] = [];
+    timing.slots.forEach(({ slot, sectionIndex, startBeat, durationBeats, durationSeconds }, index) => {
+        if (slot.chord && slot.chord.notes && slot.chord.notes.length > 0) {
+            const { section, timeSignature } = timing.sections[sectionIndex];
 
-    // Add track name
-    track.addTrackName(song.title);
+            // The chord's voicing, the same notes live playback plays
+            const pitches = voicings[index]?.notes ?? getChordVoicing(slot.chord);
+            const events = arpeggiator?.enabled
+                ? renderArpeggio(pitches, durationBeats, arpeggiator, startBeat)
+                : renderRhythmPattern(pitches, durationBeats, getSectionRhythmPattern(section, song), {
+                    timeSignature,
+                    secondsPerBeat: durationSeconds / durationBeats
+                });
+
+            const strumOrder = getStrumOrder(events);
+            events.forEach((event, i) => {
+                const hit = applyFeel({ ...event, startBeat: startBeat + event.startBeat }, event.note, strumOrder[i]);
+                const startTick = durationToTicks(hit.startBeat);
 
-    // Keep track of accumulated time for scheduling
-    let tickPosition = 0;
-
-    // Process each section
-    song.sections.forEach((section: Section) => {
-        section.measures.forEach((measure: Measure) => {
-            measure.beats.forEach((beat) => {
-                if (beat.chord && beat.chord.notes && beat.chord.notes.length > 0) {
-                    // Add octaves to notes (chord.notes doesn't have octaves)
-                    // Then normalize for MIDI format
-                    const pitches = addOctavesToNotes(beat.chord.notes, 3);
-
-                    // Calculate duration in ticks
-                    const durationTicks = durationToTicks(beat.duration);
-
-                    // Create note event for the chord
-                    const noteEvent = new MidiWriter.NoteEvent({
-                        pitch: pitches as any,
-                        duration: `T${durationTicks}`,
-                        velocity: velocity,
-                        startTick: tickPosition,
-                    });
-
-                    track.addEvent(noteEvent);
-                }
-
-                // Advance position regardless of whether there's a chord (rests)
-                tickPosition += durationToTicks(beat.duration);
+                // Pattern velocity (0-1) scales the export velocity
+                chordNotes.push({
+                    pitch: event.note,
+                    startTick,
+                    durationTicks: Math.max(1, durationToTicks(hit.startBeat + hit.durationBeats) - startTick),
+                    velocity: Math.max(1, Math.round(velocity * hit.velocity)),
+                });
             });
-        });
+        }
     });
+    addNotes(track, chordNotes);
+
+    const tracks = [conductor, track];
+
+    // Bass line gets its own track and channel so it can be voiced separately
+    const bassLine = buildBassLine(timing, bassStyle);
+    if (bassLine.length > 0) {
+        const bassTrack = new MidiWriter.Track();
+        bassTrack.addTrackName('Bass');
+        bassTrack.addEvent(new MidiWriter.ProgramChangeEvent({ instrument: BASS_PROGRAM, channel: BASS_CHANNEL }));
+
+        addNotes(bassTrack, bassLine.map(bassNote => {
+            const hit = applyFeel(bassNote, bassNote.note);
+            const startTick = durationToTicks(hit.startBeat);
+            return {
+                pitch: bassNote.note,
+                startTick,
+                durationTicks: Math.max(1, durationToTicks(hit.startBeat + hit.durationBeats) - startTick),
+                velocity: Math.max(1, Math.round(velocity * hit.velocity)),
+            };
+        }), BASS_CHANNEL);
+
+        tracks.push(bassTrack);
+    }
+
+    const drumTrack = buildDrumTrack(timing, drumGroove);
+    if (drumTrack.length > 0) {
+        const drums = new MidiWriter.Track();
+        drums.addTrackName('Drums');
+
+        addNotes(drums, drumTrack.map(drumHit => {
+            const hit = applyFeel({ ...drumHit, durationBeats: 0 }, drumHit.voice);
+            return {
+                pitch: midiToNoteName(GM_DRUM_KEYS[drumHit.voice]),
+                startTick: durationToTicks(hit.startBeat),
+                durationTicks: DRUM_HIT_TICKS,
+                velocity: Math.max(1, Math.round(velocity * hit.velocity)),
+            };
+        }), DRUM_CHANNEL);
+
+        tracks.push(drums);
+    }
 
     // Generate MIDI file
-    const write = new MidiWriter.Writer([track]);
+    const write = new MidiWriter.Writer(tracks);
 
     // Get the data URI and convert to Blob
     const dataUri = write.dataUri();
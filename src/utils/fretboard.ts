@@ -0,0 +1,78 @@
+/**
+ * Fretboard
+ *
+ * Where notes fall on a fretted neck, and the five CAGED positions that split a
+ * standard-tuned guitar neck into boxes around a root.
+ *
+ * CAGED names each box after the open chord shape that fits in it when moved up the
+ * neck: for C the C shape sits at the nut, then the A, G, E and D shapes follow, and
+ * the order repeats an octave up. Every root uses the same order from a different start.
+ */
+
+import { STANDARD_TUNING } from './guitarChordData';
+import { toPitchClass } from './musicTheory';
+
+// Frets drawn on a full neck (12th-fret octave plus a few above)
+export const NECK_FRETS = 15;
+
+export interface NeckNote {
+    string: number;     // Diagram order, as in the tuning
+    fret: number;       // From the nut; with a capo, never below it
+    midi: number;
+    pitchClass: number;
+}
+
+export type CagedShape = 'C' | 'A' | 'G' | 'E' | 'D';
+
+export interface CagedPosition {
+    shape: CagedShape;
+    firstFret: number;
+    lastFret: number;
+}
+
+// Each shape's root string and its box, in frets around the root on that string
+const CAGED_BOXES: { shape: CagedShape; string: number; from: number; to: number }[] = [
+    { shape: 'C', string: 1, from: -3, to: 0 },
+    { shape: 'A', string: 1, from: -1, to: 3 },
+    { shape: 'G', string: 0, from: -4, to: 0 },
+    { shape: 'E', string: 0, from: -1, to: 3 },
+    { shape: 'D', string: 2, from: -1, to: 3 },
+];
+
+/**
+ * Every place the pitch classes sound on the neck, from the capo up to `frets`
+ */
+export function getNeckNotes(pitchClasses: number[], tuning: number[], capo: number = 0, frets: number = NECK_FRETS): NeckNote[] {
+    const wanted = pitchClasses.map(toPitchClass);
+    return tuning.flatMap((open, string) =>
+        Array.from({ length: frets - capo + 1 }, (_, i) => capo + i)
+            .filter(fret => wanted.includes(toPitchClass(open + fret)))
+            .map(fret => ({ string, fret, midi: open + fret, pitchClass: toPitchClass(open + fret) }))
+    );
+}
+
+/**
+ * CAGED boxes only mean something on a six-string in standard tuning
+ */
+export const hasCagedPositions = (tuning: number[]) =>
+    tuning.length === STANDARD_TUNING.length && tuning.every((midi, i) => midi === STANDARD_TUNING[i]);
+
+/**
+ * The five CAGED positions for a root, lowest first. With a capo the boxes are
+ * counted from the capo, as if it were the nut.
+ */
+export function getCagedPositions(root: string, tuning: number[] = STANDARD_TUNING, capo: number = 0): CagedPosition[] {
+    const rootPc = toPitchClass(root);
+    if (rootPc === -1 || !hasCagedPositions(tuning)) return [];
+
+    return CAGED_BOXES.map(({ shape, string, from, to }) => {
+        let rootFret = toPitchClass(rootPc - tuning[string] - capo);
+        // A box hanging off the nut (a G shape on an open-string root) is played an octave up
+        if (rootFret + from < -1) rootFret += 12;
+        return {
+            shape,
+            firstFret: Math.max(0, rootFret + from) + capo,
+            lastFret: rootFret + to + capo
+        };
+    }).sort((a, b) => a.firstFret - b.firstFret);
+}
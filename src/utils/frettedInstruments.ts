@@ -0,0 +1,106 @@
+/**
+ * Fretted Instruments
+ *
+ * The instrument chord diagrams are drawn for: its open-string tuning (the string count
+ * is the tuning's length), a capo fret and which hand frets. Presets cover the common
+ * guitar tunings, ukulele, mandolin, banjo and bass.
+ *
+ * With a capo the diagram shows the shape played above the capo, which is the shape of
+ * the chord a capo's worth of semitones lower: a D chord with capo 2 is played as a C shape.
+ */
+
+import { STANDARD_TUNING, type GuitarChordShape } from './guitarChordData';
+import { getGuitarVoicings, type GuitarVoicingOptions } from './guitarVoicings';
+import { transposeNote } from './transpose';
+
+export type FrettedInstrumentPresetId =
+    | 'guitar'
+    | 'dropD'
+    | 'dadgad'
+    | 'openG'
+    | 'openD'
+    | 'ukulele'
+    | 'mandolin'
+    | 'banjo'
+    | 'bass4'
+    | 'bass5';
+
+export interface FrettedInstrumentPreset {
+    id: FrettedInstrumentPresetId;
+    label: string;
+    tuning: number[]; // Open string MIDI notes in diagram order (left to right, right-handed)
+}
+
+export interface FrettedInstrument {
+    preset: FrettedInstrumentPresetId;
+    tuning: number[];
+    capo: number;         // Fret the capo sits at (0 = none)
+    leftHanded: boolean;  // Mirror diagrams so the lowest string is on the right
+}
+
+export const FRETTED_INSTRUMENT_PRESETS: FrettedInstrumentPreset[] = [
+    { id: 'guitar', label: 'Guitar', tuning: STANDARD_TUNING },
+    { id: 'dropD', label: 'Drop D', tuning: [38, 45, 50, 55, 59, 64] },
+    { id: 'dadgad', label: 'DADGAD', tuning: [38, 45, 50, 55, 57, 62] },
+    { id: 'openG', label: 'Open G', tuning: [38, 43, 50, 55, 59, 62] },
+    { id: 'openD', label: 'Open D', tuning: [38, 45, 50, 54, 57, 62] },
+    { id: 'ukulele', label: 'Ukulele', tuning: [67, 60, 64, 69] },
+    { id: 'mandolin', label: 'Mandolin', tuning: [55, 62, 69, 76] },
+    { id: 'banjo', label: 'Banjo', tuning: [67, 50, 55, 59, 62] },
+    { id: 'bass4', label: 'Bass (4)', tuning: [28, 33, 38, 43] },
+    { id: 'bass5', label: 'Bass (5)', tuning: [23, 28, 33, 38, 43] },
+];
+
+export const MAX_CAPO = 9;
+
+export const DEFAULT_FRETTED_INSTRUMENT: FrettedInstrument = {
+    preset: 'guitar',
+    tuning: STANDARD_TUNING,
+    capo: 0,
+    leftHanded: false
+};
+
+export const getFrettedPreset = (id: FrettedInstrumentPresetId) =>
+    FRETTED_INSTRUMENT_PRESETS.find(preset => preset.id === id) ?? FRETTED_INSTRUMENT_PRESETS[0];
+
+/**
+ * Open string names in diagram order, e.g. "D A D G A D"
+ */
+export function getTuningName(tuning: number[]): string {
+    return tuning.map(midi => transposeNote('C', midi)).join(' ');
+}
+
+export interface FrettedChordShapes {
+    shapes: GuitarChordShape[]; // Best first; frets relative to the capo
+    shapeRoot: string;          // Root of the chord the shapes are fingered as
+}
+
+/**
+ * Chord shapes for the instrument. Standard-tuned guitar gets the shape database
+ * first; other tunings are solved. Shapes sound as `root` with the capo on.
+ */
+export function getFrettedChordShapes(
+    root: string,
+    quality: string,
+    instrument: FrettedInstrument,
+    options: Omit<GuitarVoicingOptions, 'tuning'> = {}
+): FrettedChordShapes {
+    const capo = Math.max(0, Math.min(MAX_CAPO, instrument.capo));
+    const shapeRoot = capo > 0 ? transposeNote(root, -capo) : root;
+    const bass = options.bass && capo > 0 ? transposeNote(options.bass, -capo) : options.bass;
+    const shapes = getGuitarVoicings(shapeRoot, quality, {
+        ...options,
+        bass,
+        tuning: instrument.tuning,
+        maxFret: (options.maxFret ?? 12) - capo
+    });
+    return { shapes, shapeRoot };
+}
+
+/**
+ * A shape as drawn for the player's hand: strings reversed when left-handed
+ */
+export function orientShape(shape: GuitarChordShape, leftHanded: boolean): GuitarChordShape {
+    if (!leftHanded) return shape;
+    return { ...shape, frets: [...shape.frets].reverse(), fingers: [...shape.fingers].reverse() };
+}
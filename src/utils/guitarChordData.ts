@@ -5,6 +5,9 @@
 // barres: fret numbers where barre is applied
 // baseFret: starting fret position (1 = nut)
 
+import type { CustomChordShape } from '../types';
+import { getPitchClass } from './musicTheory';
+
 export interface GuitarChordShape {
     frets: number[];
     fingers: number[];
@@ -12,6 +15,9 @@ export interface GuitarChordShape {
     baseFret: number;
 }
 
+// Open string MIDI notes the shapes are written for, low to high (E2 A2 D3 G3 B3 E4)
+export const STANDARD_TUNING = [40, 45, 50, 55, 59, 64];
+
 export interface ChordVoicings {
     [quality: string]: GuitarChordShape[];
 }
@@ -462,8 +468,36 @@ export function normalizeQuality(quality: string): string {
     return qualityMap[quality] || quality;
 }
 
-// Get chord shape for a given root and quality
-export function getGuitarChord(root: string, quality: string): GuitarChordShape | null {
+/**
+ * Whether a saved shape is for this chord (enharmonic roots and quality aliases match)
+ * on this tuning
+ */
+export function isCustomShapeFor(saved: CustomChordShape, root: string, quality: string, tuning: number[] = STANDARD_TUNING): boolean {
+    return getPitchClass(normalizeRoot(saved.root)) === getPitchClass(normalizeRoot(root)) &&
+        normalizeQuality(saved.quality) === normalizeQuality(quality) &&
+        saved.tuning.join(',') === tuning.join(',');
+}
+
+/**
+ * The user's own shapes for a chord on a tuning, newest first
+ */
+export function getCustomGuitarShapes(
+    root: string,
+    quality: string,
+    customShapes: CustomChordShape[],
+    tuning: number[] = STANDARD_TUNING
+): GuitarChordShape[] {
+    return customShapes
+        .filter(saved => isCustomShapeFor(saved, root, quality, tuning))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(saved => saved.shape);
+}
+
+// Get chord shape for a given root and quality; the user's own shapes come first
+export function getGuitarChord(root: string, quality: string, customShapes: CustomChordShape[] = []): GuitarChordShape | null {
+    const custom = getCustomGuitarShapes(root, quality, customShapes);
+    if (custom.length > 0) return custom[0];
+
     const normalizedRoot = normalizeRoot(root);
     const normalizedQuality = normalizeQuality(quality);
 
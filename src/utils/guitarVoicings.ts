@@ -0,0 +1,254 @@
+/**
+ * Guitar Voicings
+ *
+ * A fretboard solver for chords the shape database doesn't cover. Every fingering that
+ * sounds the chord inside a small fret span is enumerated string by string, fingered
+ * (with a first-finger barre when more than four notes are fretted), scored, and
+ * returned best first:
+ * - open strings near the nut and a root in the bass score up
+ * - barres, extra fingers, wide stretches, high positions, open strings under a
+ *   high shape and muted strings inside the shape score down
+ *
+ * The fifth may be left out of four-note chords, and the 11th and 9th of larger ones,
+ * as guitarists do. Hand-entered database shapes, where they exist, come first.
+ */
+
+import { getCustomGuitarShapes, guitarChords, normalizeQuality, normalizeRoot, STANDARD_TUNING, type GuitarChordShape } from './guitarChordData';
+import { getOptionalIntervals, hasShapeErrors, validateChordShape } from './chordShapeValidator';
+import { getChordNotes, toPitchClass } from './musicTheory';
+import type { CustomChordShape } from '../types';
+
+export interface GuitarVoicingOptions {
+    tuning?: number[];   // Open string MIDI notes, low to high
+    maxSpan?: number;    // Frets a shape may cover (4-5)
+    maxFret?: number;    // Highest fret used
+    bass?: string;       // Note that must be lowest (inversions and slash chords)
+    limit?: number;      // Shapes returned
+    customShapes?: CustomChordShape[]; // The user's own shapes, shown first
+}
+
+interface ScoredShape {
+    shape: GuitarChordShape;
+    score: number;
+}
+
+const DEFAULT_MAX_SPAN = 4;
+const DEFAULT_MAX_FRET = 12;
+const DEFAULT_LIMIT = 8;
+const MAX_FINGERS = 4;
+
+/**
+ * Fingers for the fretted strings: one per note when four will do, otherwise a
+ * first-finger barre across the lowest fret and the rest on top. Null when unplayable.
+ */
+export function assignFingers(frets: number[]): { fingers: number[]; barre: number | null } | null {
+    const fretted = frets
+        .map((fret, string) => ({ fret, string }))
+        .filter(({ fret }) => fret > 0);
+    const fingers = frets.map(() => 0);
+
+    const byFret = (notes: typeof fretted) => [...notes].sort((a, b) => a.fret - b.fret || a.string - b.string);
+
+    if (fretted.length <= MAX_FINGERS) {
+        byFret(fretted).forEach(({ string }, i) => { fingers[string] = i + 1; });
+        return { fingers, barre: null };
+    }
+
+    // Barre the lowest fret from its first to its last string; everything in between
+    // must be fretted at or above it
+    const barreFret = Math.min(...fretted.map(({ fret }) => fret));
+    const barreStrings = fretted.filter(({ fret }) => fret === barreFret).map(({ string }) => string);
+    const first = Math.min(...barreStrings);
+    const last = Math.max(...barreStrings);
+    for (let string = first; string <= last; string++) {
+        if (frets[string] < barreFret) return null;
+    }
+
+    const above = fretted.filter(({ fret }) => fret > barreFret);
+    if (above.length > MAX_FINGERS - 1) return null;
+
+    barreStrings.forEach(string => { fingers[string] = 1; });
+    byFret(above).forEach(({ string }, i) => { fingers[string] = i + 2; });
+    return { fingers, barre: barreFret };
+}
+
+/**
+ * The lowest sounding note, by pitch rather than string order (re-entrant tunings such as
+ * ukulele and banjo have a high string on the bass side)
+ */
+function getLowestPitch(frets: number[], tuning: number[]): number {
+    return Math.min(...frets.flatMap((fret, string) => fret >= 0 ? [tuning[string] + fret] : []));
+}
+
+function scoreShape(frets: number[], fingers: number[], barre: number | null, tuning: number[], rootPc: number): number {
+    const sounding = frets.map((fret, string) => ({ fret, string })).filter(({ fret }) => fret >= 0);
+    const fretted = sounding.filter(({ fret }) => fret > 0).map(({ fret }) => fret);
+    const firstSounding = sounding[0].string;
+    const lastSounding = sounding[sounding.length - 1].string;
+    const innerMutes = frets.slice(firstSounding, lastSounding + 1).filter(fret => fret < 0).length;
+    const span = fretted.length > 0 ? Math.max(...fretted) - Math.min(...fretted) : 0;
+    const position = fretted.length > 0 ? Math.min(...fretted) : 0;
+
+    // Open strings ring nicely at the nut; up the neck they pull the hand apart
+    const opens = sounding.filter(({ fret }) => fret === 0).length;
+    const nearNut = fretted.length === 0 || Math.max(...fretted) <= 4;
+
+    let score = 0;
+    score += opens * (nearNut ? 2 : -1);
+    score += sounding.length;
+    score -= frets.length - sounding.length;
+    if (toPitchClass(getLowestPitch(frets, tuning)) === rootPc) score += 6;
+    score -= innerMutes * 4;
+    score -= new Set(fingers.filter(finger => finger > 0)).size;
+    if (barre !== null) score -= 2;
+    score -= Math.max(0, span - 2);
+    score -= position * 0.3;
+    return score;
+}
+
+/**
+ * Absolute frets to a diagram shape: at the nut when it fits the first four frets,
+ * otherwise relative to the lowest fretted fret
+ */
+export function toDiagramShape(frets: number[], fingers: number[], barre: number | null, maxSpan: number): GuitarChordShape {
+    const fretted = frets.filter(fret => fret > 0);
+    const highest = fretted.length > 0 ? Math.max(...fretted) : 0;
+    if (highest <= Math.max(4, maxSpan)) {
+        return { frets, fingers, barres: barre !== null ? [barre] : [], baseFret: 1 };
+    }
+
+    const baseFret = Math.min(...fretted);
+    return {
+        frets: frets.map(fret => fret > 0 ? fret - baseFret + 1 : fret),
+        fingers,
+        barres: barre !== null ? [barre - baseFret + 1] : [],
+        baseFret
+    };
+}
+
+const shapeKey = (shape: GuitarChordShape) => {
+    const absolute = shape.frets.map(fret => fret > 0 ? fret + shape.baseFret - 1 : fret);
+    return absolute.join(',');
+};
+
+/**
+ * Whether two shapes are the same fingering with some strings muted or left ringing
+ */
+const isVariantOf = (shape: GuitarChordShape, other: GuitarChordShape) => {
+    const frets = shapeKey(shape).split(',');
+    const otherFrets = shapeKey(other).split(',');
+    const within = (a: string[], b: string[]) => a.every((fret, string) => fret === '-1' || fret === b[string]);
+    return within(frets, otherFrets) || within(otherFrets, frets);
+};
+
+/**
+ * Playable shapes for a set of chord notes on a tuning, best first
+ */
+export function solveGuitarVoicings(notes: string[], root: string, options: GuitarVoicingOptions = {}): GuitarChordShape[] {
+    const {
+        tuning = STANDARD_TUNING,
+        maxSpan = DEFAULT_MAX_SPAN,
+        maxFret = DEFAULT_MAX_FRET,
+        bass,
+        limit = DEFAULT_LIMIT
+    } = options;
+
+    const rootPc = toPitchClass(root);
+    const chordPcs = [...new Set(notes.map(toPitchClass).filter(chordPc => chordPc !== -1))];
+    if (rootPc === -1 || chordPcs.length === 0) return [];
+
+    const intervals = chordPcs.map(chordPc => toPitchClass(chordPc - rootPc));
+    const optional = getOptionalIntervals(intervals);
+    const required = chordPcs.filter(chordPc => !optional.includes(toPitchClass(chordPc - rootPc)));
+    const bassPc = bass ? toPitchClass(bass) : -1;
+    const minStrings = Math.min(tuning.length, Math.max(3, required.length));
+
+    const found = new Map<string, ScoredShape>();
+
+    // Each window of frets, from the nut up; open strings are always available
+    for (let low = 1; low + maxSpan - 1 <= maxFret; low++) {
+        const high = low + maxSpan - 1;
+        const frets: number[] = [];
+
+        const search = (string: number) => {
+            if (string === tuning.length) {
+                const sounding = frets.filter(fret => fret >= 0);
+                if (sounding.length < minStrings) return;
+
+                const soundingPcs = new Set(frets.flatMap((fret, s) => fret >= 0 ? [toPitchClass(tuning[s] + fret)] : []));
+                if (!required.every(requiredPc => soundingPcs.has(requiredPc))) return;
+
+                if (bassPc !== -1 && toPitchClass(getLowestPitch(frets, tuning)) !== bassPc) return;
+
+                // Only shapes that use this window (lower shapes come from lower windows)
+                const fretted = frets.filter(fret => fret > 0);
+                if (fretted.length > 0 && Math.min(...fretted) !== low && low > 1) return;
+
+                const fingering = assignFingers(frets);
+                if (!fingering) return;
+
+                const shape = toDiagramShape([...frets], fingering.fingers, fingering.barre, maxSpan);
+                const key = shapeKey(shape);
+                if (found.has(key)) return;
+
+                let score = scoreShape(frets, fingering.fingers, fingering.barre, tuning, rootPc);
+                if (soundingPcs.size === chordPcs.length) score += 2;
+                found.set(key, { shape, score });
+                return;
+            }
+
+            // Muted
+            frets.push(-1);
+            search(string + 1);
+            frets.pop();
+
+            // Open or fretted inside the window, when the note belongs to the chord
+            for (const fret of [0, ...Array.from({ length: maxSpan }, (_, i) => low + i)]) {
+                if (fret > high || !chordPcs.includes(toPitchClass(tuning[string] + fret))) continue;
+                frets.push(fret);
+                search(string + 1);
+                frets.pop();
+            }
+        };
+
+        search(0);
+    }
+
+    // Skip shapes that are a better one with strings muted or added
+    const ranked = [...found.values()].sort((a, b) => b.score - a.score);
+    const chosen: GuitarChordShape[] = [];
+    for (const { shape } of ranked) {
+        if (chosen.length === limit) break;
+        if (!chosen.some(better => isVariantOf(shape, better))) chosen.push(shape);
+    }
+    return chosen;
+}
+
+/**
+ * Shapes for a chord by root and quality: the user's own shapes for the tuning first,
+ * then the database's hand-entered shapes (standard tuning only), then solved ones that
+ * aren't variants of those, then any database shapes that fail validation
+ */
+export function getGuitarVoicings(root: string, quality: string, options: GuitarVoicingOptions = {}): GuitarChordShape[] {
+    const tuning = options.tuning ?? STANDARD_TUNING;
+    const isStandard = tuning.join(',') === STANDARD_TUNING.join(',');
+    const custom = options.bass ? [] : getCustomGuitarShapes(root, quality, options.customShapes ?? [], tuning);
+    const database = (isStandard && !options.bass
+        ? guitarChords[normalizeRoot(root)]?.[normalizeQuality(quality)] ?? []
+        : []
+    ).filter(shape => !custom.some(own => shapeKey(own) === shapeKey(shape)));
+
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const known = [...custom, ...database];
+    const solved = solveGuitarVoicings(getChordNotes(root, quality), root, { ...options, limit: limit + known.length });
+    const extra = solved.filter(shape => !known.some(other => isVariantOf(shape, other)));
+
+    // Database shapes that play the wrong notes or can't be fingered go after solved ones
+    const broken = (shape: GuitarChordShape) => hasShapeErrors(validateChordShape(shape, root, quality));
+    return [
+        ...custom,
+        ...database.filter(shape => !broken(shape)),
+        ...extra,
+        ...database.filter(broken)
+    ].slice(0, limit);
+}
@@ -0,0 +1,170 @@
+/**
+ * Harmonic Analysis
+ *
+ * Labels every chord in a song with a roman numeral relative to its key center,
+ * recognising secondary dominants and leading-tone chords (V7/vi, vii°7/V),
+ * chords borrowed from parallel modes (bVII, iv, bVI), the Neapolitan and the
+ * Italian/French/German augmented sixths.
+ */
+
+import { getSectionKey, type Song } from '../types';
+import {
+    getChordNotes,
+    getChordNumeral,
+    getDiatonicChords,
+    getKeyScale,
+    toPitchClass,
+    type Chord,
+    type KeyMode
+} from './musicTheory';
+
+export type HarmonicFunction =
+    | 'diatonic'
+    | 'secondary'      // Secondary dominant or leading-tone chord (V/x, vii°/x)
+    | 'borrowed'       // Modal mixture from a parallel mode
+    | 'neapolitan'
+    | 'augmentedSixth'
+    | 'chromatic';     // Anything else; numeral only
+
+export interface ChordAnalysis {
+    numeral: string;
+    function: HarmonicFunction;
+}
+
+// Parallel modes that borrowed chords are drawn from. Triads found in the common
+// sources read as mixture before secondary function (D in A minor is IV, not V/bVII).
+const COMMON_BORROW_SOURCES: KeyMode[] = ['aeolian', 'ionian', 'harmonicMinor', 'dorian', 'mixolydian'];
+const RARE_BORROW_SOURCES: KeyMode[] = ['phrygian', 'lydian'];
+
+interface ChordShape {
+    third: 'major' | 'minor' | 'none';
+    fifth: 'perfect' | 'diminished' | 'augmented' | 'none';
+    seventh: 'minor' | 'major' | 'diminished' | 'none';
+}
+
+/**
+ * Read the triad and seventh off a chord's root-position intervals
+ */
+function getChordShape(chord: Chord): ChordShape {
+    const notes = getChordNotes(chord.root, chord.quality);
+    const rootPc = toPitchClass(chord.root);
+    const intervals = new Set((notes.length ? notes : chord.notes).map(n => (toPitchClass(n) - rootPc + 12) % 12));
+
+    const third = intervals.has(4) ? 'major' : intervals.has(3) ? 'minor' : 'none';
+    const fifth = intervals.has(7) ? 'perfect'
+        : intervals.has(6) && third !== 'major' ? 'diminished'
+            : intervals.has(8) && third === 'major' ? 'augmented'
+                : 'none';
+    const seventh = intervals.has(10) ? 'minor'
+        : intervals.has(11) ? 'major'
+            : intervals.has(9) && fifth === 'diminished' ? 'diminished'
+                : 'none';
+
+    return { third, fifth, seventh };
+}
+
+/**
+ * Roman numeral for a chord shape relative to a tonic, with a seventh figure
+ * (V7, IVmaj7, viiø7, vii°7)
+ */
+function formatNumeral(root: string, shape: ChordShape, tonic: string, mode: KeyMode = 'ionian'): string {
+    const triad = shape.fifth === 'diminished' ? 'diminished'
+        : shape.fifth === 'augmented' ? 'augmented'
+            : shape.third === 'minor' ? 'minor'
+                : 'major';
+    const numeral = getChordNumeral(root, triad, tonic, mode);
+
+    if (shape.seventh === 'none') return numeral;
+    if (shape.seventh === 'major') return `${numeral}maj7`;
+    if (triad === 'diminished' && shape.seventh === 'minor') return `${numeral.replace('°', 'ø')}7`;
+    return `${numeral}7`;
+}
+
+const isSubsetOf = (pitchClasses: number[], scale: string[]) => {
+    const scalePcs = new Set(scale.map(toPitchClass));
+    return pitchClasses.every(pc => scalePcs.has(pc));
+};
+
+/**
+ * Analyse one chord against a key center. `next` is the following chord, used to
+ * tell an augmented sixth (resolving to V) apart from a borrowed bVI7.
+ */
+export function analyzeChord(chord: Chord, tonic: string, mode: KeyMode = 'ionian', next?: Chord | null): ChordAnalysis {
+    const tonicPc = toPitchClass(tonic);
+    const rootPc = toPitchClass(chord.root);
+    if (tonicPc === -1 || rootPc === -1) return { numeral: '', function: 'chromatic' };
+
+    const degree = (rootPc - tonicPc + 12) % 12;
+    const chordPcs = [...new Set(chord.notes.map(toPitchClass))];
+    const shape = getChordShape(chord);
+
+    if (isSubsetOf(chordPcs, getKeyScale(tonic, mode))) {
+        return { numeral: formatNumeral(chord.root, shape, tonic, mode), function: 'diatonic' };
+    }
+
+    // Augmented sixth: b6 and #4 around the tonic, resolving outward to V
+    const fromTonic = new Set(chordPcs.map(pc => (pc - tonicPc + 12) % 12));
+    const nextBassDegree = next
+        ? (toPitchClass(next.bassNote ?? next.notes[0] ?? next.root) - tonicPc + 12) % 12
+        : -1;
+    if (degree === 8 && shape.third === 'major' && fromTonic.has(6) && nextBassDegree === 7) {
+        if (fromTonic.has(2)) return { numeral: 'Fr+6', function: 'augmentedSixth' };
+        if (fromTonic.has(3)) return { numeral: 'Ger+6', function: 'augmentedSixth' };
+        return { numeral: 'It+6', function: 'augmentedSixth' };
+    }
+
+    // Neapolitan: major triad on the lowered second degree
+    if (degree === 1 && shape.third === 'major' && shape.fifth === 'perfect' && shape.seventh === 'none') {
+        return { numeral: chord.inversion === 1 ? 'N6' : 'N', function: 'neapolitan' };
+    }
+
+    const isBorrowedFrom = (sources: KeyMode[]) =>
+        sources.some(source => source !== mode && isSubsetOf(chordPcs, getKeyScale(tonic, source)));
+
+    if (shape.seventh === 'none' && isBorrowedFrom(COMMON_BORROW_SOURCES)) {
+        return { numeral: formatNumeral(chord.root, shape, tonic, mode), function: 'borrowed' };
+    }
+
+    // Secondary dominants and leading-tone chords tonicize a diatonic major or minor chord
+    const diatonic = getDiatonicChords(tonic, mode);
+    const isDominant = shape.third === 'major' && shape.fifth !== 'augmented' && shape.fifth !== 'diminished' && shape.seventh !== 'major';
+    const isLeadingTone = shape.fifth === 'diminished';
+    const targetPc = isDominant ? (rootPc + 5) % 12 : isLeadingTone ? (rootPc + 1) % 12 : -1;
+    const target = diatonic.find(c =>
+        toPitchClass(c.root) === targetPc &&
+        targetPc !== tonicPc &&
+        (c.quality === 'major' || c.quality === 'minor')
+    );
+    if (target?.numeral) {
+        return {
+            numeral: `${formatNumeral(chord.root, shape, target.root)}/${target.numeral}`,
+            function: 'secondary'
+        };
+    }
+
+    if (isBorrowedFrom([...COMMON_BORROW_SOURCES, ...RARE_BORROW_SOURCES])) {
+        return { numeral: formatNumeral(chord.root, shape, tonic, mode), function: 'borrowed' };
+    }
+
+    return { numeral: formatNumeral(chord.root, shape, tonic, mode), function: 'chromatic' };
+}
+
+/**
+ * Analyse every filled slot in a song, in playback order, against the key of the
+ * section it sits in. Returns a map of slot id -> analysis; empty slots are omitted.
+ */
+export function analyzeSong(song: Song): Record<string, ChordAnalysis> {
+    const slots = song.sections.flatMap(section => {
+        const { key, mode } = getSectionKey(section, song);
+        return section.measures
+            .flatMap(measure => measure.beats)
+            .filter(slot => slot.chord)
+            .map(slot => ({ slot, key, mode }));
+    });
+
+    const result: Record<string, ChordAnalysis> = {};
+    slots.forEach(({ slot, key, mode }, i) => {
+        result[slot.id] = analyzeChord(slot.chord!, key, mode, slots[i + 1]?.slot.chord);
+    });
+    return result;
+}
@@ -0,0 +1,180 @@
+/**
+ * Humanize
+ *
+ * Playback feel: swing and human timing. Swing delays the off-beat eighths or sixteenths
+ * (50% is straight, 66% a triplet shuffle, 75% a dotted feel). Humanize nudges each note
+ * early or late and up or down in velocity by a small amount, and spreads notes struck
+ * together into a strum.
+ *
+ * The random amounts come from a hash of the seed and each note's position rather than a
+ * running random sequence, so live playback, audio export and MIDI export move every note
+ * the same way whatever order they render in, and the same seed always gives the same take.
+ */
+
+import type { SectionTiming, SongTiming } from './songTiming';
+
+export type SwingUnit = 'eighths' | 'sixteenths';
+
+export interface FeelSettings {
+    swing: number;            // Where the off-beat falls in each pair, in percent: 50 straight to 75
+    swingUnit: SwingUnit;
+    timingJitterMs: number;   // Largest early/late nudge
+    velocityVariance: number; // Largest velocity change, as a fraction of the velocity (0-0.5)
+    strumSpreadMs: number;    // Added between notes struck together, in strum order
+    seed: number;
+}
+
+export const SWING_UNITS: { value: SwingUnit; label: string }[] = [
+    { value: 'eighths', label: '8ths' },
+    { value: 'sixteenths', label: '16ths' },
+];
+
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+export const MAX_TIMING_JITTER_MS = 40;
+export const MAX_VELOCITY_VARIANCE = 0.5;
+export const MAX_STRUM_SPREAD_MS = 60;
+
+export const DEFAULT_FEEL: FeelSettings = {
+    swing: 50,
+    swingUnit: 'eighths',
+    timingJitterMs: 0,
+    velocityVariance: 0,
+    strumSpreadMs: 0,
+    seed: 1,
+};
+
+// Length of the swung unit in quarter-note beats
+const UNIT_BEATS: Record<SwingUnit, number> = {
+    eighths: 0.5,
+    sixteenths: 0.25,
+};
+
+// Notes starting this close together (in beats) count as one strum
+const STRUM_WINDOW_BEATS = 0.1;
+
+// Hash positions at this resolution so float noise doesn't change the random amounts
+const POSITION_RESOLUTION = 960;
+
+const MIN_VELOCITY = 0.05;
+
+// Allow for floating point drift at pair boundaries
+const EPSILON = 1e-6;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function isFeelActive(feel: FeelSettings): boolean {
+    return feel.swing > MIN_SWING || feel.timingJitterMs > 0 || feel.velocityVariance > 0 || feel.strumSpreadMs > 0;
+}
+
+/**
+ * Swing a position given in beats from the section start. Each pair of units is split at
+ * the swing percentage instead of the middle, and positions inside the pair stretch with it.
+ */
+export function swingBeat(beat: number, feel: Pick<FeelSettings, 'swing' | 'swingUnit'>): number {
+    const ratio = clamp(feel.swing, MIN_SWING, MAX_SWING) / 100;
+    if (ratio <= 0.5) return beat;
+
+    const pair = (UNIT_BEATS[feel.swingUnit] ?? UNIT_BEATS.eighths) * 2;
+    const pairStart = Math.floor(beat / pair + EPSILON) * pair;
+    const position = clamp((beat - pairStart) / pair, 0, 1);
+    const swung = position < 0.5
+        ? position * 2 * ratio
+        : ratio + (position - 0.5) * 2 * (1 - ratio);
+    return pairStart + swung * pair;
+}
+
+/**
+ * Deterministic noise in [-1, 1) for a seed and a note's identity (FNV-1a, then mixed)
+ */
+function noise(seed: number, ...keys: (string | number)[]): number {
+    const text = `${seed}|${keys.join('|')}`;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    return ((hash >>> 0) / 4294967296) * 2 - 1;
+}
+
+/**
+ * Position of each note within the strum it belongs to: notes that start together
+ * (within a small window of the strum's first note) count up in the order given.
+ */
+export function getStrumOrder(events: { startBeat: number }[]): number[] {
+    let strumStart = -Infinity;
+    let index = 0;
+    return events.map(event => {
+        if (event.startBeat - strumStart > STRUM_WINDOW_BEATS) {
+            strumStart = event.startBeat;
+            index = 0;
+        } else {
+            index++;
+        }
+        return index;
+    });
+}
+
+export interface FeelHit {
+    startBeat: number;      // From the song start
+    durationBeats: number;
+    velocity: number;       // 0-1
+}
+
+export interface FeltHit extends FeelHit {
+    startSeconds: number;
+    durationSeconds: number;
+}
+
+export type FeelFunction = (hit: FeelHit, key: string, strumIndex?: number) => FeltHit;
+
+/**
+ * Build the feel for a song: a function that places a note, given in beats from the song
+ * start, with swing and humanize applied. `key` tells apart notes at the same position
+ * (the pitch, or the drum voice); `strumIndex` is the note's place in its strum.
+ */
+export function createFeel(timing: SongTiming, feel: FeelSettings): FeelFunction {
+    const sectionAt = (beat: number): SectionTiming | undefined => {
+        let found = timing.sections[0];
+        for (const section of timing.sections) {
+            if (section.startBeat > beat + EPSILON) break;
+            found = section;
+        }
+        return found;
+    };
+
+    return (hit, key, strumIndex = 0) => {
+        const section = sectionAt(hit.startBeat);
+        const sectionStartBeat = section?.startBeat ?? 0;
+        const sectionStartSeconds = section?.startSeconds ?? 0;
+        const secondsPerBeat = 60 / (section?.tempo ?? 120);
+
+        // Swing both ends so notes keep to the swung grid
+        const localStart = hit.startBeat - sectionStartBeat;
+        const swungStart = swingBeat(localStart, feel);
+        const swungEnd = swingBeat(localStart + hit.durationBeats, feel);
+
+        const position = Math.round(hit.startBeat * POSITION_RESOLUTION);
+        const jitterMs = noise(feel.seed, 'time', position, key) * clamp(feel.timingJitterMs, 0, MAX_TIMING_JITTER_MS);
+        const strumMs = strumIndex * clamp(feel.strumSpreadMs, 0, MAX_STRUM_SPREAD_MS);
+        const nudgeBeats = (jitterMs + strumMs) / 1000 / secondsPerBeat;
+
+        const startBeat = Math.max(0, sectionStartBeat + swungStart + nudgeBeats);
+        const durationBeats = Math.max(0, swungEnd - swungStart);
+        const variance = clamp(feel.velocityVariance, 0, MAX_VELOCITY_VARIANCE);
+        const velocity = variance > 0
+            ? clamp(hit.velocity * (1 + noise(feel.seed, 'velocity', position, key) * variance), MIN_VELOCITY, 1)
+            : hit.velocity;
+
+        return {
+            startBeat,
+            durationBeats,
+            startSeconds: sectionStartSeconds + (startBeat - sectionStartBeat) * secondsPerBeat,
+            durationSeconds: durationBeats * secondsPerBeat,
+            velocity
+        };
+    };
+}
@@ -0,0 +1,179 @@
+/**
+ * Key Detection
+ *
+ * Estimates the key center of a chord progression by scoring every tonic + mode
+ * against the chords: how much of each chord fits the scale (out-of-key tones count
+ * against it), weighted by slot duration, plus evidence for the tonic (chords on it, starting/ending on it,
+ * V-I cadences into it).
+ */
+
+import { getSectionKey, type Song, type Section } from '../types';
+import {
+    KEY_MODES,
+    NOTES,
+    spellKeyTonic,
+    toPitchClass,
+    type Chord,
+    type KeyMode
+} from './musicTheory';
+
+export interface KeyCandidate {
+    tonic: string;
+    mode: KeyMode;
+    score: number;
+    confidence: number; // 0-1, share of the evidence relative to the other candidates
+}
+
+export interface SectionKeyEstimate {
+    sectionId: string;
+    candidates: KeyCandidate[];
+    modulates: boolean; // Best key differs clearly from the song key
+}
+
+export interface KeyDetectionOptions {
+    includeModes?: boolean; // Also consider dorian, phrygian, lydian, mixolydian, locrian
+}
+
+interface WeightedChord {
+    chord: Chord;
+    weight: number;
+}
+
+const MODAL_CANDIDATES: KeyMode[] = ['dorian', 'phrygian', 'lydian', 'mixolydian', 'locrian'];
+
+// Modes need clearer tonic evidence than major/minor before they win a tie
+const MODAL_PENALTY = 0.1;
+
+// Each chord tone outside the key cancels this many tones inside it
+const OUT_OF_KEY_PENALTY = 3;
+
+// Sharpness of the score -> confidence conversion
+const CONFIDENCE_SHARPNESS = 8;
+
+/**
+ * Pitch classes of a key center. Minor keys also accept the raised leading tone,
+ * so E7 counts as in key for A minor.
+ */
+function getKeyPitchClasses(tonicPc: number, mode: KeyMode): Set<number> {
+    const pcs = new Set(KEY_MODES[mode].intervals.map(step => (tonicPc + step) % 12));
+    if (mode === 'aeolian') pcs.add((tonicPc + 11) % 12);
+    return pcs;
+}
+
+function scoreKey(chords: WeightedChord[], tonicPc: number, mode: KeyMode): number {
+    const scalePcs = getKeyPitchClasses(tonicPc, mode);
+    const thirdPc = (tonicPc + KEY_MODES[mode].intervals[2]) % 12;
+    const totalWeight = chords.reduce((acc, c) => acc + c.weight, 0);
+
+    const isTonicChord = (chord: Chord) =>
+        toPitchClass(chord.root) === tonicPc && chord.notes.some(n => toPitchClass(n) === thirdPc);
+    const isDominantOfTonic = (chord: Chord) =>
+        toPitchClass(chord.root) === (tonicPc + 7) % 12 &&
+        chord.notes.some(n => toPitchClass(n) === (tonicPc + 11) % 12);
+    const hasDominantSeventh = (chord: Chord) =>
+        chord.notes.some(n => toPitchClass(n) === (tonicPc + 5) % 12);
+
+    // How well the chords fit the scale: share of chord tones in key, root counted twice,
+    // less a penalty for each tone outside it
+    let fit = 0;
+    let tonicWeight = 0;
+    chords.forEach(({ chord, weight }) => {
+        const pcs = [...new Set(chord.notes.map(toPitchClass))];
+        const inKey = pcs.filter(pc => scalePcs.has(pc)).length;
+        const rootInKey = scalePcs.has(toPitchClass(chord.root)) ? 1 : 0;
+        const outOfKey = pcs.length - inKey;
+        fit += weight * (inKey + rootInKey - OUT_OF_KEY_PENALTY * outOfKey) / (pcs.length + 1);
+        if (isTonicChord(chord)) tonicWeight += weight;
+    });
+
+    // Cadences: dominant (with leading tone) resolving to the tonic chord. Progressions
+    // usually loop, so the last chord also resolves to the first. A V7 counts for more.
+    let cadences = 0;
+    chords.forEach(({ chord }, i) => {
+        const next = chords[(i + 1) % chords.length].chord;
+        if (chords.length > 1 && isDominantOfTonic(chord) && isTonicChord(next)) {
+            cadences += hasDominantSeventh(chord) ? 2 : 1;
+        }
+    });
+
+    const first = chords[0]?.chord;
+    const last = chords[chords.length - 1]?.chord;
+
+    let score = fit / totalWeight;
+    score += 0.4 * (tonicWeight / totalWeight);
+    if (first && isTonicChord(first)) score += 0.15;
+    if (last && isTonicChord(last)) score += 0.2;
+    score += Math.min(0.45, cadences * 0.15);
+    if (mode !== 'ionian' && mode !== 'aeolian') score -= MODAL_PENALTY;
+
+    return score;
+}
+
+/**
+ * Rank candidate keys for a list of chords (with optional durations as weights).
+ * Returns all 24 major/minor keys, plus modes when requested, best first.
+ */
+export function estimateKey(
+    chords: (Chord | WeightedChord)[],
+    options: KeyDetectionOptions = {}
+): KeyCandidate[] {
+    const weighted = chords.map(c => ('chord' in c ? c : { chord: c, weight: 1 }));
+    if (weighted.length === 0) return [];
+
+    const modes: KeyMode[] = ['ionian', 'aeolian', ...(options.includeModes ? MODAL_CANDIDATES : [])];
+
+    const scored = modes.flatMap(mode =>
+        Array.from({ length: 12 }, (_, tonicPc) => ({
+            tonic: spellKeyTonic(NOTES[tonicPc], mode),
+            mode,
+            score: scoreKey(weighted, tonicPc, mode)
+        }))
+    );
+
+    // Softmax over scores so confidence reads as "how clearly this key wins"
+    const best = Math.max(...scored.map(c => c.score));
+    const exps = scored.map(c => Math.exp((c.score - best) * CONFIDENCE_SHARPNESS));
+    const total = exps.reduce((acc, e) => acc + e, 0);
+
+    return scored
+        .map((c, i) => ({ ...c, confidence: exps[i] / total }))
+        .sort((a, b) => b.score - a.score);
+}
+
+const getSectionChords = (section: Section): WeightedChord[] =>
+    section.measures.flatMap(measure =>
+        measure.beats
+            .filter(slot => slot.chord)
+            .map(slot => ({ chord: slot.chord as Chord, weight: slot.duration || 1 }))
+    );
+
+/**
+ * Rank candidate keys for a whole song
+ */
+export function detectSongKey(song: Song, options: KeyDetectionOptions = {}): KeyCandidate[] {
+    return estimateKey(song.sections.flatMap(getSectionChords), options);
+}
+
+/**
+ * Estimate the key of each section that has chords, flagging sections whose best
+ * key is clearly different from the key they are set in (a bridge that modulates
+ * without a section key override).
+ */
+export function detectSectionKeys(song: Song, options: KeyDetectionOptions = {}): SectionKeyEstimate[] {
+    return song.sections
+        .map(section => ({ section, chords: getSectionChords(section) }))
+        .filter(({ chords }) => chords.length > 0)
+        .map(({ section, chords }) => {
+            const { key, mode } = getSectionKey(section, song);
+            const keyPc = toPitchClass(key);
+            const candidates = estimateKey(chords, options);
+            const best = candidates[0];
+            const isSetKey = toPitchClass(best.tonic) === keyPc && best.mode === mode;
+
+            return {
+                sectionId: section.id,
+                candidates,
+                modulates: !isSetKey && best.score - scoreKey(chords, keyPc, mode) > 0.1
+            };
+        });
+}
@@ -0,0 +1,132 @@
+/**
+ * Metronome
+ *
+ * Builds click tracks from the song timing: an accented click on each bar's
+ * downbeat, a normal click on every beat and optional quieter subdivisions.
+ * Beats follow each section's meter, so 6/8 and 12/8 click dotted quarters with
+ * the eighths as subdivisions, while 7/8 clicks every eighth.
+ */
+
+import * as Tone from 'tone';
+import type { SongTiming } from './songTiming';
+
+export type ClickAccent = 'downbeat' | 'beat' | 'subdivision';
+
+export interface Click {
+    time: number;   // Seconds
+    accent: ClickAccent;
+}
+
+export type MetronomeSubdivision = 'none' | 'eighths' | 'triplets' | 'sixteenths';
+
+export interface MeterPulse {
+    beatsPerBar: number;        // Felt beats per bar (2 in 6/8, 4 in 12/8)
+    beatLength: number;         // Length of one felt beat in quarter notes
+    isCompound: boolean;
+}
+
+export const METRONOME_SUBDIVISIONS: { value: MetronomeSubdivision; label: string }[] = [
+    { value: 'none', label: 'Beats' },
+    { value: 'eighths', label: '8ths' },
+    { value: 'triplets', label: 'Triplets' },
+    { value: 'sixteenths', label: '16ths' },
+];
+
+// Allow for floating point drift when stepping through a bar
+const EPSILON = 1e-6;
+
+/**
+ * How a time signature is felt: compound meters (6/8, 9/8, 12/8) group eighths in
+ * threes, everything else beats on the denominator
+ */
+export function getMeterPulse([numerator, denominator]: [number, number]): MeterPulse {
+    const isCompound = denominator === 8 && numerator % 3 === 0 && numerator > 3;
+    if (isCompound) {
+        return { beatsPerBar: numerator / 3, beatLength: 1.5, isCompound };
+    }
+    return { beatsPerBar: numerator, beatLength: 4 / denominator, isCompound };
+}
+
+/**
+ * Clicks per felt beat for a subdivision setting. In compound meters "8ths" are the
+ * three eighths of each dotted-quarter beat.
+ */
+function getClicksPerBeat(subdivision: MetronomeSubdivision, pulse: MeterPulse): number {
+    switch (subdivision) {
+        case 'eighths':
+            return pulse.isCompound ? 3 : Math.max(1, Math.round(pulse.beatLength * 2));
+        case 'triplets':
+            return 3;
+        case 'sixteenths':
+            return pulse.isCompound ? 6 : Math.max(1, Math.round(pulse.beatLength * 4));
+        default:
+            return 1;
+    }
+}
+
+/**
+ * Clicks for a whole song, in seconds from the song start
+ */
+export function buildClickTrack(timing: SongTiming, subdivision: MetronomeSubdivision = 'none'): Click[] {
+    const clicks: Click[] = [];
+
+    timing.sections.forEach(section => {
+        const pulse = getMeterPulse(section.timeSignature);
+        const clicksPerBeat = getClicksPerBeat(subdivision, pulse);
+        const step = pulse.beatLength / clicksPerBeat;
+        const secondsPerQuarter = 60 / section.tempo;
+
+        section.measures.forEach(measure => {
+            for (let i = 0; i * step < measure.durationBeats - EPSILON; i++) {
+                clicks.push({
+                    time: measure.startSeconds + i * step * secondsPerQuarter,
+                    accent: i === 0 ? 'downbeat' : i % clicksPerBeat === 0 ? 'beat' : 'subdivision'
+                });
+            }
+        });
+    });
+
+    return clicks;
+}
+
+/**
+ * Count-in clicks (felt beats only) for `bars` bars of a meter, starting at 0.
+ * Returns the clicks and how long the count-in lasts.
+ */
+export function buildCountIn(
+    timeSignature: [number, number],
+    tempo: number,
+    bars: number
+): { clicks: Click[]; duration: number } {
+    const pulse = getMeterPulse(timeSignature);
+    const secondsPerBeat = pulse.beatLength * (60 / tempo);
+    const count = Math.max(0, Math.round(bars)) * pulse.beatsPerBar;
+
+    const clicks = Array.from({ length: count }, (_, i): Click => ({
+        time: i * secondsPerBeat,
+        accent: i % pulse.beatsPerBar === 0 ? 'downbeat' : 'beat'
+    }));
+
+    return { clicks, duration: count * secondsPerBeat };
+}
+
+const CLICK_SOUNDS: Record<ClickAccent, { note: string; velocity: number }> = {
+    downbeat: { note: 'A5', velocity: 1 },
+    beat: { note: 'E5', velocity: 0.7 },
+    subdivision: { note: 'E5', velocity: 0.35 },
+};
+
+/**
+ * Short woodblock-like click voice. Pass the node it should feed.
+ */
+export function createClickSynth(destination: Tone.InputNode): Tone.Synth {
+    return new Tone.Synth({
+        oscillator: { type: 'triangle' },
+        envelope: { attack: 0.001, decay: 0.05, sustain: 0, release: 0.02 },
+    }).connect(destination);
+}
+
+export function triggerClick(synth: Tone.Synth, accent: ClickAccent, time: number) {
+    const { note, velocity } = CLICK_SOUNDS[accent];
+    synth.triggerAttackRelease(note, 0.03, time, velocity);
+}
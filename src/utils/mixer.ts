@@ -0,0 +1,176 @@
+/**
+ * Mixer
+ *
+ * The song plays as separate tracks: the chords, a bass track that follows each chord's
+ * lowest note, and the drums. Every track has a channel strip (instrument, level, pan,
+ * mute/solo and reverb and delay send levels) feeding a master bus. The mix is saved
+ * with the song.
+ *
+ * createMixerBus builds the channels, the shared reverb and delay returns and the
+ * master bus in whatever audio context is current, so live playback and the offline
+ * audio export mix the tracks the same way.
+ */
+
+import * as Tone from 'tone';
+import type { InstrumentType, Song } from '../types';
+
+export type MixerTrackId = 'chords' | 'bass' | 'drums';
+
+export interface MixerTrack {
+    id: MixerTrackId;
+    instrument?: InstrumentType; // Undefined: chords use the selected instrument, bass the bass synth
+    gain: number;                // 0-1
+    pan: number;                 // -1 (left) to 1 (right)
+    muted: boolean;
+    solo: boolean;
+    reverbSend: number;          // 0-1, post-fader
+    delaySend: number;           // 0-1, post-fader
+}
+
+export interface MixerSettings {
+    tracks: MixerTrack[];
+    master: { gain: number };
+}
+
+export const MIXER_TRACKS: { id: MixerTrackId; label: string }[] = [
+    { id: 'chords', label: 'Chords' },
+    { id: 'bass', label: 'Bass' },
+    { id: 'drums', label: 'Drums' },
+];
+
+// Synth voices the bass track can play (sampled instruments only exist once, on the chord track)
+export const BASS_TRACK_INSTRUMENTS: InstrumentType[] = ['bass', 'organ', 'epiano', 'pad'];
+
+const DEFAULT_TRACK: Omit<MixerTrack, 'id'> = {
+    gain: 1,
+    pan: 0,
+    muted: false,
+    solo: false,
+    reverbSend: 0,
+    delaySend: 0,
+};
+
+export const DEFAULT_MIXER: MixerSettings = {
+    tracks: [
+        { ...DEFAULT_TRACK, id: 'chords' },
+        { ...DEFAULT_TRACK, id: 'bass', gain: 0.7 },
+        { ...DEFAULT_TRACK, id: 'drums', gain: 0.7 },
+    ],
+    master: { gain: 1 },
+};
+
+// Send returns are fully wet; the send levels decide how much of each track reaches them
+const SEND_REVERB_DECAY = 2.5;
+const SEND_DELAY_TIME = 0.375;
+const SEND_DELAY_FEEDBACK = 0.3;
+
+/**
+ * A song's mix with every track present. Songs saved before the mixer (or before a
+ * track was added) get default channels.
+ */
+export function getSongMixer(song: Pick<Song, 'mixer'>): MixerSettings {
+    const saved = song.mixer;
+    return {
+        tracks: DEFAULT_MIXER.tracks.map(track => ({
+            ...track,
+            ...saved?.tracks.find(savedTrack => savedTrack.id === track.id)
+        })),
+        master: { ...DEFAULT_MIXER.master, ...saved?.master },
+    };
+}
+
+export function getMixerTrack(mixer: MixerSettings, id: MixerTrackId): MixerTrack {
+    return mixer.tracks.find(track => track.id === id) ?? { ...DEFAULT_TRACK, id };
+}
+
+/**
+ * Level a track actually plays at: 0 when muted, or when another track is soloed
+ */
+export function getTrackLevel(mixer: MixerSettings, id: MixerTrackId): number {
+    const track = getMixerTrack(mixer, id);
+    const anySolo = mixer.tracks.some(t => t.solo);
+    if (track.muted || (anySolo && !track.solo)) return 0;
+    return track.gain;
+}
+
+export interface TrackChannel {
+    input: Tone.Gain;       // Fader; track sources connect here
+    panner: Tone.Panner;
+    reverbSend: Tone.Gain;
+    delaySend: Tone.Gain;
+}
+
+export interface MixerBus {
+    channels: Record<MixerTrackId, TrackChannel>;
+    master: Tone.Gain;
+    /** Ramp every channel and the master bus to a new mix */
+    apply: (mixer: MixerSettings) => void;
+    dispose: () => void;
+}
+
+/**
+ * Build the track channels, send returns and master bus, ending at `destination`.
+ * Without sends (a dry export) the reverb and delay returns are left out.
+ */
+export async function createMixerBus(
+    mixer: MixerSettings,
+    destination: Tone.ToneAudioNode,
+    { sends = true }: { sends?: boolean } = {}
+): Promise<MixerBus> {
+    const master = new Tone.Gain(mixer.master.gain).connect(destination);
+
+    let reverbReturn: Tone.Reverb | null = null;
+    let delayReturn: Tone.FeedbackDelay | null = null;
+    if (sends) {
+        reverbReturn = new Tone.Reverb({ decay: SEND_REVERB_DECAY, preDelay: 0.02, wet: 1 }).connect(master);
+        // MUST await reverb.ready or offline renders hang
+        await reverbReturn.ready;
+        delayReturn = new Tone.FeedbackDelay({ delayTime: SEND_DELAY_TIME, feedback: SEND_DELAY_FEEDBACK, wet: 1 }).connect(master);
+    }
+
+    const createChannel = (id: MixerTrackId): TrackChannel => {
+        const track = getMixerTrack(mixer, id);
+        const panner = new Tone.Panner(track.pan).connect(master);
+        const input = new Tone.Gain(getTrackLevel(mixer, id)).connect(panner);
+        const reverbSend = new Tone.Gain(track.reverbSend);
+        const delaySend = new Tone.Gain(track.delaySend);
+        if (reverbReturn && delayReturn) {
+            panner.connect(reverbSend);
+            panner.connect(delaySend);
+            reverbSend.connect(reverbReturn);
+            delaySend.connect(delayReturn);
+        }
+        return { input, panner, reverbSend, delaySend };
+    };
+
+    const channels = Object.fromEntries(
+        MIXER_TRACKS.map(({ id }) => [id, createChannel(id)])
+    ) as Record<MixerTrackId, TrackChannel>;
+
+    return {
+        channels,
+        master,
+        apply: (next) => {
+            MIXER_TRACKS.forEach(({ id }) => {
+                const track = getMixerTrack(next, id);
+                const channel = channels[id];
+                channel.input.gain.rampTo(getTrackLevel(next, id), 0.05);
+                channel.panner.pan.rampTo(track.pan, 0.05);
+                channel.reverbSend.gain.rampTo(track.reverbSend, 0.05);
+                channel.delaySend.gain.rampTo(track.delaySend, 0.05);
+            });
+            master.gain.rampTo(next.master.gain, 0.05);
+        },
+        dispose: () => {
+            Object.values(channels).forEach(channel => {
+                channel.input.dispose();
+                channel.panner.dispose();
+                channel.reverbSend.dispose();
+                channel.delaySend.dispose();
+            });
+            reverbReturn?.dispose();
+            delayReturn?.dispose();
+            master.dispose();
+        },
+    };
+}
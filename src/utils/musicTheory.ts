@@ -1,4 +1,6 @@
 export const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11];
 export const CIRCLE_OF_FIFTHS = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'Db', 'Ab', 'Eb', 'Bb', 'F'];
 
 // Map flats to sharps for internal calculation if needed, but we keep display names separate
@@ -29,36 +31,31 @@ export interface MajorPosition {
 }
 
 /**
- * The 12 major positions with their associated ii, iii, and vii° chords
- */
-/**
- * The 12 major positions with their associated ii, iii, and vii° chords
+ * The 12 major positions with their associated ii, iii, and vii° chords,
+ * spelled from each position's own major scale (so F# gets E#°, Db gets C°)
  * Minor ring order (24 slots, starting from Dm left of Em at 12 o'clock):
  * Dm Em | Am Bm | Em F#m | Bm C#m | F#m G#m | C#m D#m | G#m A#m | Ebm Fm | Bbm Cm | Fm Gm | Cm Dm | Gm Am
  */
-export const MAJOR_POSITIONS: MajorPosition[] = [
-    { major: 'C', ii: 'Dm', iii: 'Em', diminished: 'B°' },   // Position 0
-    { major: 'G', ii: 'Am', iii: 'Bm', diminished: 'F#°' },  // Position 1
-    { major: 'D', ii: 'Em', iii: 'F#m', diminished: 'C#°' },  // Position 2
-    { major: 'A', ii: 'Bm', iii: 'C#m', diminished: 'G#°' },  // Position 3
-    { major: 'E', ii: 'F#m', iii: 'G#m', diminished: 'D#°' },  // Position 4 (FIXED: was C#m, G#m)
-    { major: 'B', ii: 'C#m', iii: 'D#m', diminished: 'A#°' },  // Position 5 (FIXED: was G#m, D#m)
-    { major: 'F#', ii: 'G#m', iii: 'A#m', diminished: 'E#°' },  // Position 6
-    { major: 'Db', ii: 'Ebm', iii: 'Fm', diminished: 'C°' },   // Position 7
-    { major: 'Ab', ii: 'Bbm', iii: 'Cm', diminished: 'G°' },   // Position 8
-    { major: 'Eb', ii: 'Fm', iii: 'Gm', diminished: 'D°' },   // Position 9
-    { major: 'Bb', ii: 'Cm', iii: 'Dm', diminished: 'A°' },   // Position 10
-    { major: 'F', ii: 'Gm', iii: 'Am', diminished: 'E°' },   // Position 11
-];
+export const MAJOR_POSITIONS: MajorPosition[] = CIRCLE_OF_FIFTHS.map(major => {
+    const scale = getMajorScale(major);
+    return {
+        major,
+        ii: `${scale[1]}m`,
+        iii: `${scale[2]}m`,
+        diminished: `${scale[6]}°`
+    };
+});
 
 
 export interface Chord {
     root: string;
-    quality: 'major' | 'minor' | 'diminished' | 'augmented' | 'major7' | 'minor7' | 'dominant7' | 'halfDiminished7' | 'sus2' | 'sus4';
+    quality: string; // Named quality ('major', 'dominant7'), alias ('m7') or canonical suffix ('maj7#11')
     numeral?: string;
     notes: string[];
     symbol: string;
     inversion?: number; // 0 = root position, 1 = first inversion, 2 = second, etc.
+    bassNote?: string; // Slash-chord bass (e.g. 'E' in C/E); may be a non-chord tone
+    voicing?: string[]; // Explicit notes with octaves (e.g. ['E3', 'C4', 'G4']); overrides the default layout
 }
 
 // CHORD_FORMULAS removed - using EXTENDED_CHORD_FORMULAS instead
@@ -98,19 +95,135 @@ export function getQualitySymbol(quality: string): string {
 }
 
 export function normalizeNote(note: string): string {
-    // Handle sharped naturals: E# → F, B# → C
-    // These don't exist in the chromatic scale (E# is enharmonic to F, B# to C)
-    if (note === 'E#') return 'F';
-    if (note === 'B#') return 'C';
-
-    // Handle flats → sharps (to match our NOTES array which uses sharps)
-    if (note.includes('b')) {
-        const flatMap: Record<string, string> = {
-            'Db': 'C#', 'Eb': 'D#', 'Gb': 'F#', 'Ab': 'G#', 'Bb': 'A#', 'Cb': 'B', 'Fb': 'E'
-        };
-        return flatMap[note] || note;
-    }
-    return note;
+    // Any spelling (E#, Cb, Fx, Ebb...) collapses to its sharp name from NOTES.
+    // Unreadable input (e.g. with an octave attached) is returned unchanged.
+    const pitchClass = getPitchClass(note);
+    return pitchClass === -1 ? note : NOTES[pitchClass];
+}
+
+/**
+ * SPELLING
+ *
+ * Chord.notes stay in the sharp-only NOTES form that playback and exports key off.
+ * Everything shown to the user is spelled by letter name instead: each scale degree
+ * or chord tone gets its own letter, with double sharps/flats where theory needs them.
+ */
+
+/**
+ * Pitch class (0-11) of a spelled note: C, F#, Bb, F##/Fx, Ebb, B♭...
+ * Returns -1 if the note can't be read.
+ */
+export function getPitchClass(note: string): number {
+    const match = note.trim().match(/^([A-Ga-g])(##|x|𝄪|#|♯|bb|𝄫|b|♭)?$/);
+    if (!match) return -1;
+
+    const letterIndex = LETTERS.indexOf(match[1].toUpperCase());
+    const accidental = match[2] ?? '';
+    const offset = ({ '##': 2, 'x': 2, '𝄪': 2, '#': 1, '♯': 1, 'bb': -2, '𝄫': -2, 'b': -1, '♭': -1 } as Record<string, number>)[accidental] ?? 0;
+    return (LETTER_PITCHES[letterIndex] + offset + 12) % 12;
+}
+
+/**
+ * Pitch class (0-11) of a note name, ignoring any octave number ('C#4' -> 1), or of a
+ * semitone count such as a MIDI number (61 -> 1, -3 -> 9). Unreadable names give -1
+ * rather than wrapping round to B.
+ */
+export function toPitchClass(value: string | number): number {
+    if (typeof value === 'number') return ((value % 12) + 12) % 12;
+    return getPitchClass(value.replace(/-?\d+$/, ''));
+}
+
+/**
+ * Spell a pitch class on a given letter: (1, 'D') -> 'Db', (7, 'F') -> 'F##'.
+ * Falls back to NOTES when the letter is more than two semitones away.
+ */
+export function spellPitchClass(pitchClass: number, letter: string): string {
+    const letterIndex = LETTERS.indexOf(letter[0]?.toUpperCase());
+    if (letterIndex === -1) return NOTES[((pitchClass % 12) + 12) % 12];
+
+    // Signed distance from the natural letter, wrapped into [-6, 5]
+    const offset = ((pitchClass - LETTER_PITCHES[letterIndex]) % 12 + 18) % 12 - 6;
+    if (Math.abs(offset) > 2) return NOTES[((pitchClass % 12) + 12) % 12];
+
+    const accidental = offset > 0 ? '#'.repeat(offset) : 'b'.repeat(-offset);
+    return `${LETTERS[letterIndex]}${accidental}`;
+}
+
+function letterOf(note: string): number {
+    return LETTERS.indexOf(note[0]?.toUpperCase());
+}
+
+/**
+ * Spell scale notes from a tonic, one letter per degree.
+ * `degrees` gives the letter step of each interval (defaults to 0..n-1 for 7-note scales).
+ */
+export function spellScale(tonic: string, intervals: number[], degrees: number[] = intervals.map((_, i) => i)): string[] {
+    const tonicPc = getPitchClass(tonic);
+    const tonicLetter = letterOf(tonic);
+    if (tonicPc === -1 || tonicLetter === -1) return intervals.map(i => NOTES[(NOTES.indexOf(normalizeNote(tonic)) + i) % 12]);
+
+    return intervals.map((interval, i) =>
+        spellPitchClass(tonicPc + interval, LETTERS[(tonicLetter + degrees[i]) % 7])
+    );
+}
+
+// Letter steps above the root for each chord interval (semitones, compound for 9/11/13)
+const CHORD_INTERVAL_STEPS: Record<number, number> = {
+    0: 0, 1: 1, 2: 1, 3: 2, 4: 2, 5: 3, 6: 4, 7: 4, 8: 4, 9: 5, 10: 6, 11: 6,
+    13: 1, 14: 1, 15: 1, 17: 3, 18: 3, 20: 5, 21: 5,
+};
+
+/**
+ * Spell a chord's tones in root position from its own root: Bbm -> Bb Db F,
+ * Cdim7 -> C Eb Gb Bbb, C7#9 -> C E G Bb D#.
+ */
+export function spellChordNotes(root: string, quality: string): string[] {
+    const formula = getChordFormula(quality) ?? EXTENDED_CHORD_FORMULAS.major;
+
+    // In a diminished seventh the 9-semitone tone is a bb7, not a 6th
+    const isDim7 = formula.includes(9) && formula.includes(6) && !formula.includes(10) && !formula.includes(11);
+
+    return spellScale(root, formula, formula.map(interval =>
+        isDim7 && interval === 9 ? 6 : (CHORD_INTERVAL_STEPS[interval] ?? CHORD_INTERVAL_STEPS[interval % 12])
+    ));
+}
+
+/**
+ * Spelled versions of a chord's notes, in the chord's own (possibly inverted) order.
+ * Non-chord slash basses keep the chord's bassNote spelling.
+ */
+export function spellChordTones(chord: { root: string; quality: string; notes: string[]; bassNote?: string }): string[] {
+    const spelled = spellChordNotes(chord.root, chord.quality);
+    return chord.notes.map(note => {
+        const pitchClass = getPitchClass(note);
+        const match = spelled.find(s => getPitchClass(s) === pitchClass);
+        if (match) return match;
+        if (chord.bassNote && getPitchClass(chord.bassNote) === pitchClass) return chord.bassNote;
+        return note;
+    });
+}
+
+/**
+ * Spell a note in the context of a key center. Scale tones take the scale's spelling;
+ * chromatic tones are the lowered degree above (b3, b6, b7...), except the raised 4th,
+ * the leading tone and, in minor modes, the raised 6th and major 3rd which are sharpened.
+ */
+export function spellNoteInKey(note: string, tonic: string, mode: KeyMode = 'ionian'): string {
+    const pitchClass = getPitchClass(note);
+    if (pitchClass === -1) return note;
+
+    const scale = getKeyScale(tonic, mode);
+    const inScale = scale.find(s => getPitchClass(s) === pitchClass);
+    if (inScale) return inScale;
+
+    const tonicPc = getPitchClass(scale[0]);
+    const relative = (pitchClass - tonicPc + 12) % 12;
+    const isMinorMode = KEY_MODES[mode].intervals[2] === 3;
+    const raised = relative === 6 || relative === 11 || (isMinorMode && (relative === 4 || relative === 9));
+
+    const neighbour = scale.find(s => getPitchClass(s) === (pitchClass + (raised ? 11 : 1)) % 12)
+        ?? scale.find(s => getPitchClass(s) === (pitchClass + (raised ? 1 : 11)) % 12);
+    return neighbour ? spellPitchClass(pitchClass, neighbour[0]) : NOTES[pitchClass];
 }
 
 // Map short variation names to full quality names
@@ -190,6 +303,14 @@ const EXTENDED_CHORD_FORMULAS: Record<string, number[]> = {
     dominant13: [0, 4, 7, 10, 14, 21], // R 3 5 b7 9 13
 };
 
+/**
+ * Interval formula for a quality name, variation string or any parseable suffix
+ */
+function getChordFormula(quality: string): number[] | undefined {
+    const resolvedQuality = QUALITY_ALIASES[quality] || quality;
+    return EXTENDED_CHORD_FORMULAS[resolvedQuality] ?? parseChordSuffix(quality)?.intervals;
+}
+
 export function getChordNotes(root: string, quality: string): string[] {
     const normalizedRoot = normalizeNote(root);
     const rootIndex = NOTES.indexOf(normalizedRoot);
@@ -197,7 +318,7 @@ export function getChordNotes(root: string, quality: string): string[] {
 
     // Resolve quality alias
     const resolvedQuality = QUALITY_ALIASES[quality] || quality;
-    const formula = EXTENDED_CHORD_FORMULAS[resolvedQuality];
+    const formula = getChordFormula(quality);
 
     if (!formula) {
         // Unknown quality - return empty or basic major
@@ -219,8 +340,7 @@ export function getChordNotesWithOctaves(root: string, quality: string, baseOcta
     const rootIndex = NOTES.indexOf(normalizedRoot);
     if (rootIndex === -1) return [];
 
-    const resolvedQuality = QUALITY_ALIASES[quality] || quality;
-    const formula = EXTENDED_CHORD_FORMULAS[resolvedQuality];
+    const formula = getChordFormula(quality);
 
     if (!formula) {
         return [`${normalizedRoot}${baseOctave}`, `${NOTES[(rootIndex + 4) % 12]}${baseOctave}`, `${NOTES[(rootIndex + 7) % 12]}${baseOctave}`];
@@ -294,37 +414,560 @@ export function getChordSymbolWithInversion(root: string, quality: string, notes
     return `${baseSymbol}/${bassNote}`;
 }
 
-export function getMajorScale(root: string): string[] {
-    const pattern = [0, 2, 4, 5, 7, 9, 11];
-    const normalizedRoot = normalizeNote(root);
-    const rootIndex = NOTES.indexOf(normalizedRoot);
+/**
+ * Canonical suffixes that map onto the named chord qualities.
+ * Anything else keeps its canonical suffix as the quality (e.g. 'maj7#11'),
+ * which getChordNotes resolves through parseChordSuffix.
+ */
+const SUFFIX_TO_QUALITY: Record<string, Chord['quality']> = {
+    '': 'major',
+    'm': 'minor',
+    '°': 'diminished',
+    '+': 'augmented',
+    'maj7': 'major7',
+    'm7': 'minor7',
+    '7': 'dominant7',
+    'm7b5': 'halfDiminished7',
+    'sus2': 'sus2',
+    'sus4': 'sus4',
+};
+
+const EXTENSION_INTERVALS: Record<string, number> = {
+    '2': 2, '4': 5, '6': 9, '9': 14, '11': 17, '13': 21,
+};
+
+const ALTERATION_INTERVALS: Record<string, number> = {
+    'b9': 13, '#9': 15, '#11': 18, 'b13': 20, 'b6': 8,
+};
+
+export interface ParsedChordSuffix {
+    suffix: string;       // Canonical suffix, e.g. 'maj7#11', 'm7b5', '6/9'
+    intervals: number[];  // Semitones above the root, ascending
+}
+
+/**
+ * Parse the part of a chord symbol after the root ("maj7#11", "m7b5", "sus4add9",
+ * "6/9", "7alt"...) into a canonical suffix and its interval formula.
+ * Returns null when the suffix isn't recognizable.
+ */
+export function parseChordSuffix(input: string): ParsedChordSuffix | null {
+    let rest = input
+        .replace(/♭/g, 'b')
+        .replace(/♯/g, '#')
+        .replace(/[()\s,]/g, '');
+
+    let third: number | null = 4;
+    let fifth: number | null = 7;
+    let seventh: number | null = null;
+    const extras = new Set<number>();
+    let suffix = '';
+
+    const take = (pattern: RegExp): RegExpMatchArray | null => {
+        const match = rest.match(pattern);
+        if (match) rest = rest.slice(match[0].length);
+        return match;
+    };
+
+    // Extension number (7, 9, 11, 13) implies the seventh plus the stacked tones below it
+    const applyExtension = (num: string, defaultSeventh: number) => {
+        seventh = seventh ?? defaultSeventh;
+        if (num === '9' || num === '11' || num === '13') extras.add(14);
+        if (num === '11') extras.add(17);
+        if (num === '13') extras.add(21);
+    };
 
-    const isFlatKey = ['F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb', 'Cb'].includes(root);
+    // Triad head: minor, diminished, half-diminished or augmented
+    let match: RegExpMatchArray | null;
+    if (!/^(maj|ma(?!j)|M)/.test(rest) && take(/^(min|mi|m|-)/)) {
+        third = 3;
+        suffix += 'm';
+    } else if ((match = take(/^(dim|°|o)(7)?/))) {
+        third = 3;
+        fifth = 6;
+        if (match[2]) seventh = 9;
+        suffix += match[2] ? '°7' : '°';
+    } else if (take(/^ø7?/)) {
+        third = 3;
+        fifth = 6;
+        seventh = 10;
+        suffix += 'm7b5';
+    } else if (take(/^(aug|\+)(?![59])/)) {
+        fifth = 8;
+        suffix += '+';
+    } else if (take(/^5$/)) {
+        third = null;
+        suffix += '5';
+    }
 
-    return pattern.map(interval => {
-        const note = NOTES[(rootIndex + interval) % 12];
-        if (isFlatKey && ENHARMONIC_MAP[note] && note.includes('#')) {
-            return ENHARMONIC_MAP[note];
+    while (rest.length > 0) {
+        if ((match = take(/^(maj|ma|M|Δ)(7|9|11|13)?/))) {
+            // A bare "maj" (Cmaj) is just the major triad; Δ alone means maj7
+            if (!match[2] && match[1] !== 'Δ' && rest.length === 0 && suffix === '') break;
+            seventh = 11;
+            applyExtension(match[2] ?? '7', 11);
+            suffix += `maj${match[2] ?? '7'}`;
+        } else if ((match = take(/^6\/?9/))) {
+            extras.add(9);
+            extras.add(14);
+            suffix += '6/9';
+        } else if ((match = take(/^(add)(b|#)?(2|4|6|9|11|13)/))) {
+            const alteration = match[2] ?? '';
+            const base = EXTENSION_INTERVALS[match[3]];
+            extras.add(base + (alteration === 'b' ? -1 : alteration === '#' ? 1 : 0));
+            suffix += `add${alteration}${match[3]}`;
+        } else if ((match = take(/^sus(2|4)?/))) {
+            third = match[1] === '2' ? 2 : 5;
+            suffix += `sus${match[1] ?? '4'}`;
+        } else if ((match = take(/^(b|#|\+|-)(5|6|9|11|13)/))) {
+            const accidental = match[1] === '+' ? '#' : match[1] === '-' ? 'b' : match[1];
+            const degree = `${accidental}${match[2]}`;
+            if (match[2] === '5') {
+                fifth = accidental === 'b' ? 6 : 8;
+            } else if (ALTERATION_INTERVALS[degree] !== undefined) {
+                extras.add(ALTERATION_INTERVALS[degree]);
+            } else {
+                return null;
+            }
+            suffix += degree;
+        } else if ((match = take(/^(7|9|11|13)/))) {
+            applyExtension(match[1], suffix === '°' ? 9 : 10);
+            suffix += match[1];
+        } else if ((match = take(/^(6|2|4)/))) {
+            if (match[1] === '4') third = 5;
+            else extras.add(EXTENSION_INTERVALS[match[1]]);
+            suffix += match[1];
+        } else if (take(/^alt/)) {
+            // Altered dominant: 3, b7 with b9, #9, #11 and b13 replacing the natural 5th
+            seventh = seventh ?? 10;
+            fifth = null;
+            [13, 15, 18, 20].forEach(i => extras.add(i));
+            suffix += 'alt';
+        } else if ((match = take(/^(no|omit)(3|5)/))) {
+            if (match[2] === '3') third = null;
+            else fifth = null;
+            suffix += `no${match[2]}`;
+        } else if (take(/^\+$/)) {
+            fifth = 8;
+            suffix += '+';
+        } else {
+            return null;
         }
-        if (root === 'F' && note === 'A#') return 'Bb';
-        return note;
-    });
+    }
+
+    const intervals = new Set<number>([0]);
+    if (third !== null) intervals.add(third);
+    if (fifth !== null) intervals.add(fifth);
+    if (seventh !== null) intervals.add(seventh);
+    extras.forEach(i => intervals.add(i));
+
+    return {
+        suffix,
+        intervals: [...intervals].sort((a, b) => a - b)
+    };
+}
+
+/**
+ * Parse any typed chord symbol ("Bbmaj7#11", "F#m7b5/C", "Gsus4add9", "C6/9", "E7alt")
+ * into a fully populated Chord. Slash basses that are chord tones become inversions;
+ * other basses are prepended to the notes. Returns null if the symbol can't be read.
+ *
+ * The returned symbol is canonical, so parseChordSymbol(chord.symbol) round-trips.
+ */
+export function parseChordSymbol(input: string): Chord | null {
+    const text = input.trim().replace(/♭/g, 'b').replace(/♯/g, '#');
+    const rootMatch = text.match(/^([A-Ga-g])([#b]?)/);
+    if (!rootMatch) return null;
+
+    const root = rootMatch[1].toUpperCase() + rootMatch[2];
+    let body = text.slice(rootMatch[0].length);
+
+    // Split off a slash bass, but only when it names a note ("C6/9" is not a slash chord)
+    let bass: string | undefined;
+    const bassMatch = body.match(/\/([A-Ga-g])([#b]?)$/);
+    if (bassMatch) {
+        bass = bassMatch[1].toUpperCase() + bassMatch[2];
+        body = body.slice(0, -bassMatch[0].length);
+    }
+
+    const parsed = parseChordSuffix(body);
+    if (!parsed) return null;
+
+    const rootIndex = NOTES.indexOf(normalizeNote(root));
+    if (rootIndex === -1) return null;
+
+    const rootNotes = parsed.intervals.map(interval => NOTES[(rootIndex + interval) % 12]);
+    const quality = SUFFIX_TO_QUALITY[parsed.suffix] ?? parsed.suffix;
+    const baseSymbol = `${root}${parsed.suffix}`;
+
+    if (!bass) {
+        return { root, quality, notes: rootNotes, symbol: baseSymbol, inversion: 0 };
+    }
+
+    const bassIndex = rootNotes.indexOf(normalizeNote(bass));
+    if (bassIndex === 0) {
+        return { root, quality, notes: rootNotes, symbol: baseSymbol, inversion: 0 };
+    }
+
+    return {
+        root,
+        quality,
+        notes: bassIndex > 0
+            ? invertChord(rootNotes, bassIndex)
+            : [normalizeNote(bass), ...rootNotes],
+        symbol: `${baseSymbol}/${bass}`,
+        inversion: bassIndex > 0 ? bassIndex : 0,
+        bassNote: bass
+    };
+}
+
+/**
+ * Respell a chord symbol's root and slash bass to match the key when they are
+ * scale tones (A#m7 in F -> Bbm7, Ab/C in E -> G#/C). Chromatic roots keep their
+ * spelling; unparseable symbols are returned as-is.
+ */
+export function spellChordSymbolInKey(symbol: string, tonic: string, mode: KeyMode = 'ionian'): string {
+    const chord = parseChordSymbol(symbol);
+    if (!chord) return symbol;
+
+    const scale = getKeyScale(tonic, mode);
+    const respell = (note: string) => scale.find(s => getPitchClass(s) === getPitchClass(note)) ?? note;
+
+    const [baseSymbol, bass] = chord.symbol.split(/\/(?=[A-G][#b]?$)/);
+    const suffix = baseSymbol.slice(chord.root.length);
+    return `${respell(chord.root)}${suffix}${bass ? `/${respell(bass)}` : ''}`;
+}
+
+export function getMajorScale(root: string): string[] {
+    return spellScale(root, [0, 2, 4, 5, 7, 9, 11]);
+}
+
+/**
+ * Key centers: a tonic plus one of these modes. The wheel is laid out around
+ * major keys, so every mode is anchored to a "parent" major position
+ * (A aeolian and D dorian both sit on C).
+ */
+export type KeyMode =
+    | 'ionian'
+    | 'dorian'
+    | 'phrygian'
+    | 'lydian'
+    | 'mixolydian'
+    | 'aeolian'
+    | 'locrian'
+    | 'harmonicMinor'
+    | 'melodicMinor';
+
+export interface KeyModeInfo {
+    name: string;
+    intervals: number[];   // Scale steps from the tonic in semitones
+    parentOffset: number;  // Semitones from the parent major tonic up to this tonic
+}
+
+export const KEY_MODES: Record<KeyMode, KeyModeInfo> = {
+    ionian: { name: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11], parentOffset: 0 },
+    dorian: { name: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10], parentOffset: 2 },
+    phrygian: { name: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10], parentOffset: 4 },
+    lydian: { name: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11], parentOffset: 5 },
+    mixolydian: { name: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10], parentOffset: 7 },
+    aeolian: { name: 'Minor', intervals: [0, 2, 3, 5, 7, 8, 10], parentOffset: 9 },
+    locrian: { name: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10], parentOffset: 11 },
+    // Harmonic/melodic minor aren't modes of major; anchor them on the relative major
+    harmonicMinor: { name: 'Harmonic Minor', intervals: [0, 2, 3, 5, 7, 8, 11], parentOffset: 9 },
+    melodicMinor: { name: 'Melodic Minor', intervals: [0, 2, 3, 5, 7, 9, 11], parentOffset: 9 },
+};
+
+/**
+ * Get the wheel (major) key that a tonic + mode is built on.
+ * e.g. ('A', 'aeolian') -> 'C', ('D', 'dorian') -> 'C', ('E', 'harmonicMinor') -> 'G'
+ */
+export function getParentMajorKey(tonic: string, mode: KeyMode = 'ionian'): string {
+    const tonicIndex = NOTES.indexOf(normalizeNote(tonic));
+    if (tonicIndex === -1) return tonic;
+
+    const parentIndex = (tonicIndex - KEY_MODES[mode].parentOffset + 12) % 12;
+    return CIRCLE_OF_FIFTHS.find(key => normalizeNote(key) === NOTES[parentIndex]) ?? tonic;
+}
+
+/**
+ * Inverse of getParentMajorKey: the tonic of `mode` when the wheel sits on `parentKey`.
+ * e.g. ('C', 'aeolian') -> 'A', ('Bb', 'dorian') -> 'C'
+ */
+export function getTonicForParentKey(parentKey: string, mode: KeyMode = 'ionian'): string {
+    const degree = KEY_MODES.ionian.intervals.indexOf(KEY_MODES[mode].parentOffset);
+    return getMajorScale(parentKey)[degree] ?? parentKey;
+}
+
+const countAccidentals = (scale: string[]) => scale.reduce((count, note) => count + note.length - 1, 0);
+
+/**
+ * Spell a tonic the way the wheel spells that key center, whatever spelling is passed
+ * in, unless the enharmonic key reads with fewer accidentals.
+ * e.g. ('A#', 'aeolian') -> 'Bb', ('Gb', 'ionian') -> 'F#', ('D#', 'dorian') -> 'Eb', ('Ab', 'aeolian') -> 'G#'
+ */
+export function spellKeyTonic(note: string, mode: KeyMode = 'ionian'): string {
+    const pitchClass = getPitchClass(note);
+    const tonic = CIRCLE_OF_FIFTHS.find(key => getPitchClass(key) % 12 === (pitchClass % 12 + 12) % 12);
+    if (!tonic) return note;
+
+    const enharmonic = getTonicForParentKey(getParentMajorKey(tonic, mode), mode);
+    return countAccidentals(getKeyScale(enharmonic, mode)) < countAccidentals(getKeyScale(tonic, mode))
+        ? enharmonic
+        : tonic;
+}
+
+/**
+ * Get the seven scale notes for a tonic + mode, one letter per degree from the
+ * tonic's own letter (Eb minor -> Eb F Gb Ab Bb Cb Db)
+ */
+export function getKeyScale(tonic: string, mode: KeyMode = 'ionian'): string[] {
+    return spellScale(tonic, KEY_MODES[mode].intervals);
 }
 
-export function getDiatonicChords(key: string): Chord[] {
-    const scale = getMajorScale(key);
-    const qualities: Chord['quality'][] = ['major', 'minor', 'minor', 'major', 'major', 'minor', 'diminished'];
-    const numerals = ['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'];
+/**
+ * Display name for a key center: 'C', 'Am', 'D Dorian', 'A Harmonic Minor'
+ */
+export function getKeyDisplayName(tonic: string, mode: KeyMode = 'ionian'): string {
+    if (mode === 'ionian') return tonic;
+    if (mode === 'aeolian') return `${tonic}m`;
+    return `${tonic} ${KEY_MODES[mode].name}`;
+}
+
+const DEGREE_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+const isMinorQuality = (quality: string) =>
+    quality === 'minor' || quality.startsWith('minor') || (quality.startsWith('m') && !quality.startsWith('maj'));
+
+const isDiminishedQuality = (quality: string) =>
+    quality.includes('dim') || quality.includes('half') || quality.startsWith('°') || quality.includes('m7b5');
+
+/**
+ * Roman numeral for a chord relative to a tonic + mode. The degree comes from the
+ * letter the root takes in the key and the accidental from the major scale on that
+ * degree (so A minor reads i, ii°, bIII, iv, v, bVI, bVII, and F in B locrian is bV).
+ * Case follows the chord's third; ° marks diminished and + augmented triads.
+ */
+export function getChordNumeral(root: string, quality: string, tonic: string, mode: KeyMode = 'ionian'): string {
+    const rootPc = getPitchClass(root);
+    const tonicPc = getPitchClass(tonic);
+    if (rootPc === -1 || tonicPc === -1) return '';
+
+    const degree = (letterOf(spellNoteInKey(root, tonic, mode)) - letterOf(tonic) + 7) % 7;
+    // Signed distance from the major-scale degree, wrapped into [-6, 5]
+    const offset = ((rootPc - tonicPc - KEY_MODES.ionian.intervals[degree]) % 12 + 18) % 12 - 6;
+    const numeral = `${offset > 0 ? '#'.repeat(offset) : 'b'.repeat(-offset)}${DEGREE_NUMERALS[degree]}`;
+
+    if (isDiminishedQuality(quality)) return `${numeral.toLowerCase()}°`;
+    if (isMinorQuality(quality)) return numeral.toLowerCase();
+    if (quality === 'augmented' || quality.startsWith('+')) return `${numeral}+`;
+    return numeral;
+}
+
+export function getDiatonicChords(key: string, mode: KeyMode = 'ionian'): Chord[] {
+    const scale = getKeyScale(key, mode);
+    const intervals = KEY_MODES[mode].intervals;
+
+    // Stack thirds on each degree and read the triad quality off the scale steps
+    const qualities: Chord['quality'][] = intervals.map((step, i) => {
+        const third = (intervals[(i + 2) % 7] - step + 12) % 12;
+        const fifth = (intervals[(i + 4) % 7] - step + 12) % 12;
+        if (third === 3) return fifth === 6 ? 'diminished' : 'minor';
+        return fifth === 8 ? 'augmented' : 'major';
+    });
 
     return scale.map((note, i) => ({
         root: note,
         quality: qualities[i],
-        numeral: numerals[i],
+        numeral: getChordNumeral(note, qualities[i], key, mode),
         notes: getChordNotes(note, qualities[i]),
         symbol: `${note}${CHORD_SYMBOLS[qualities[i]]}`
     }));
 }
 
+/**
+ * SCALE LIBRARY
+ *
+ * Every scale the app knows, as steps from its tonic. The modes of major, melodic minor
+ * and harmonic minor are rotations of their parent scale; the rest stand alone. The key
+ * modes keep their KEY_MODES ids and steps, so a key center can be looked up here as a scale.
+ */
+export type ScaleFamily = 'major' | 'melodicMinor' | 'harmonicMinor' | 'pentatonic' | 'blues' | 'symmetric';
+
+export type ScaleId =
+    // Modes of major
+    | 'ionian' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'aeolian' | 'locrian'
+    // Modes of melodic minor
+    | 'melodicMinor' | 'dorianFlat2' | 'lydianAugmented' | 'lydianDominant' | 'mixolydianFlat6' | 'locrianNatural2' | 'altered'
+    // Modes of harmonic minor
+    | 'harmonicMinor' | 'locrianNatural6' | 'ionianAugmented' | 'dorianSharp4' | 'phrygianDominant' | 'lydianSharp2' | 'alteredDiminished'
+    | 'majorPentatonic' | 'minorPentatonic'
+    | 'blues' | 'majorBlues'
+    | 'wholeTone' | 'diminishedHalfWhole' | 'diminishedWholeHalf';
+
+export interface ScaleInfo {
+    name: string;
+    family: ScaleFamily;
+    intervals: number[];  // Scale steps from the tonic in semitones
+    degrees?: number[];   // Letter step of each note, for scales that aren't one letter per note
+}
+
+export const SCALE_FAMILY_NAMES: Record<ScaleFamily, string> = {
+    major: 'Major Modes',
+    melodicMinor: 'Melodic Minor Modes',
+    harmonicMinor: 'Harmonic Minor Modes',
+    pentatonic: 'Pentatonic',
+    blues: 'Blues',
+    symmetric: 'Symmetric',
+};
+
+// The scale built on degree `degree` of `parent`, as steps from its own tonic
+const rotateScale = (parent: number[], degree: number) =>
+    parent.map((_, i) => (parent[(degree + i) % parent.length] - parent[degree] + 12) % 12);
+
+export const SCALES: Record<ScaleId, ScaleInfo> = {
+    ionian: { name: 'Major', family: 'major', intervals: KEY_MODES.ionian.intervals },
+    dorian: { name: 'Dorian', family: 'major', intervals: KEY_MODES.dorian.intervals },
+    phrygian: { name: 'Phrygian', family: 'major', intervals: KEY_MODES.phrygian.intervals },
+    lydian: { name: 'Lydian', family: 'major', intervals: KEY_MODES.lydian.intervals },
+    mixolydian: { name: 'Mixolydian', family: 'major', intervals: KEY_MODES.mixolydian.intervals },
+    aeolian: { name: 'Minor', family: 'major', intervals: KEY_MODES.aeolian.intervals },
+    locrian: { name: 'Locrian', family: 'major', intervals: KEY_MODES.locrian.intervals },
+
+    melodicMinor: { name: 'Melodic Minor', family: 'melodicMinor', intervals: KEY_MODES.melodicMinor.intervals },
+    dorianFlat2: { name: 'Dorian ♭2', family: 'melodicMinor', intervals: rotateScale(KEY_MODES.melodicMinor.intervals, 1) },
+    lydianAugmented: { name: 'Lydian Augmented', family: 'melodicMinor', intervals: rotateScale(KEY_MODES.melodicMinor.intervals, 2) },
+    lydianDominant: { name: 'Lydian Dominant', family: 'melodicMinor', intervals: rotateScale(KEY_MODES.melodicMinor.intervals, 3) },
+    mixolydianFlat6: { name: 'Mixolydian ♭6', family: 'melodicMinor', intervals: rotateScale(KEY_MODES.melodicMinor.intervals, 4) },
+    locrianNatural2: { name: 'Locrian ♮2', family: 'melodicMinor', intervals: rotateScale(KEY_MODES.melodicMinor.intervals, 5) },
+    altered: { name: 'Altered', family: 'melodicMinor', intervals: rotateScale(KEY_MODES.melodicMinor.intervals, 6) },
+
+    harmonicMinor: { name: 'Harmonic Minor', family: 'harmonicMinor', intervals: KEY_MODES.harmonicMinor.intervals },
+    locrianNatural6: { name: 'Locrian ♮6', family: 'harmonicMinor', intervals: rotateScale(KEY_MODES.harmonicMinor.intervals, 1) },
+    ionianAugmented: { name: 'Ionian Augmented', family: 'harmonicMinor', intervals: rotateScale(KEY_MODES.harmonicMinor.intervals, 2) },
+    dorianSharp4: { name: 'Dorian ♯4', family: 'harmonicMinor', intervals: rotateScale(KEY_MODES.harmonicMinor.intervals, 3) },
+    phrygianDominant: { name: 'Phrygian Dominant', family: 'harmonicMinor', intervals: rotateScale(KEY_MODES.harmonicMinor.intervals, 4) },
+    lydianSharp2: { name: 'Lydian ♯2', family: 'harmonicMinor', intervals: rotateScale(KEY_MODES.harmonicMinor.intervals, 5) },
+    alteredDiminished: { name: 'Altered Diminished', family: 'harmonicMinor', intervals: rotateScale(KEY_MODES.harmonicMinor.intervals, 6) },
+
+    majorPentatonic: { name: 'Major Pentatonic', family: 'pentatonic', intervals: [0, 2, 4, 7, 9], degrees: [0, 1, 2, 4, 5] },
+    minorPentatonic: { name: 'Minor Pentatonic', family: 'pentatonic', intervals: [0, 3, 5, 7, 10], degrees: [0, 2, 3, 4, 6] },
+
+    blues: { name: 'Blues', family: 'blues', intervals: [0, 3, 5, 6, 7, 10], degrees: [0, 2, 3, 4, 4, 6] },
+    majorBlues: { name: 'Major Blues', family: 'blues', intervals: [0, 2, 3, 4, 7, 9], degrees: [0, 1, 2, 2, 4, 5] },
+
+    wholeTone: { name: 'Whole Tone', family: 'symmetric', intervals: [0, 2, 4, 6, 8, 10], degrees: [0, 1, 2, 3, 4, 5] },
+    diminishedHalfWhole: { name: 'Diminished (H-W)', family: 'symmetric', intervals: [0, 1, 3, 4, 6, 7, 9, 10], degrees: [0, 1, 2, 2, 3, 4, 5, 6] },
+    diminishedWholeHalf: { name: 'Diminished (W-H)', family: 'symmetric', intervals: [0, 2, 3, 5, 6, 8, 9, 11], degrees: [0, 1, 2, 3, 4, 5, 5, 6] },
+};
+
+/**
+ * A scale shown over the wheel: its tonic and which scale
+ */
+export interface ScaleOverlay {
+    tonic: string;
+    scale: ScaleId;
+}
+
+/**
+ * Spelled notes of a scale from a tonic: ('E', 'phrygianDominant') -> E F G# A B C D
+ */
+export function getScaleNotes(tonic: string, scale: ScaleId): string[] {
+    const { intervals, degrees } = SCALES[scale];
+    return spellScale(tonic, intervals, degrees);
+}
+
+/**
+ * Pitch classes (0-11) of a scale from a tonic
+ */
+export function getScalePitchClasses(tonic: string, scale: ScaleId): number[] {
+    const tonicPc = getPitchClass(tonic);
+    if (tonicPc === -1) return [];
+    return SCALES[scale].intervals.map(interval => (tonicPc + interval) % 12);
+}
+
+// Scales that are also key modes, so chords in them can be numbered in that mode
+const isKeyMode = (scale: ScaleId): scale is KeyMode => scale in KEY_MODES;
+
+/**
+ * Whether every tone of a chord is in the scale. In scales with one letter per note
+ * the chord is stacked in thirds on the scale's letters and every spelled tone must be
+ * a scale note, so Ab never stands in for G# (no Fm or E+ in A harmonic minor). The
+ * other scales aren't stacks of thirds and are matched by pitch class.
+ */
+export function isChordInScale(root: string, quality: string, tonic: string, scale: ScaleId): boolean {
+    if (!getChordFormula(quality)) return false;
+
+    if (SCALES[scale].degrees) {
+        const scalePcs = getScalePitchClasses(tonic, scale);
+        return getChordNotes(root, quality).every(note => scalePcs.includes(getPitchClass(note)));
+    }
+
+    const scaleNotes = getScaleNotes(tonic, scale);
+    const scaleRoot = scaleNotes.find(note => getPitchClass(note) === getPitchClass(root));
+    return !!scaleRoot && spellChordNotes(scaleRoot, quality).every(note => scaleNotes.includes(note));
+}
+
+/**
+ * Chords of the given qualities built on each scale note and made only of scale
+ * tones, in scale order. Scales that aren't stacks of thirds (pentatonics, whole
+ * tone, diminished) can have several chords on a degree, or none. Numerals are
+ * read in the scale's own mode when it is a key mode.
+ */
+export function getScaleChords(
+    tonic: string,
+    scale: ScaleId,
+    qualities: Chord['quality'][] = ['major', 'minor', 'diminished', 'augmented']
+): Chord[] {
+    const mode = isKeyMode(scale) ? scale : 'ionian';
+    return getScaleNotes(tonic, scale).flatMap(note =>
+        qualities
+            .filter(quality => isChordInScale(note, quality, tonic, scale))
+            .map(quality => ({
+                root: note,
+                quality,
+                numeral: getChordNumeral(note, quality, tonic, mode),
+                notes: getChordNotes(note, quality),
+                symbol: `${note}${getQualitySymbol(quality)}`
+            }))
+    );
+}
+
+/**
+ * A scale to play over a chord, from the chord's root: read off the chord's third,
+ * fifth, seventh and altered tensions, so Cmaj7 -> ionian, C7 -> mixolydian,
+ * C7b9 -> diminished (H-W), C7#9 / C7alt -> altered, Cm7 -> dorian, Cm7b5 -> locrian,
+ * Cdim7 -> diminished (W-H), C+ -> whole tone
+ */
+export function getChordScale(quality: string): ScaleId {
+    // Tensions stay above the octave, so a #9 (15) isn't mistaken for a minor third (3)
+    const formula = getChordFormula(quality) ?? EXTENDED_CHORD_FORMULAS.major;
+    const has = (interval: number) => formula.includes(interval);
+    const isAugmented = has(8) && !has(7);
+
+    if (has(4)) {
+        if (has(10)) {
+            if (has(13) && !has(15) && !has(20)) return 'diminishedHalfWhole';
+            if (has(13) || has(15) || has(20)) return 'altered';
+            if (isAugmented) return 'wholeTone';
+            return has(18) ? 'lydianDominant' : 'mixolydian';
+        }
+        if (isAugmented) return has(11) ? 'lydianAugmented' : 'wholeTone';
+        return has(18) ? 'lydian' : 'ionian';
+    }
+    if (has(3)) {
+        if (has(6)) return has(9) && !has(10) ? 'diminishedWholeHalf' : 'locrian';
+        return has(11) ? 'melodicMinor' : has(10) || has(9) ? 'dorian' : 'aeolian';
+    }
+    if (has(10)) return 'mixolydian';
+    return 'ionian';
+}
+
+/**
+ * Display name for a scale on a tonic: 'C Lydian', 'A Harmonic Minor', 'E Blues'
+ */
+export function getScaleDisplayName(tonic: string, scale: ScaleId): string {
+    return `${tonic} ${SCALES[scale].name}`;
+}
+
 export function getKeySignature(key: string): { sharps: number; flats: number } {
     const sharpKeys = ['G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
     const flatKeys = ['F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb', 'Cb'];
@@ -366,37 +1009,25 @@ export function getWheelColors() {
 
 /**
  * Get the interval numeral of a note relative to a key center
- * e.g. In C major: E -> '3', G -> '5', Bb -> 'b7'
+ * e.g. In C major: E -> '3', G -> '5', Bb -> '♭7', F# -> '♯4', Gb -> '♯4'
+ * The note is re-spelled in the key first (see spellNoteInKey), so the interval
+ * number never depends on how the note or tonic happens to be spelled: A# in Bb is '1'.
  */
 export function getIntervalFromKey(keyRoot: string, note: string): string {
-    const normalizedKey = normalizeNote(keyRoot);
-    const normalizedNote = normalizeNote(note);
-
-    const keyIndex = NOTES.indexOf(normalizedKey);
-    const noteIndex = NOTES.indexOf(normalizedNote);
-
-    if (keyIndex === -1 || noteIndex === -1) return '?';
-
-    let semitones = (noteIndex - keyIndex + 12) % 12;
-
-    const intervals: Record<number, string> = {
-        0: '1',
-        1: '♭2',
-        2: '2',
-        3: '♭3',
-        4: '3',
-        5: '4',
-        6: '♭5', // or #4
-        7: '5',
-        8: '♭6', // or #5
-        9: '6',
-        10: '♭7',
-        11: '7'
-    };
+    const keyPc = getPitchClass(keyRoot);
+    const notePc = getPitchClass(note);
+
+    if (keyPc === -1 || notePc === -1) return '?';
+
+    const degree = (letterOf(spellNoteInKey(note, keyRoot)) - letterOf(keyRoot) + 7) % 7;
+    const semitones = (notePc - keyPc + 12) % 12;
+
+    // Distance from the major-scale degree on that letter, wrapped into [-6, 5]
+    const offset = ((semitones - LETTER_PITCHES[degree]) % 12 + 18) % 12 - 6;
+    if (Math.abs(offset) > 2) return '?';
 
-    // Context-aware enharmonics could be improved here based on scale, 
-    // but for now simple mapping covers most cases
-    return intervals[semitones] || '?';
+    const accidental = offset > 0 ? '♯'.repeat(offset) : '♭'.repeat(-offset);
+    return `${accidental}${degree + 1}`;
 }
 
 /**
@@ -416,6 +1047,8 @@ export function formatChordForDisplay(text: string): string {
     if (!text) return text;
     // Replace 'b' that comes after a letter A-G or in a roman numeral (indicates flat)
     let formatted = text.replace(/([A-G]|[iIvV])b/g, '$1♭');
+    // Flat prefix on a roman numeral (bVII, bIII)
+    formatted = formatted.replace(/(^|[^A-Za-z])b(?=[iIvV])/g, '$1♭');
     // Replace '#' with unicode sharp
     formatted = formatted.replace(/#/g, '♯');
     return formatted;
@@ -0,0 +1,170 @@
+/**
+ * Rhythm Patterns
+ *
+ * Turns one chord slot into the notes a player would actually hit: strums with a
+ * small per-string delay, piano comping, offbeat skanks, arpeggios or straight
+ * eighth pulses. Patterns work on voiced notes (with octaves, lowest first) and
+ * return note events in beats from the slot start, so live playback, audio export
+ * and MIDI export all render the same performance.
+ */
+
+import { getMeterPulse } from './metronome';
+
+export type RhythmPatternId =
+    | 'block'
+    | 'strum-down'
+    | 'strum-down-up'
+    | 'piano-comp'
+    | 'reggae-skank'
+    | 'arpeggio'
+    | 'pulse-eighths';
+
+export interface RhythmNoteEvent {
+    note: string;       // Voiced note with octave, e.g. "E4"
+    startBeat: number;  // Beats from the slot start
+    durationBeats: number;
+    velocity: number;   // 0-1
+}
+
+export const RHYTHM_PATTERNS: { value: RhythmPatternId; label: string; description: string }[] = [
+    { value: 'block', label: 'Block', description: 'Whole chord held for the slot' },
+    { value: 'strum-down', label: 'Strum Down', description: 'Down strum on every beat' },
+    { value: 'strum-down-up', label: 'Strum Down/Up', description: 'Alternating eighth-note strums' },
+    { value: 'piano-comp', label: 'Piano Comp', description: 'Held bass with Charleston chord stabs' },
+    { value: 'reggae-skank', label: 'Reggae Skank', description: 'Short chord stabs on the offbeats' },
+    { value: 'arpeggio', label: 'Arpeggio', description: 'Chord tones one at a time in eighths' },
+    { value: 'pulse-eighths', label: 'Pulse 8ths', description: 'Whole chord on every eighth' },
+];
+
+// Seconds between strings in a strum; up strums are lighter and quicker
+const DOWN_STRUM_DELAY = 0.012;
+const UP_STRUM_DELAY = 0.008;
+
+// Up strums and stabs only catch the top strings/notes of the voicing
+const UPPER_NOTE_COUNT = 3;
+
+// Allow for floating point drift when stepping through a slot
+const EPSILON = 1e-6;
+
+export function getRhythmPatternLabel(pattern: RhythmPatternId): string {
+    return RHYTHM_PATTERNS.find(p => p.value === pattern)?.label ?? pattern;
+}
+
+/**
+ * Start offsets of a repeating step inside a slot
+ */
+function getSteps(durationBeats: number, step: number): number[] {
+    const steps: number[] = [];
+    for (let beat = 0; beat < durationBeats - EPSILON; beat += step) {
+        steps.push(beat);
+    }
+    return steps;
+}
+
+/**
+ * Hit several notes together, or staggered like a strum when `spreadBeats` is set.
+ * Strummed notes all stop together at the end of the hit.
+ */
+function hit(notes: string[], startBeat: number, durationBeats: number, velocity: number, spreadBeats: number = 0): RhythmNoteEvent[] {
+    return notes.map((note, i) => {
+        const offset = Math.min(i * spreadBeats, durationBeats / 2);
+        return { note, startBeat: startBeat + offset, durationBeats: durationBeats - offset, velocity };
+    });
+}
+
+/**
+ * Render a chord slot with a rhythm pattern.
+ *
+ * @param voicedNotes   Notes with octaves, lowest first
+ * @param durationBeats Slot length in quarter-note beats
+ * @param pattern       Rhythm pattern to play
+ * @param options       Meter of the section (strums follow the felt beat, so 6/8 strums
+ *                      dotted quarters) and seconds per beat (to turn strum delays into beats)
+ */
+export function renderRhythmPattern(
+    voicedNotes: string[],
+    durationBeats: number,
+    pattern: RhythmPatternId,
+    options: { timeSignature?: [number, number]; secondsPerBeat?: number } = {}
+): RhythmNoteEvent[] {
+    if (voicedNotes.length === 0 || durationBeats <= 0) return [];
+
+    const { timeSignature = [4, 4], secondsPerBeat = 0.5 } = options;
+    const { beatLength } = getMeterPulse(timeSignature);
+    const downSpread = DOWN_STRUM_DELAY / secondsPerBeat;
+    const upSpread = UP_STRUM_DELAY / secondsPerBeat;
+    const upperNotes = voicedNotes.slice(-UPPER_NOTE_COUNT);
+    const bass = voicedNotes[0];
+    const clip = (start: number, length: number) => Math.min(length, durationBeats - start);
+
+    let events: RhythmNoteEvent[] = [];
+
+    switch (pattern) {
+        case 'strum-down':
+            events = getSteps(durationBeats, beatLength).flatMap((start, i) =>
+                hit(voicedNotes, start, clip(start, beatLength), i === 0 ? 0.85 : 0.7, downSpread)
+            );
+            break;
+
+        case 'strum-down-up':
+            // Eighths: down on the beat, up (high to low, top strings) in between
+            events = getSteps(durationBeats, 0.5).flatMap(start => {
+                const isDown = Math.abs((start % beatLength) % 1) < EPSILON;
+                return isDown
+                    ? hit(voicedNotes, start, clip(start, 0.5), start === 0 ? 0.85 : 0.7, downSpread)
+                    : hit([...upperNotes].reverse(), start, clip(start, 0.5), 0.5, upSpread);
+            });
+            break;
+
+        case 'piano-comp':
+            // Left hand holds the bass; right hand plays a Charleston figure every two beats
+            events = [
+                { note: bass, startBeat: 0, durationBeats, velocity: 0.75 },
+                ...getSteps(durationBeats, 2).flatMap(start => [
+                    ...hit(voicedNotes.slice(1), start, clip(start, 1), 0.7),
+                    ...(start + 1.5 < durationBeats - EPSILON
+                        ? hit(voicedNotes.slice(1), start + 1.5, clip(start + 1.5, 0.5), 0.55)
+                        : []),
+                ]),
+            ];
+            break;
+
+        case 'reggae-skank':
+            events = getSteps(durationBeats, 1)
+                .map(start => start + 0.5)
+                .filter(start => start < durationBeats - EPSILON)
+                .flatMap(start => hit(upperNotes, start, clip(start, 0.25), 0.7));
+            break;
+
+        case 'arpeggio': {
+            // Up through the voicing and back down, without repeating the top and bottom notes
+            const cycle = voicedNotes.length > 2
+                ? [...voicedNotes, ...voicedNotes.slice(1, -1).reverse()]
+                : voicedNotes;
+            events = getSteps(durationBeats, 0.5).map((start, i) => ({
+                note: cycle[i % cycle.length],
+                startBeat: start,
+                durationBeats: clip(start, 0.5),
+                velocity: i === 0 ? 0.8 : 0.65
+            }));
+            break;
+        }
+
+        case 'pulse-eighths':
+            events = getSteps(durationBeats, 0.5).flatMap(start => {
+                const onBeat = Math.abs(start % 1) < EPSILON;
+                return hit(voicedNotes, start, clip(start, 0.45), onBeat ? 0.75 : 0.55);
+            });
+            break;
+
+        default:
+            break;
+    }
+
+    // Block chords, and slots too short for the pattern to land a hit
+    if (events.length === 0) {
+        events = hit(voicedNotes, 0, durationBeats, 1);
+    }
+
+    return events;
+}
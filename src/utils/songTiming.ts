@@ -0,0 +1,176 @@
+/**
+ * Song Timing
+ *
+ * One position model for the whole song: every section, measure and slot with its
+ * start and length in beats and in seconds. Beats are quarter notes (the unit of
+ * ChordSlot.duration), so a 6/8 bar is 3 beats and a 7/8 bar is 3.5. Seconds follow
+ * each section's tempo.
+ *
+ * Scheduling, seeking, looping, the playhead and exports all read positions from
+ * here rather than re-deriving them from bars and a 4/4 grid.
+ */
+
+import { getSectionTempo, type ChordSlot, type Section, type Song } from '../types';
+
+export interface TimingSpan {
+    startBeat: number;
+    durationBeats: number;
+    startSeconds: number;
+    durationSeconds: number;
+}
+
+export interface SlotTiming extends TimingSpan {
+    slot: ChordSlot;
+    sectionId: string;
+    measureId: string;
+    sectionIndex: number;
+    measureIndex: number;   // Index within the section
+    slotIndex: number;      // Index within the measure
+}
+
+export interface MeasureTiming extends TimingSpan {
+    measureId: string;
+    index: number;
+    slots: SlotTiming[];
+}
+
+export interface SectionTiming extends TimingSpan {
+    section: Section;
+    index: number;
+    tempo: number;
+    timeSignature: [number, number];
+    measures: MeasureTiming[];
+}
+
+export interface SongTiming {
+    sections: SectionTiming[];
+    slots: SlotTiming[];        // Every slot in playback order
+    totalBeats: number;
+    totalSeconds: number;
+}
+
+/**
+ * Lay out a song on the timeline.
+ * `tempo` is the song tempo to use (the live transport tempo may differ from song.tempo);
+ * sections with their own tempo keep it.
+ */
+export function buildSongTiming(song: Song, tempo: number = song.tempo): SongTiming {
+    const sections: SectionTiming[] = [];
+    const slots: SlotTiming[] = [];
+    let beat = 0;
+    let seconds = 0;
+
+    song.sections.forEach((section, sectionIndex) => {
+        const sectionTempo = getSectionTempo(section, tempo);
+        const secondsPerBeat = 60 / sectionTempo;
+        const sectionStartBeat = beat;
+        const sectionStartSeconds = seconds;
+
+        const measures = section.measures.map((measure, measureIndex): MeasureTiming => {
+            const measureStartBeat = beat;
+            const measureStartSeconds = seconds;
+
+            const measureSlots = measure.beats.map((slot, slotIndex): SlotTiming => {
+                const durationBeats = slot.duration || 1;
+                const timing: SlotTiming = {
+                    slot,
+                    sectionId: section.id,
+                    measureId: measure.id,
+                    sectionIndex,
+                    measureIndex,
+                    slotIndex,
+                    startBeat: beat,
+                    durationBeats,
+                    startSeconds: seconds,
+                    durationSeconds: durationBeats * secondsPerBeat
+                };
+                beat += durationBeats;
+                seconds += timing.durationSeconds;
+                return timing;
+            });
+            slots.push(...measureSlots);
+
+            return {
+                measureId: measure.id,
+                index: measureIndex,
+                slots: measureSlots,
+                startBeat: measureStartBeat,
+                durationBeats: beat - measureStartBeat,
+                startSeconds: measureStartSeconds,
+                durationSeconds: seconds - measureStartSeconds
+            };
+        });
+
+        sections.push({
+            section,
+            index: sectionIndex,
+            tempo: sectionTempo,
+            timeSignature: section.timeSignature ?? song.timeSignature,
+            measures,
+            startBeat: sectionStartBeat,
+            durationBeats: beat - sectionStartBeat,
+            startSeconds: sectionStartSeconds,
+            durationSeconds: seconds - sectionStartSeconds
+        });
+    });
+
+    return { sections, slots, totalBeats: beat, totalSeconds: seconds };
+}
+
+export function getSectionTiming(timing: SongTiming, sectionId: string): SectionTiming | undefined {
+    return timing.sections.find(s => s.section.id === sectionId);
+}
+
+export function getSlotTiming(timing: SongTiming, slotId: string): SlotTiming | undefined {
+    return timing.slots.find(s => s.slot.id === slotId);
+}
+
+/**
+ * The slot sounding at a time in seconds, or undefined past the end of the song
+ */
+export function getSlotAtSeconds(timing: SongTiming, seconds: number): SlotTiming | undefined {
+    return timing.slots.find(s => seconds >= s.startSeconds && seconds < s.startSeconds + s.durationSeconds);
+}
+
+/**
+ * Where to start so a slot gets a lead-in of `bars` bars before it (clamped to the song start)
+ */
+export function getPreRollStart(timing: SongTiming, slot: SlotTiming, bars: number = 1): number {
+    const measures = timing.sections.flatMap(s => s.measures);
+    const measureIndex = measures.findIndex(m => m.measureId === slot.measureId);
+    const leadIn = measures
+        .slice(Math.max(0, measureIndex - bars), Math.max(0, measureIndex))
+        .reduce((acc, m) => acc + m.durationSeconds, 0);
+
+    // Mid-bar slots also hear the start of their own bar
+    const measure = measures[measureIndex];
+    const intoBar = measure ? slot.startSeconds - measure.startSeconds : 0;
+    return Math.max(0, slot.startSeconds - intoBar - leadIn);
+}
+
+/**
+ * Convert a song position in beats to seconds, honoring per-section tempo
+ */
+export function beatsToSeconds(timing: SongTiming, beats: number): number {
+    const section = timing.sections.find(s => beats < s.startBeat + s.durationBeats) ?? timing.sections[timing.sections.length - 1];
+    if (!section) return 0;
+    return section.startSeconds + (beats - section.startBeat) * (60 / section.tempo);
+}
+
+/**
+ * Convert a song position in seconds to beats, honoring per-section tempo
+ */
+export function secondsToBeats(timing: SongTiming, seconds: number): number {
+    const section = timing.sections.find(s => seconds < s.startSeconds + s.durationSeconds) ?? timing.sections[timing.sections.length - 1];
+    if (!section) return 0;
+    return section.startBeat + (seconds - section.startSeconds) * (section.tempo / 60);
+}
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatDuration(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,64 @@
+/**
+ * Synth Voices
+ *
+ * Synthesized (sample-free) instrument voices that can be created on demand in any
+ * audio context: the offline export render, and extra live instances for mixer tracks
+ * that need their own copy of an instrument.
+ */
+
+import * as Tone from 'tone';
+import type { InstrumentType } from '../types';
+
+/**
+ * Create a PolySynth for instruments that don't use samplers
+ */
+export const createSynthVoice = (instrumentType: InstrumentType, destination: Tone.ToneAudioNode): Tone.PolySynth => {
+    let synth: Tone.PolySynth;
+
+    switch (instrumentType) {
+        case 'organ':
+            synth = new Tone.PolySynth(Tone.AMSynth, {
+                harmonicity: 3,
+                oscillator: { type: 'sine' },
+                envelope: { attack: 0.01, decay: 0.01, sustain: 1, release: 0.5 },
+                modulation: { type: 'square' },
+                modulationEnvelope: { attack: 0.5, decay: 0, sustain: 1, release: 0.5 },
+            });
+            break;
+        case 'epiano':
+            synth = new Tone.PolySynth(Tone.AMSynth, {
+                harmonicity: 2,
+                oscillator: { type: 'triangle' },
+                envelope: { attack: 0.01, decay: 0.2, sustain: 0.7, release: 0.8 },
+                modulation: { type: 'sine' },
+                modulationEnvelope: { attack: 0.2, decay: 0.1, sustain: 0.6, release: 0.6 },
+            });
+            break;
+        case 'bass':
+            synth = new Tone.PolySynth(Tone.MonoSynth, {
+                oscillator: { type: 'square' },
+                filter: { type: 'lowpass', rolloff: -24, Q: 2 },
+                envelope: { attack: 0.01, decay: 0.2, sustain: 0.6, release: 0.4 },
+                filterEnvelope: { attack: 0.001, decay: 0.15, sustain: 0.4, release: 0.2, baseFrequency: 80, octaves: 3 },
+            });
+            break;
+        case 'pad':
+            synth = new Tone.PolySynth(Tone.FMSynth, {
+                harmonicity: 1.5,
+                modulationIndex: 8,
+                oscillator: { type: 'sine' },
+                envelope: { attack: 0.5, decay: 0.3, sustain: 0.9, release: 1.5 },
+                modulation: { type: 'triangle' },
+                modulationEnvelope: { attack: 0.8, decay: 0.3, sustain: 0.8, release: 1.2 },
+            });
+            break;
+        default:
+            synth = new Tone.PolySynth(Tone.Synth, {
+                oscillator: { type: 'triangle' },
+                envelope: { attack: 0.02, decay: 0.2, sustain: 0.5, release: 0.5 },
+            });
+    }
+
+    synth.connect(destination);
+    return synth;
+};
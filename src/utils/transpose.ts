@@ -0,0 +1,107 @@
+/**
+ * Transposition Utilities
+ *
+ * Shifts chords by an interval and respells them for the key they land in,
+ * so Bb -> up a tone is C, and A# in F becomes Bb rather than staying sharp.
+ */
+
+import { analyzeChord } from './harmonicAnalysis';
+import {
+    NOTES,
+    getPitchClass,
+    getQualitySymbol,
+    spellKeyTonic,
+    spellNoteInKey,
+    toPitchClass,
+    type Chord,
+    type KeyMode
+} from './musicTheory';
+import { transposeVoicing } from './chordVoicing';
+
+export interface CapoSuggestion {
+    key: string;        // Guitar-friendly key whose shapes are used
+    semitones: number;  // Transposition that moves the song into `key` (changes pitch)
+    capo: number;       // Capo fret that keeps the original pitch with `key` shapes
+}
+
+// Keys that sit well under open-position chord shapes
+const GUITAR_FRIENDLY_MAJOR = ['C', 'G', 'D', 'A', 'E'];
+const GUITAR_FRIENDLY_MINOR = ['A', 'E', 'D'];
+
+const MAX_CAPO = 7;
+
+/**
+ * Shift a note by semitones. Returns the sharp-based NOTES spelling used for playback.
+ */
+export function transposeNote(note: string, semitones: number): string {
+    const pitchClass = getPitchClass(note);
+    if (pitchClass === -1) return note;
+    return NOTES[toPitchClass(pitchClass + semitones)];
+}
+
+/**
+ * Shortest signed distance in semitones from one key tonic to another (-5..+6)
+ */
+export function getTranspositionInterval(fromKey: string, toKey: string): number {
+    const fromPc = getPitchClass(fromKey);
+    const toPc = getPitchClass(toKey);
+    if (fromPc === -1 || toPc === -1) return 0;
+
+    const diff = toPitchClass(toPc - fromPc);
+    return diff > 6 ? diff - 12 : diff;
+}
+
+/**
+ * The tonic a key moves to after transposing, spelled the way the wheel spells it
+ */
+export function transposeKey(tonic: string, semitones: number, mode: KeyMode = 'ionian'): string {
+    return spellKeyTonic(transposeNote(tonic, semitones), mode);
+}
+
+/**
+ * Transpose a chord by semitones and respell it in the key it ends up in.
+ * Notes keep their order (inversions and slash basses survive) and an explicit
+ * voicing moves by the same interval; the symbol, slash bass and numeral are rebuilt.
+ */
+export function transposeChord(chord: Chord, semitones: number, tonic: string, mode: KeyMode = 'ionian'): Chord {
+    const root = spellNoteInKey(transposeNote(chord.root, semitones), tonic, mode);
+
+    // Keep whatever suffix the symbol had (m7b5, add9, sus4...) and swap the root and bass
+    const [baseSymbol, slash] = chord.symbol.split(/\/(?=[A-G][#b♯♭]?$)/);
+    const suffix = baseSymbol.startsWith(chord.root)
+        ? baseSymbol.slice(chord.root.length)
+        : getQualitySymbol(chord.quality);
+
+    // Wheel inversions carry their bass as the first note rather than as a bassNote
+    const slashBass = chord.bassNote ?? ((chord.inversion ?? 0) > 0 || slash ? chord.notes[0] : undefined);
+    const bass = slashBass ? spellNoteInKey(transposeNote(slashBass, semitones), tonic, mode) : undefined;
+
+    const transposed: Chord = {
+        ...chord,
+        root,
+        notes: chord.notes.map(note => transposeNote(note, semitones)),
+        symbol: `${root}${suffix}${bass ? `/${bass}` : ''}`,
+        ...(chord.bassNote ? { bassNote: bass } : {}),
+        ...(chord.voicing ? { voicing: transposeVoicing(chord.voicing, semitones) } : {})
+    };
+
+    return { ...transposed, numeral: analyzeChord(transposed, tonic, mode).numeral };
+}
+
+/**
+ * Capo-friendly options for a key: guitar-friendly keys reachable by transposing,
+ * each with the capo fret that would keep the song at its original pitch.
+ * Sorted so the smallest pitch change comes first.
+ */
+export function getCapoSuggestions(tonic: string, mode: KeyMode = 'ionian'): CapoSuggestion[] {
+    const isMinor = mode === 'aeolian' || mode === 'dorian' || mode === 'phrygian' || mode === 'harmonicMinor' || mode === 'melodicMinor';
+    const friendly = isMinor ? GUITAR_FRIENDLY_MINOR : GUITAR_FRIENDLY_MAJOR;
+
+    return friendly
+        .map(key => {
+            const semitones = getTranspositionInterval(tonic, key);
+            return { key, semitones, capo: (12 - ((semitones % 12) + 12) % 12) % 12 };
+        })
+        .filter(suggestion => suggestion.semitones !== 0 && suggestion.capo <= MAX_CAPO)
+        .sort((a, b) => Math.abs(a.semitones) - Math.abs(b.semitones));
+}
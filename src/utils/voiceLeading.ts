@@ -0,0 +1,155 @@
+/**
+ * Voice Leading
+ *
+ * Chooses how each chord of a progression is voiced from the one before it: every
+ * inversion is tried in every octave that fits the range, and the placement with the
+ * least total movement wins. With "keep top note" the melody (top voice) is held or
+ * moved as little as possible first, then the other voices.
+ *
+ * The first chord has nothing to lead from, so it keeps its own inversion, placed near
+ * the bottom of the range like regular playback. Chords with an explicit voicing are
+ * played as written and the next chord leads from them.
+ */
+
+import { invertChord, spellChordTones, toPitchClass, type Chord } from './musicTheory';
+import { getChordVoicing, midiToNoteName, noteToMidi, stackVoicing } from './chordVoicing';
+
+export interface VoiceLeadingSettings {
+    enabled: boolean;      // Smooth voice leading for song playback and exports
+    keepTopNote: boolean;  // Hold the top voice where possible
+    lowestNote: number;    // MIDI number of the lowest note allowed
+    highestNote: number;   // MIDI number of the highest note allowed
+}
+
+export interface ChordVoicing {
+    inversion: number;
+    notes: string[];       // With octaves, low to high
+    midi: number[];
+}
+
+export const DEFAULT_VOICE_LEADING: VoiceLeadingSettings = {
+    enabled: false,
+    keepTopNote: false,
+    lowestNote: 48,  // C3
+    highestNote: 76, // E5
+};
+
+export const VOICE_LEADING_LOW_NOTES = [40, 43, 45, 48, 52];
+export const VOICE_LEADING_HIGH_NOTES = [72, 76, 79, 84];
+
+// Top-voice movement outweighs any amount of movement in the other voices
+const TOP_NOTE_WEIGHT = 1000;
+
+/**
+ * Chord notes starting from the root, whichever inversion they are stored in
+ */
+export function getRootPositionNotes(chord: Pick<Chord, 'root' | 'notes'>): string[] {
+    const rootPc = toPitchClass(chord.root);
+    const rootIndex = rootPc === -1 ? -1 : chord.notes.findIndex(note => toPitchClass(note) === rootPc);
+    return rootIndex > 0 ? invertChord(chord.notes, rootIndex) : chord.notes;
+}
+
+/**
+ * Every inversion of a chord in every octave that fits the range. When nothing fits
+ * (a wide chord in a narrow range) the placements that stick out least are returned.
+ */
+export function getVoicingCandidates(rootNotes: string[], settings: Pick<VoiceLeadingSettings, 'lowestNote' | 'highestNote'>): ChordVoicing[] {
+    const rootPcs = rootNotes.map(toPitchClass).filter(pc => pc !== -1);
+    if (rootPcs.length === 0) return [];
+
+    const { lowestNote, highestNote } = settings;
+    const candidates: (ChordVoicing & { overflow: number })[] = [];
+
+    rootPcs.forEach((_, inversion) => {
+        const pcs = [...rootPcs.slice(inversion), ...rootPcs.slice(0, inversion)];
+        for (let octave = 1; octave <= 6; octave++) {
+            const midi = stackVoicing(pcs, (octave + 1) * 12 + pcs[0]);
+            const overflow = Math.max(0, lowestNote - midi[0]) + Math.max(0, midi[midi.length - 1] - highestNote);
+            candidates.push({ inversion, midi, notes: midi.map(midiToNoteName), overflow });
+        }
+    });
+
+    const leastOverflow = Math.min(...candidates.map(c => c.overflow));
+    return candidates
+        .filter(c => c.overflow === leastOverflow)
+        .map(({ inversion, midi, notes }) => ({ inversion, midi, notes }));
+}
+
+/**
+ * Total movement between two voicings: each note's distance to the nearest note of the
+ * other chord, both ways, so chords of different sizes compare fairly
+ */
+export function getVoiceMovement(from: number[], to: number[]): number {
+    const nearest = (note: number, chord: number[]) => Math.min(...chord.map(other => Math.abs(other - note)));
+    return to.reduce((sum, note) => sum + nearest(note, from), 0)
+        + from.reduce((sum, note) => sum + nearest(note, to), 0);
+}
+
+/**
+ * Voice a chord from the previous voicing. Without one, the chord keeps `inversion`
+ * and sits as low in the range as it fits.
+ */
+export function chooseVoicing(
+    rootNotes: string[],
+    previous: ChordVoicing | null,
+    settings: VoiceLeadingSettings,
+    inversion: number = 0
+): ChordVoicing | null {
+    const candidates = getVoicingCandidates(rootNotes, settings);
+    if (candidates.length === 0) return null;
+
+    if (!previous) {
+        const ownInversion = candidates.filter(c => c.inversion === inversion);
+        const pool = ownInversion.length > 0 ? ownInversion : candidates;
+        return pool.reduce((best, c) => c.midi[0] < best.midi[0] ? c : best);
+    }
+
+    const previousTop = previous.midi[previous.midi.length - 1];
+    const cost = (candidate: ChordVoicing) => {
+        const movement = getVoiceMovement(previous.midi, candidate.midi);
+        if (!settings.keepTopNote) return movement;
+        return Math.abs(candidate.midi[candidate.midi.length - 1] - previousTop) * TOP_NOTE_WEIGHT + movement;
+    };
+
+    return candidates.reduce((best, c) => cost(c) < cost(best) ? c : best);
+}
+
+/**
+ * Voice a progression in order, each chord led from the last voiced one.
+ * Empty slots come back as null and don't break the line.
+ */
+export function voiceLeadProgression(chords: (Chord | null)[], settings: VoiceLeadingSettings): (ChordVoicing | null)[] {
+    let previous: ChordVoicing | null = null;
+    return chords.map(chord => {
+        if (!chord || chord.notes.length === 0) return null;
+        if (chord.voicing && chord.voicing.length > 0) {
+            const notes = getChordVoicing(chord);
+            previous = { inversion: chord.inversion ?? 0, notes, midi: notes.map(noteToMidi) };
+            return previous;
+        }
+        const voicing = chooseVoicing(getRootPositionNotes(chord), previous, settings, chord.inversion ?? 0);
+        if (voicing) previous = voicing;
+        return voicing;
+    });
+}
+
+/**
+ * A chord with a new inversion written in: notes rotated so the new bass comes first,
+ * and the slash in the symbol updated. Slash chords and chords with an explicit voicing
+ * stay as they are.
+ */
+export function applyInversion(chord: Chord, inversion: number): Chord {
+    if (chord.bassNote || chord.voicing) return chord;
+
+    const notes = invertChord(getRootPositionNotes(chord), inversion);
+    const baseSymbol = chord.symbol.split('/')[0];
+    // Spell the new bass from the root as written in the symbol (Bb7, not A#7)
+    const symbolRoot = baseSymbol.match(/^[A-G][#b]?/)?.[0] ?? chord.root;
+    const bass = spellChordTones({ ...chord, root: symbolRoot, notes })[0];
+    return {
+        ...chord,
+        notes,
+        inversion,
+        symbol: inversion > 0 ? `${baseSymbol}/${bass}` : baseSymbol
+    };
+}
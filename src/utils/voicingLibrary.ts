@@ -0,0 +1,221 @@
+/**
+ * Voicing Library
+ *
+ * Piano voicings generated for any chord, from the chord tones' roles (root, 3rd,
+ * 5th, 7th, extensions) rather than from a fixed table:
+ * - close: every tone stacked as tightly as possible from the bass
+ * - open: close with the second voice raised an octave
+ * - drop 2 / drop 3: a four-voice close voicing with the 2nd or 3rd voice from the
+ *   top dropped an octave
+ * - spread: root low, fifth above it, then the rest from the tenth up
+ * - shell: root, 3rd and 7th only
+ * - rootless A / B: 3-5-7-9 and 7-9-3-5 (13th for the 5th on thirteenth chords), for
+ *   playing over a bass player
+ *
+ * Voicings come back as notes with octaves, low to high, ready to store as a chord's
+ * explicit voicing.
+ */
+
+import { toPitchClass, type Chord } from './musicTheory';
+import { midiToNoteName, stackVoicing } from './chordVoicing';
+import { getRootPositionNotes } from './voiceLeading';
+
+export type VoicingStyle = 'close' | 'open' | 'drop2' | 'drop3' | 'spread' | 'shell' | 'rootlessA' | 'rootlessB';
+
+export const VOICING_STYLES: { value: VoicingStyle; label: string; description: string }[] = [
+    { value: 'close', label: 'Close', description: 'Every chord tone stacked as tightly as possible' },
+    { value: 'open', label: 'Open', description: 'Close position with the second voice up an octave' },
+    { value: 'drop2', label: 'Drop 2', description: 'Second voice from the top dropped an octave' },
+    { value: 'drop3', label: 'Drop 3', description: 'Third voice from the top dropped an octave' },
+    { value: 'spread', label: 'Spread', description: 'Root low with the fifth above, upper tones from the tenth' },
+    { value: 'shell', label: 'Shell', description: 'Root, 3rd and 7th only' },
+    { value: 'rootlessA', label: 'Rootless A', description: '3-5-7-9, leaving the root to the bass' },
+    { value: 'rootlessB', label: 'Rootless B', description: '7-9-3-5, leaving the root to the bass' },
+];
+
+export interface VoicingOption {
+    style: VoicingStyle;
+    label: string;
+    description: string;
+    notes: string[]; // With octaves, low to high
+}
+
+/**
+ * A chord's tones by role, as intervals above the root (0-11)
+ */
+export interface ChordTones {
+    root: number;        // Pitch class of the root
+    third?: number;      // 3 or 4; the suspended 2nd or 4th on sus chords
+    fifth?: number;
+    seventh?: number;    // 10 or 11; the 6th on sixth and diminished seventh chords
+    extensions: number[];
+}
+
+// Rootless voicings sit with their lowest note between D3 and C#4
+const ROOTLESS_LOWEST = 50;
+// Drop voicings sit with their top note between G4 and F#5
+const DROP_TOP_LOWEST = 67;
+// Nothing goes below C2
+const LOWEST_NOTE = 36;
+
+export function getChordTones(chord: Pick<Chord, 'root' | 'notes'>): ChordTones {
+    const root = toPitchClass(chord.root);
+    const intervals = [...new Set(getRootPositionNotes(chord)
+        .map(toPitchClass)
+        .filter(note => note !== -1)
+        .map(note => toPitchClass(note - root)))];
+    const used = new Set([0]);
+
+    const take = (...candidates: number[]) => {
+        const found = candidates.find(interval => intervals.includes(interval) && !used.has(interval));
+        if (found !== undefined) used.add(found);
+        return found;
+    };
+
+    const third = take(4, 3, 5, 2);
+    const fifth = take(7, 6, 8);
+    const seventh = take(11, 10, 9);
+    return { root, third, fifth, seventh, extensions: intervals.filter(interval => !used.has(interval)) };
+}
+
+const rotate = <T>(items: T[], by: number): T[] => {
+    const shift = items.length > 0 ? by % items.length : 0;
+    return [...items.slice(shift), ...items.slice(0, shift)];
+};
+
+/**
+ * Stack intervals (above the root) bottom to top, the first one in `octave`
+ */
+const stackFrom = (tones: ChordTones, intervals: number[], octave: number) =>
+    stackVoicing(intervals.map(interval => toPitchClass(tones.root + interval)), (octave + 1) * 12 + toPitchClass(tones.root + intervals[0]));
+
+/**
+ * Four voices for drop voicings: the fifth goes first, then the root, then the top extensions
+ */
+function getFourVoices(tones: ChordTones): number[] {
+    const voices = [0, tones.third, tones.fifth, tones.seventh, ...tones.extensions]
+        .filter((interval): interval is number => interval !== undefined);
+    const dropOrder = [tones.fifth, 0];
+    while (voices.length > 4) {
+        const next = dropOrder.shift();
+        const index = next !== undefined ? voices.indexOf(next) : voices.length - 1;
+        voices.splice(index === -1 ? voices.length - 1 : index, 1);
+    }
+    return voices;
+}
+
+/**
+ * Close voicing of the given voices with `bass` at the bottom, inside one octave
+ */
+function closeWithin(tones: ChordTones, voices: number[], bass: number, octave: number): number[] {
+    const ordered = [...voices].sort((a, b) => toPitchClass(a - bass) - toPitchClass(b - bass));
+    return stackFrom(tones, ordered, octave);
+}
+
+const dropVoice = (midi: number[], fromTop: number) => {
+    const dropped = [...midi];
+    dropped[dropped.length - fromTop] -= 12;
+    return dropped.sort((a, b) => a - b);
+};
+
+function getRootlessVoices(tones: ChordTones, form: 'A' | 'B'): number[] | null {
+    if (tones.third === undefined || tones.seventh === undefined) return null;
+    const ninth = tones.extensions.find(interval => interval >= 1 && interval <= 3) ?? 2;
+    const thirteenth = tones.seventh !== 9 && tones.extensions.includes(9) ? 9 : undefined;
+    const color = thirteenth ?? tones.fifth;
+    if (color === undefined) return null;
+    return form === 'A'
+        ? [tones.third, color, tones.seventh, ninth]
+        : [tones.seventh, ninth, tones.third, color];
+}
+
+/**
+ * Place a stack so its lowest note sits at or just above `lowest`
+ */
+const placeAbove = (midi: number[], lowest: number) => {
+    const shift = Math.ceil((lowest - midi[0]) / 12) * 12;
+    return midi.map(note => note + shift);
+};
+
+/**
+ * One voicing style for a chord, or null when the style needs tones the chord doesn't
+ * have (drop 3 needs four voices; shell and rootless need a 3rd and a 7th).
+ * Close and open voicings keep the chord's inversion in the bass; drop voicings start
+ * from that inversion's close position.
+ */
+export function generateVoicing(chord: Pick<Chord, 'root' | 'notes' | 'inversion' | 'bassNote'>, style: VoicingStyle): string[] | null {
+    if (chord.notes.length === 0 || toPitchClass(chord.root) === -1) return null;
+
+    const tones = getChordTones(chord);
+    const all = [0, tones.third, tones.fifth, tones.seventh, ...tones.extensions]
+        .filter((interval): interval is number => interval !== undefined);
+    const inversion = chord.inversion ?? 0;
+
+    let midi: number[] | null = null;
+    switch (style) {
+        case 'close':
+            midi = stackFrom(tones, rotate(all, inversion), 3);
+            break;
+        case 'open': {
+            if (all.length < 3) return null;
+            const close = stackFrom(tones, rotate(all, inversion), 3);
+            close[1] += 12;
+            midi = close.sort((a, b) => a - b);
+            break;
+        }
+        case 'drop2':
+        case 'drop3': {
+            const voices = getFourVoices(tones);
+            const fromTop = style === 'drop2' ? 2 : 3;
+            if (voices.length < fromTop + 1) return null;
+            const bass = rotate(voices, inversion)[0];
+            const dropped = dropVoice(closeWithin(tones, voices, bass, 4), fromTop);
+            const topShift = Math.ceil((DROP_TOP_LOWEST - dropped[dropped.length - 1]) / 12) * 12;
+            midi = dropped.map(note => note + topShift);
+            break;
+        }
+        case 'spread': {
+            const upper = [tones.fifth, tones.third, tones.seventh, ...tones.extensions]
+                .filter((interval): interval is number => interval !== undefined);
+            midi = stackFrom(tones, [0, ...upper], 2);
+            break;
+        }
+        case 'shell':
+            if (tones.third === undefined || tones.seventh === undefined) return null;
+            midi = stackFrom(tones, [0, tones.third, tones.seventh], 3);
+            break;
+        case 'rootlessA':
+        case 'rootlessB': {
+            const voices = getRootlessVoices(tones, style === 'rootlessA' ? 'A' : 'B');
+            if (!voices) return null;
+            midi = placeAbove(stackFrom(tones, voices, 3), ROOTLESS_LOWEST);
+            break;
+        }
+    }
+
+    // Slash chords keep their bass under every voicing
+    if (chord.bassNote) {
+        const bassPc = toPitchClass(chord.bassNote);
+        if (bassPc !== -1 && bassPc !== toPitchClass(midi[0])) {
+            const below = midi[0] - (toPitchClass(midi[0] - bassPc) || 12);
+            midi = [below, ...midi];
+        }
+        if (midi[0] < LOWEST_NOTE) midi = midi.map(note => note + 12);
+    }
+
+    return midi.map(midiToNoteName);
+}
+
+/**
+ * Every voicing style that applies to a chord, skipping styles that come out the same
+ * as one earlier in the list (a triad's drop 2 and open, for instance)
+ */
+export function getVoicingLibrary(chord: Pick<Chord, 'root' | 'notes' | 'inversion' | 'bassNote'>): VoicingOption[] {
+    const seen = new Set<string>();
+    return VOICING_STYLES.flatMap(({ value, label, description }) => {
+        const notes = generateVoicing(chord, value);
+        if (!notes || seen.has(notes.join(' '))) return [];
+        seen.add(notes.join(' '));
+        return [{ style: value, label, description, notes }];
+    });
+}
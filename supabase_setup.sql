@@ -118,3 +118,18 @@ using (
   bucket_id = 'samples' AND
   (storage.foldername(name))[1] = auth.uid()::text
 );
+
+-- 5. CHORD SHAPES (User-defined fretboard shapes)
+create table public.chord_shapes (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references public.profiles(id) not null,
+  root text not null,
+  quality text not null,
+  data jsonb not null, -- The shape, its tuning and chord
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table public.chord_shapes enable row level security;
+create policy "Users can view own chord shapes" on public.chord_shapes for select using (auth.uid() = user_id);
+create policy "Users can insert own chord shapes" on public.chord_shapes for insert with check (auth.uid() = user_id);
+create policy "Users can update own chord shapes" on public.chord_shapes for update using (auth.uid() = user_id);
+create policy "Users can delete own chord shapes" on public.chord_shapes for delete using (auth.uid() = user_id);
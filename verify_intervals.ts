@@ -10,14 +10,20 @@ const testCases = [
     { key: 'G', note: 'G', expected: '1' },
     { key: 'G', note: 'B', expected: '3' },
     { key: 'C', note: 'D', expected: '2' },
-    { key: 'C', note: 'F#', expected: '♭5' }, // or #4
+    { key: 'C', note: 'F#', expected: '♯4' },
+    { key: 'C', note: 'Gb', expected: '♯4' }, // Re-spelled in the key
+    { key: 'C', note: 'Bb', expected: '♭7' },
+    { key: 'Bb', note: 'A#', expected: '1' }, // Enharmonic tonic
+    { key: 'Db', note: 'C#', expected: '1' },
+    { key: 'A#', note: 'Bb', expected: '1' },
+    { key: 'Bb', note: 'F', expected: '5' },
 ];
 
 console.log('Running Verification...');
 let passed = 0;
 testCases.forEach(tc => {
     const result = getIntervalFromKey(tc.key, tc.note);
-    if (result === tc.expected || (result === '♭5' && tc.expected === '#4') || (result === '#4' && tc.expected === '♭5')) {
+    if (result === tc.expected) {
         console.log(`PASS: Key ${tc.key}, Note ${tc.note} -> ${result}`);
         passed++;
     } else {
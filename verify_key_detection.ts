@@ -0,0 +1,35 @@
+
+import { estimateKey } from './src/utils/keyDetection';
+import { getKeyDisplayName, parseChordSymbol, type Chord } from './src/utils/musicTheory';
+
+// Progressions with a clear key, and the key each should be detected in
+const testCases = [
+    { progression: 'C G Am F', expected: 'C' },
+    { progression: 'F#m B7 E A', expected: 'E' },
+    { progression: 'Am F C G', expected: 'Am' },
+    { progression: 'Ebm Ab Bbm Ebm', expected: 'Ebm' },
+    { progression: 'Dm7 G7 Cmaj7', expected: 'C' },
+    { progression: 'Am Dm E7 Am', expected: 'Am' },
+    { progression: 'G C D G', expected: 'G' },
+];
+
+// The expected key should also win clearly, not by a hair
+const MIN_CONFIDENCE = 0.5;
+
+console.log('Running Verification...');
+let passed = 0;
+testCases.forEach(tc => {
+    const chords = tc.progression.split(' ').map(parseChordSymbol).filter((c): c is Chord => c !== null);
+    const [best] = estimateKey(chords);
+    const result = best ? getKeyDisplayName(best.tonic, best.mode) : '';
+    const confidence = best ? Math.round(best.confidence * 100) : 0;
+
+    if (result === tc.expected && best.confidence >= MIN_CONFIDENCE) {
+        console.log(`PASS: ${tc.progression} -> ${result} (${confidence}%)`);
+        passed++;
+    } else {
+        console.error(`FAIL: ${tc.progression} -> Got ${result} (${confidence}%), Expected ${tc.expected}`);
+    }
+});
+
+console.log(`\nPassed ${passed} / ${testCases.length} tests.`);
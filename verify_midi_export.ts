@@ -0,0 +1,110 @@
+
+import { exportSongAsMidi } from './src/utils/exportMidi';
+import { noteToMidi, getChordVoicing } from './src/utils/chordVoicing';
+import { parseChordSymbol, type Chord } from './src/utils/musicTheory';
+import type { Song } from './src/types';
+
+// One bar of 4/4 per chord, block chords, at 128 ticks per beat
+const PROGRESSION = ['C', 'Am', 'F', 'G7'];
+const TICKS_PER_BAR = 4 * 128;
+
+const chords = PROGRESSION.map(parseChordSymbol).filter((c): c is Chord => c !== null);
+
+const song: Song = {
+    id: 'verify',
+    title: 'Verify',
+    artist: '',
+    key: 'C',
+    tempo: 120,
+    timeSignature: [4, 4],
+    sections: [{
+        id: 'section',
+        name: 'Verse',
+        type: 'verse',
+        measures: chords.map((chord, i) => ({ id: `m${i}`, beats: [{ id: `s${i}`, chord, duration: 4 }] })),
+    }],
+    notes: '',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+};
+
+/**
+ * Note-on ticks per track: track index -> tick -> MIDI note numbers
+ */
+function readNoteOns(bytes: Uint8Array): Map<number, number[]>[] {
+    const tracks: Map<number, number[]>[] = [];
+    let pos = 14; // Past the header chunk
+
+    const readVarLength = () => {
+        let value = 0;
+        let byte: number;
+        do {
+            byte = bytes[pos++];
+            value = (value << 7) | (byte & 0x7f);
+        } while (byte & 0x80);
+        return value;
+    };
+
+    while (pos < bytes.length) {
+        const length = (bytes[pos + 4] << 24) | (bytes[pos + 5] << 16) | (bytes[pos + 6] << 8) | bytes[pos + 7];
+        const end = pos + 8 + length;
+        pos += 8;
+
+        const noteOns = new Map<number, number[]>();
+        let tick = 0;
+        let status = 0;
+        while (pos < end) {
+            tick += readVarLength();
+            if (bytes[pos] & 0x80) status = bytes[pos++];
+
+            if (status === 0xff) {
+                pos++; // Meta type
+                const metaLength = readVarLength();
+                pos += metaLength;
+            } else if ((status & 0xf0) === 0xc0 || (status & 0xf0) === 0xd0) {
+                pos += 1;
+            } else {
+                const [note, noteVelocity] = [bytes[pos], bytes[pos + 1]];
+                if ((status & 0xf0) === 0x90 && noteVelocity > 0) noteOns.set(tick, [...(noteOns.get(tick) ?? []), note]);
+                pos += 2;
+            }
+        }
+        tracks.push(noteOns);
+        pos = end;
+    }
+    return tracks;
+}
+
+const sameNotes = (a: number[] = [], b: number[]) =>
+    a.length === b.length && [...a].sort((x, y) => x - y).every((note, i) => note === [...b].sort((x, y) => x - y)[i]);
+
+const checks: { name: string; got: number[] | undefined; expected: number[] }[] = [];
+
+const run = async () => {
+    const blob = exportSongAsMidi(song, { drumGroove: 'rock' });
+    const [, chordTrack, drumTrack] = readNoteOns(new Uint8Array(await blob.arrayBuffer()));
+
+    chords.forEach((chord, i) => {
+        checks.push({
+            name: `${chord.symbol} sounds together at tick ${i * TICKS_PER_BAR}`,
+            got: chordTrack.get(i * TICKS_PER_BAR),
+            expected: getChordVoicing(chord).map(noteToMidi),
+        });
+    });
+    checks.push({ name: 'Kick and hi-hat share tick 0', got: drumTrack.get(0), expected: [36, 42] });
+
+    console.log('Running Verification...');
+    let passed = 0;
+    checks.forEach(check => {
+        if (sameNotes(check.got, check.expected)) {
+            console.log(`PASS: ${check.name}`);
+            passed++;
+        } else {
+            console.error(`FAIL: ${check.name} -> Got [${check.got?.join(', ') ?? ''}], Expected [${check.expected.join(', ')}]`);
+        }
+    });
+
+    console.log(`\nPassed ${passed} / ${checks.length} tests.`);
+};
+
+run();